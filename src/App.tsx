@@ -1,8 +1,11 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useSnapshot } from 'valtio'
-import { aninodeStore } from '@core/store'
+import { aninodeStore, undoHistory } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
 import { Layout } from '@components/Layout'
 import { NodeEditor } from '@components/NodeEditor'
+import { NodeGraph } from '@components/NodeGraph'
+import { NodeHost } from '@components/NodeHost'
 import { Viewport } from '@components/Viewport'
 import { PropertiesPanel } from '@components/PropertiesPanel'
 import { Timeline } from '@components/Timeline'
@@ -14,6 +17,30 @@ function App() {
   const snap = useSnapshot(aninodeStore)
   const [view, setView] = useState<'main' | 'tester'>('main')
 
+  // Single frame loop for every node (also propagates connection values)
+  useEffect(() => frameScheduler.start(), [])
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undoHistory.undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        undoHistory.redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
   // View switcher (temporary for testing)
   const viewSwitch = (
     <div style={{
@@ -68,6 +95,7 @@ function App() {
     <>
       {viewSwitch}
       <div className="app">
+        <NodeHost />
         <TopBar />
         <Layout>
           <Layout.Left show={snap.ui.sidebarOpen}>
@@ -75,7 +103,7 @@ function App() {
           </Layout.Left>
 
           <Layout.Center>
-            <Viewport />
+            {snap.ui.centerView === 'graph' ? <NodeGraph /> : <Viewport />}
           </Layout.Center>
 
           <Layout.Right show={snap.ui.propertiesPanelOpen}>
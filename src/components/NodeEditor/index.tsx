@@ -1,27 +1,92 @@
+import { useState } from 'react'
 import { useSnapshot } from 'valtio'
 import { aninodeStore, storeActions } from '@core/store'
+import { DuplicateConnectionError, GraphCycleError, PortTypeError } from '@core/errors'
+import { createConnectionId } from '@core/graph'
+import { compatibleInputs, getNodePorts, getPort } from '@core/ports'
+import { getSchemaDefaults } from '@core/propertySchemas'
+import type { NodeType } from '../../types'
 import styles from './NodeEditor.module.css'
 
 export function NodeEditor() {
   const snap = useSnapshot(aninodeStore)
 
-  const nodeTypes = [
-    { type: 'SceneAnimator', icon: '🎬', label: 'Scene Animator' },
-    { type: 'LFO', icon: '〰️', label: 'LFO' },
-    { type: 'ObjectPicker', icon: '🔗', label: 'Picker' },
-    { type: 'ScaleModifier', icon: '⚙️', label: 'Modifier' },
-    { type: 'LightController', icon: '💡', label: 'Light' },
-    { type: 'PathDrawer', icon: '✏️', label: 'Path Drawer' },
+  const nodeTypes: { type: NodeType; icon: string; label: string }[] = [
+    { type: 'LFONode', icon: '〰️', label: 'LFO' },
+    { type: 'CurveNode', icon: '📈', label: 'Curve' },
+    { type: 'NoiseNode', icon: '🌀', label: 'Noise' },
+    { type: 'RandomNode', icon: '🎲', label: 'Random' },
+    { type: 'RotationNode', icon: '🔄', label: 'Rotation' },
+    { type: 'ScaleNode', icon: '↔️', label: 'Scale' },
+    { type: 'PositionNode', icon: '📍', label: 'Position' },
+    { type: 'DeformationNode', icon: '🫠', label: 'Squash' },
+    { type: 'OpacityNode', icon: '🌫️', label: 'Opacity' },
+    { type: 'ColorNode', icon: '🎨', label: 'Color' },
+    { type: 'PhysicsNode', icon: '🪂', label: 'Physics' },
+    { type: 'CollisionNode', icon: '💥', label: 'Collision' },
+    { type: 'ObjectPickerNode', icon: '🔗', label: 'Picker' },
+    { type: 'StaggerNode', icon: '🌊', label: 'Stagger' },
+    { type: 'TriggerNode', icon: '⚡', label: 'Trigger' },
   ]
 
-  const handleAddNode = (type: string) => {
+  const [draft, setDraft] = useState({
+    sourceNodeId: '',
+    sourceOutput: '',
+    targetNodeId: '',
+    targetInput: '',
+    feedback: false,
+  })
+  const [connectionError, setConnectionError] = useState<string | null>(null)
+
+  const handleConnect = () => {
+    const { sourceNodeId, sourceOutput, targetNodeId, targetInput, feedback } = draft
+    if (!sourceNodeId || !sourceOutput || !targetNodeId || !targetInput) return
+
+    try {
+      storeActions.addConnection({
+        id: createConnectionId(),
+        sourceNodeId,
+        sourceOutput,
+        targetNodeId,
+        targetInput,
+        feedback: feedback || undefined,
+      })
+      setConnectionError(null)
+    } catch (err) {
+      if (err instanceof GraphCycleError) {
+        const names = err.cycle.map((id) => snap.nodes[id]?.name ?? id)
+        setConnectionError(`Would create a loop: ${names.join(' → ')}. Enable "Feedback" to allow it.`)
+        return
+      }
+      if (err instanceof PortTypeError || err instanceof DuplicateConnectionError) {
+        setConnectionError(err.message.replace('[Aninode] ', ''))
+        return
+      }
+      throw err
+    }
+  }
+
+  // Only offer outputs/inputs the nodes declare, and inputs that accept the chosen output's type
+  const sourceNode = snap.nodes[draft.sourceNodeId]
+  const targetNode = snap.nodes[draft.targetNodeId]
+  const sourceOutputs = sourceNode ? getNodePorts(sourceNode.type)?.outputs : undefined
+  const sourcePortType =
+    (sourceNode && getPort(sourceNode.type, 'output', draft.sourceOutput)?.type) || 'any'
+  const targetInputs =
+    targetNode && getNodePorts(targetNode.type)
+      ? compatibleInputs(targetNode.type, sourcePortType)
+      : undefined
+
+  const handleAddNode = (type: NodeType, label: string) => {
     const nodeId = `${type.toLowerCase()}_${Date.now()}`
+    // Cascade new nodes so they don't land on top of each other in the graph
+    const offset = (Object.keys(snap.nodes).length % 10) * 30
     storeActions.addNode({
       id: nodeId,
-      type: type as any,
-      name: type,
-      position: { x: 100, y: 100 },
-      baseProps: {},
+      type,
+      name: label,
+      position: { x: 100 + offset, y: 100 + offset },
+      baseProps: getSchemaDefaults(type),
       overrides: {},
       outputs: {},
       connectedInputs: {},
@@ -41,7 +106,7 @@ export function NodeEditor() {
             <button
               key={node.type}
               className={styles.nodeCard}
-              onClick={() => handleAddNode(node.type)}
+              onClick={() => handleAddNode(node.type, node.label)}
             >
               <span className={styles.nodeIcon}>{node.icon}</span>
               <span className={styles.nodeLabel}>{node.label}</span>
@@ -68,6 +133,95 @@ export function NodeEditor() {
         </div>
       </div>
 
+      <div className={styles.section}>
+        <h3>Connections ({snap.connections.length})</h3>
+        <div className={styles.connectionForm}>
+          <select
+            value={draft.sourceNodeId}
+            onChange={(e) => setDraft({ ...draft, sourceNodeId: e.target.value, sourceOutput: '' })}
+          >
+            <option value="">Source node...</option>
+            {Object.values(snap.nodes).map((node) => (
+              <option key={node.id} value={node.id}>{node.name}</option>
+            ))}
+          </select>
+          {sourceOutputs ? (
+            <select
+              value={draft.sourceOutput}
+              onChange={(e) => setDraft({ ...draft, sourceOutput: e.target.value, targetInput: '' })}
+            >
+              <option value="">Output...</option>
+              {sourceOutputs.map((port) => (
+                <option key={port.name} value={port.name}>
+                  {port.label ?? port.name} ({port.type})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              placeholder="output"
+              value={draft.sourceOutput}
+              onChange={(e) => setDraft({ ...draft, sourceOutput: e.target.value })}
+            />
+          )}
+          <select
+            value={draft.targetNodeId}
+            onChange={(e) => setDraft({ ...draft, targetNodeId: e.target.value, targetInput: '' })}
+          >
+            <option value="">Target node...</option>
+            {Object.values(snap.nodes).map((node) => (
+              <option key={node.id} value={node.id}>{node.name}</option>
+            ))}
+          </select>
+          {targetInputs ? (
+            <select
+              value={draft.targetInput}
+              onChange={(e) => setDraft({ ...draft, targetInput: e.target.value })}
+            >
+              <option value="">Input...</option>
+              {targetInputs.map((port) => (
+                <option key={port.name} value={port.name}>
+                  {port.label ?? port.name} ({port.type})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              placeholder="input"
+              value={draft.targetInput}
+              onChange={(e) => setDraft({ ...draft, targetInput: e.target.value })}
+            />
+          )}
+          <label className={styles.feedbackToggle}>
+            <input
+              type="checkbox"
+              checked={draft.feedback}
+              onChange={(e) => setDraft({ ...draft, feedback: e.target.checked })}
+            />
+            Feedback (1-frame delay)
+          </label>
+          <button className={styles.connectButton} onClick={handleConnect}>
+            Connect
+          </button>
+        </div>
+
+        {connectionError && <div className={styles.connectionError}>{connectionError}</div>}
+
+        <div className={styles.nodeList}>
+          {snap.connections.map((conn) => (
+            <div key={conn.id} className={styles.connectionItem}>
+              <span>
+                {snap.nodes[conn.sourceNodeId]?.name ?? conn.sourceNodeId}.{conn.sourceOutput} →{' '}
+                {snap.nodes[conn.targetNodeId]?.name ?? conn.targetNodeId}.{conn.targetInput}
+                {conn.feedback && <span className={styles.nodeType}> feedback</span>}
+                {conn.kind === 'event' && <span className={styles.nodeType}> event</span>}
+              </span>
+              <button onClick={() => storeActions.removeConnection(conn.id)}>×</button>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {snap.scene && (
         <div className={styles.section}>
           <h3>Scene Layers</h3>
@@ -78,11 +232,9 @@ export function NodeEditor() {
                 <div
                   key={asset.id}
                   className={`${styles.layerItem} ${
-                    snap.ui.selectedLayerId === asset.id ? styles.selected : ''
+                    snap.ui.selectedLayerIds.includes(asset.id) ? styles.selected : ''
                   }`}
-                  onClick={() => {
-                    aninodeStore.ui.selectedLayerId = asset.id
-                  }}
+                  onClick={(e) => storeActions.selectLayer(asset.id, e.shiftKey)}
                 >
                   <span>{asset.name}</span>
                   <span className={styles.zIndex}>z:{asset.zIndex}</span>
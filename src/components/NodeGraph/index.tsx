@@ -0,0 +1,286 @@
+import { useCallback, useMemo, useState } from 'react'
+import { useSnapshot } from 'valtio'
+import ReactFlow, {
+  Background,
+  BackgroundVariant,
+  Controls,
+  Handle,
+  Position,
+  type Connection as FlowConnection,
+  type Edge,
+  type EdgeChange,
+  type Node,
+  type NodeChange,
+  type NodeProps,
+} from 'reactflow'
+import 'reactflow/dist/style.css'
+import { aninodeStore, storeActions, undoHistory } from '@core/store'
+import { DuplicateConnectionError, GraphCycleError, PortTypeError } from '@core/errors'
+import { createConnectionId } from '@core/graph'
+import { getNodePorts, validatePortConnection } from '@core/ports'
+import type { NodeType, PortValueType } from '../../types'
+import styles from './NodeGraph.module.css'
+
+/**
+ * Node graph editor
+ *
+ * Draws the store's nodes at their stored positions with one handle per declared
+ * port. The canvas is fully controlled: every edit (moving, wiring, deleting,
+ * selecting) goes through storeActions, so it is validated and undoable like
+ * edits made anywhere else.
+ */
+
+type GraphNodeData = {
+  name: string
+  type: NodeType
+}
+
+const PORT_COLORS: Record<PortValueType, string> = {
+  number: '#4fc3f7',
+  boolean: '#ffb74d',
+  color: '#f06292',
+  vector2: '#81c784',
+  event: '#fff176',
+  string: '#ba68c8',
+  items: '#4db6ac',
+  any: '#9e9e9e',
+}
+
+function GraphNode({ data, selected }: NodeProps<GraphNodeData>) {
+  const ports = getNodePorts(data.type)
+  const rows = Math.max(ports?.inputs.length ?? 0, ports?.outputs.length ?? 0)
+
+  return (
+    <div className={`${styles.node} ${selected ? styles.selected : ''}`}>
+      <div className={styles.nodeHeader}>
+        <span className={styles.nodeName}>{data.name}</span>
+        <span className={styles.nodeType}>{data.type}</span>
+      </div>
+
+      {rows === 0 && <div className={styles.noPorts}>No ports</div>}
+
+      {Array.from({ length: rows }, (_, i) => {
+        const input = ports?.inputs[i]
+        const output = ports?.outputs[i]
+        return (
+          <div key={i} className={styles.portRow}>
+            {input && (
+              <div className={styles.input} title={input.type}>
+                <Handle
+                  type="target"
+                  position={Position.Left}
+                  id={input.name}
+                  className={styles.handle}
+                  style={{ background: PORT_COLORS[input.type] }}
+                />
+                {input.label ?? input.name}
+              </div>
+            )}
+            {output && (
+              <div className={styles.output} title={output.type}>
+                {output.label ?? output.name}
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id={output.name}
+                  className={styles.handle}
+                  style={{ background: PORT_COLORS[output.type] }}
+                />
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+const nodeTypes = { aninode: GraphNode }
+
+export function NodeGraph() {
+  const snap = useSnapshot(aninodeStore)
+  const [selectedEdgeIds, setSelectedEdgeIds] = useState<string[]>([])
+  const [connectionError, setConnectionError] = useState<string | null>(null)
+  // Measured node sizes; react-flow needs them back on controlled nodes
+  const [dimensions, setDimensions] = useState<Record<string, { width: number; height: number }>>({})
+
+  const nodes = useMemo<Node<GraphNodeData>[]>(
+    () =>
+      Object.values(snap.nodes).map((node) => ({
+        id: node.id,
+        type: 'aninode',
+        position: { x: node.position.x, y: node.position.y },
+        data: { name: node.name, type: node.type },
+        selected: snap.ui.selectedNodeIds.includes(node.id),
+        ...dimensions[node.id],
+      })),
+    [snap.nodes, snap.ui.selectedNodeIds, dimensions]
+  )
+
+  const edges = useMemo<Edge[]>(
+    () =>
+      snap.connections.map((conn) => ({
+        id: conn.id,
+        source: conn.sourceNodeId,
+        sourceHandle: conn.sourceOutput,
+        target: conn.targetNodeId,
+        targetHandle: conn.targetInput,
+        selected: selectedEdgeIds.includes(conn.id),
+        animated: conn.feedback,
+        className:
+          [conn.feedback && styles.feedbackEdge, conn.kind === 'event' && styles.eventEdge].filter(Boolean).join(' ') ||
+          undefined,
+      })),
+    [snap.connections, selectedEdgeIds]
+  )
+
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    const selected = new Set(aninodeStore.ui.selectedNodeIds)
+    let selectionChanged = false
+    const moved = changes
+      .filter((change) => change.type === 'position')
+      .map((change) => change.id)
+      .sort()
+
+    const applyChanges = () => {
+      changes.forEach((change) => {
+        switch (change.type) {
+          case 'position':
+            if (change.position) {
+              storeActions.updateNodePosition(change.id, {
+                x: change.position.x,
+                y: change.position.y,
+              })
+            }
+            break
+          case 'dimensions':
+            if (change.dimensions) {
+              const size = change.dimensions
+              setDimensions((prev) => ({ ...prev, [change.id]: size }))
+            }
+            break
+          case 'select':
+            selectionChanged = true
+            if (change.selected) {
+              selected.add(change.id)
+            } else {
+              selected.delete(change.id)
+            }
+            break
+        }
+      })
+    }
+
+    // Dragging several nodes at once is one undo step; selection and resizing aren't edits
+    if (moved.length > 0) {
+      undoHistory.transaction('Move nodes', applyChanges, { coalesceKey: `graph-move:${moved.join(',')}` })
+    } else {
+      applyChanges()
+    }
+
+    if (selectionChanged) {
+      storeActions.setSelectedNodes([...selected])
+    }
+  }, [])
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    setSelectedEdgeIds((prev) => {
+      const selected = new Set(prev)
+      changes.forEach((change) => {
+        if (change.type !== 'select') return
+        if (change.selected) {
+          selected.add(change.id)
+        } else {
+          selected.delete(change.id)
+        }
+      })
+      return [...selected]
+    })
+  }, [])
+
+  // Highlights only the handles whose port types can be wired together
+  const isValidConnection = useCallback((params: FlowConnection) => {
+    const source = params.source ? aninodeStore.nodes[params.source] : undefined
+    const target = params.target ? aninodeStore.nodes[params.target] : undefined
+    if (!source || !target || !params.sourceHandle || !params.targetHandle) return false
+    if (source.id === target.id) return false
+    return !validatePortConnection(source.type, params.sourceHandle, target.type, params.targetHandle)
+  }, [])
+
+  const handleConnect = useCallback((params: FlowConnection) => {
+    const { source, sourceHandle, target, targetHandle } = params
+    if (!source || !sourceHandle || !target || !targetHandle) return
+
+    try {
+      storeActions.addConnection({
+        id: createConnectionId(),
+        sourceNodeId: source,
+        sourceOutput: sourceHandle,
+        targetNodeId: target,
+        targetInput: targetHandle,
+      })
+      setConnectionError(null)
+    } catch (err) {
+      if (err instanceof GraphCycleError) {
+        const names = err.cycle.map((id) => aninodeStore.nodes[id]?.name ?? id)
+        setConnectionError(
+          `Would create a loop: ${names.join(' → ')}. Add it as a feedback connection from the Node Library instead.`
+        )
+        return
+      }
+      if (err instanceof PortTypeError || err instanceof DuplicateConnectionError) {
+        setConnectionError(err.message.replace('[Aninode] ', ''))
+        return
+      }
+      throw err
+    }
+  }, [])
+
+  // Delete/Backspace removes the selected wires and nodes as one undo step. Only
+  // while the graph has focus: the same keys may be bound elsewhere (TriggerNode)
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key !== 'Delete' && e.key !== 'Backspace') return
+    const target = e.target as HTMLElement
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return
+
+    const nodeIds = [...aninodeStore.ui.selectedNodeIds]
+    if (nodeIds.length === 0 && selectedEdgeIds.length === 0) return
+    e.preventDefault()
+
+    undoHistory.transaction('Delete selection', () => {
+      selectedEdgeIds.forEach((id) => storeActions.removeConnection(id))
+      nodeIds.forEach((id) => storeActions.removeNode(id))
+    })
+    setSelectedEdgeIds([])
+  }, [selectedEdgeIds])
+
+  return (
+    <div className={styles.container} tabIndex={0} onKeyDown={handleKeyDown}>
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        nodeTypes={nodeTypes}
+        onNodesChange={handleNodesChange}
+        onEdgesChange={handleEdgesChange}
+        onConnect={handleConnect}
+        isValidConnection={isValidConnection}
+        deleteKeyCode={null}
+        fitView
+        proOptions={{ hideAttribution: true }}
+      >
+        <Background variant={BackgroundVariant.Dots} gap={20} color="rgba(255, 255, 255, 0.15)" />
+        <Controls className={styles.controls} />
+      </ReactFlow>
+
+      {Object.keys(snap.nodes).length === 0 && (
+        <div className={styles.empty}>Add nodes from the Node Library to start building a graph</div>
+      )}
+
+      {connectionError && (
+        <div className={styles.error} onClick={() => setConnectionError(null)}>
+          {connectionError}
+        </div>
+      )}
+    </div>
+  )
+}
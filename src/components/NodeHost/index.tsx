@@ -0,0 +1,59 @@
+import type { ComponentType } from 'react'
+import { useSnapshot } from 'valtio'
+import { aninodeStore } from '@core/store'
+import { CollisionNode } from '@nodes/CollisionNode'
+import { ColorNode } from '@nodes/ColorNode'
+import { CurveNode } from '@nodes/CurveNode'
+import { DeformationNode } from '@nodes/DeformationNode'
+import { LFONode } from '@nodes/LFONode'
+import { NoiseNode } from '@nodes/NoiseNode'
+import { ObjectPickerNode } from '@nodes/ObjectPickerNode'
+import { OpacityNode } from '@nodes/OpacityNode'
+import { PhysicsNodeFallback } from '@nodes/PhysicsNode'
+import { PositionNode } from '@nodes/PositionNode'
+import { RandomNode } from '@nodes/RandomNode'
+import { RotationNode } from '@nodes/RotationNode'
+import { ScaleNode } from '@nodes/ScaleNode'
+import { StaggerNode } from '@nodes/StaggerNode'
+import { TriggerNode } from '@nodes/TriggerNode'
+import type { NodeType } from '../../types'
+
+/**
+ * Node host
+ *
+ * Mounts the headless component of every node in the document, so nodes added
+ * in the editor (or loaded from a project) tick on the frame scheduler and
+ * publish their outputs. Node types without an implementation are skipped.
+ */
+
+const NODE_COMPONENTS: Partial<Record<NodeType, ComponentType<any>>> = {
+  RotationNode,
+  ScaleNode,
+  PositionNode,
+  OpacityNode,
+  ColorNode,
+  DeformationNode,
+  LFONode,
+  CurveNode,
+  NoiseNode,
+  RandomNode,
+  // The rapier-backed PhysicsNode needs a <Physics> world; the fallback runs anywhere
+  PhysicsNode: PhysicsNodeFallback,
+  CollisionNode,
+  ObjectPickerNode,
+  StaggerNode,
+  TriggerNode,
+}
+
+export function NodeHost() {
+  const snap = useSnapshot(aninodeStore)
+
+  return (
+    <>
+      {Object.values(snap.nodes).map((node) => {
+        const Component = NODE_COMPONENTS[node.type]
+        return Component ? <Component key={node.id} {...node.baseProps} id={node.id} name={node.name} /> : null
+      })}
+    </>
+  )
+}
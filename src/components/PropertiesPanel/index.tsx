@@ -1,7 +1,1022 @@
+import { useRef, useState } from 'react'
 import { useSnapshot } from 'valtio'
-import { aninodeStore } from '@core/store'
+import { aninodeStore, storeActions, undoHistory } from '@core/store'
+import { getPropertySchema, isPropertyVisible } from '@core/propertySchemas'
+import { findPreset, isPresetReference, resolveProperty } from '@core/resolveProperty'
+import { evaluateKeyframes } from '@core/keyframes'
+import { matchesLayer } from '@core/layerBindings'
+import { GSAP_EASING_MAP } from '@core/easing'
+import { gradientToCss, normalizeGradient } from '@core/color'
+import { CURVE_TYPES, DEFAULT_CURVE, createCurve, isCurveDefinition, type CurveDefinition, type CurveType } from '@core/curves'
+import type { AnimationConfig, LayerAnimData, NodeState, PathPoint, PropertyDefinition, SceneAsset } from '../../types'
 import styles from './PropertiesPanel.module.css'
 
+// Where the value shown for a property currently comes from
+type ValueSource = 'base' | 'preset' | 'keyframes' | 'override'
+
+const SOURCE_BADGES: Record<Exclude<ValueSource, 'base'>, { label: string; title: string }> = {
+  override: { label: '🔗 Linked', title: 'Driven by a connection; disconnect the input to edit it' },
+  keyframes: { label: '◆ Keyframed', title: 'Animated by a keyframe track in the timeline' },
+  preset: { label: '★ Preset', title: 'Resolved from a preset; editing replaces the reference' },
+}
+
+function getValueSource(node: NodeState, name: string): ValueSource {
+  if (node.overrides[name] !== undefined) return 'override'
+  if ((node.keyframes?.[name]?.length ?? 0) > 0) return 'keyframes'
+  if (isPresetReference(node.baseProps[name])) return 'preset'
+  return 'base'
+}
+
+// The value the node currently sees for a property at timeline `time`
+function getDisplayValue(node: NodeState, property: PropertyDefinition, source: ValueSource, time: number) {
+  switch (source) {
+    case 'override':
+      return node.overrides[property.name]
+    case 'keyframes':
+      return evaluateKeyframes(node.keyframes![property.name], time)
+    default:
+      // Follows preset references
+      return resolveProperty(node.id, property.name, property.default)
+  }
+}
+
+function formatNumber(value: number, step = 1): string {
+  const decimals = step < 1 ? Math.min(3, String(step).split('.')[1]?.length ?? 2) : 0
+  return Number(value).toFixed(decimals)
+}
+
+// ============================================================================
+// CONTROLS
+// ============================================================================
+
+type ControlProps = {
+  property: PropertyDefinition
+  value: any
+  baseValue?: any // stored value, before preset references are resolved
+  disabled: boolean
+  onChange: (value: any) => void
+}
+
+// Drag around the dial (or type) to set an angle in degrees
+function AngleDial({ property, value, disabled, onChange }: ControlProps) {
+  const dialRef = useRef<HTMLDivElement>(null)
+  const angle = Number(value) || 0
+
+  const setFromPointer = (e: React.PointerEvent) => {
+    const rect = dialRef.current?.getBoundingClientRect()
+    if (!rect) return
+    const dx = e.clientX - (rect.left + rect.width / 2)
+    const dy = e.clientY - (rect.top + rect.height / 2)
+    // 0° points up, increasing clockwise like the rotation node
+    const degrees = (Math.atan2(dy, dx) * 180) / Math.PI + 90
+    onChange(Math.round((degrees + 360) % 360))
+  }
+
+  return (
+    <div className={styles.angleControl}>
+      <div
+        ref={dialRef}
+        className={`${styles.dial} ${disabled ? styles.disabled : ''}`}
+        onPointerDown={(e) => {
+          if (disabled) return
+          e.currentTarget.setPointerCapture(e.pointerId)
+          setFromPointer(e)
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) setFromPointer(e)
+        }}
+      >
+        <div className={styles.dialHand} style={{ transform: `rotate(${angle}deg)` }} />
+      </div>
+      <input
+        type="number"
+        value={angle}
+        step={property.step ?? 1}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+      <span className={styles.unit}>{property.unit ?? '°'}</span>
+    </div>
+  )
+}
+
+// Layer ids or names, typed as a comma-separated list or taken from the layer selection
+function LayerTargetsControl({ value, disabled, onChange }: ControlProps) {
+  const snap = useSnapshot(aninodeStore)
+  const [draft, setDraft] = useState<string | null>(null)
+  const targets: string[] = Array.isArray(value) ? value : []
+  const assets = snap.scene?.assets ?? []
+  const matched = assets.filter((asset) => targets.some((target) => matchesLayer(asset, target)))
+
+  const commit = () => {
+    if (draft === null) return
+    onChange(draft.split(',').map((target) => target.trim()).filter(Boolean))
+    setDraft(null)
+  }
+
+  return (
+    <div className={styles.layerTargets}>
+      <input
+        type="text"
+        value={draft ?? targets.join(', ')}
+        placeholder="Layer names or ids, e.g. bird, cloud"
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+      />
+      <div className={styles.layerTargetsFooter}>
+        <span className={styles.hint}>
+          {snap.scene ? `${matched.length} layer${matched.length === 1 ? '' : 's'} matched` : 'No scene loaded'}
+        </span>
+        <button
+          disabled={disabled || snap.ui.selectedLayerIds.length === 0}
+          onClick={() => onChange([...snap.ui.selectedLayerIds])}
+        >
+          Use selected layers
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// One point per line as "x, y, hx, hy"
+function formatPathPoints(points: readonly PathPoint[]): string {
+  return points.map((point) => [point.x, point.y, point.hx, point.hy].join(', ')).join('\n')
+}
+
+// Lines that don't hold at least x and y are dropped; missing handles are 0
+function parsePathPoints(text: string): PathPoint[] {
+  return text
+    .split('\n')
+    .map((line) => line.split(',').map((part) => Number(part.trim())))
+    .filter((values) => values.length >= 2 && values.slice(0, 2).every(Number.isFinite))
+    .map(([x, y, hx = 0, hy = 0]) => ({
+      x,
+      y,
+      hx: Number.isFinite(hx) ? hx : 0,
+      hy: Number.isFinite(hy) ? hy : 0,
+    }))
+}
+
+// SVG path data for the preview (mirrored handles, see core/bezierPath)
+function pathPreviewData(points: readonly PathPoint[]): string {
+  return points
+    .map((point, index) => {
+      if (index === 0) return `M ${point.x} ${point.y}`
+      const from = points[index - 1]
+      return `C ${from.x + from.hx} ${from.y + from.hy} ${point.x - point.hx} ${point.y - point.hy} ${point.x} ${point.y}`
+    })
+    .join(' ')
+}
+
+// Bezier points (typed as text, previewed) and the animation config of a LayerAnimData
+function PathControl({ value, disabled, onChange }: ControlProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+  const path: Partial<LayerAnimData> & { points: PathPoint[] } =
+    value && Array.isArray(value.points) ? value : { points: [] }
+  const storedConfig: Partial<AnimationConfig> = path.config ?? {}
+  const config: AnimationConfig = {
+    duration: 1,
+    loop: false,
+    yoyo: false,
+    autoRotate: false,
+    ease: 'linear',
+    ...storedConfig,
+  }
+
+  const setConfig = (changes: Partial<AnimationConfig>) =>
+    onChange({ points: path.points, config: { ...config, ...changes } })
+
+  const commit = () => {
+    if (draft === null) return
+    onChange({ points: parsePathPoints(draft), config })
+    setDraft(null)
+  }
+
+  const xs = path.points.flatMap((point) => [point.x, point.x + point.hx, point.x - point.hx])
+  const ys = path.points.flatMap((point) => [point.y, point.y + point.hy, point.y - point.hy])
+  const padding = 10
+  const viewBox = path.points.length
+    ? [
+        Math.min(...xs) - padding,
+        Math.min(...ys) - padding,
+        Math.max(...xs) - Math.min(...xs) + padding * 2,
+        Math.max(...ys) - Math.min(...ys) + padding * 2,
+      ].join(' ')
+    : '0 0 100 100'
+
+  return (
+    <div className={styles.pathEditor}>
+      <svg className={styles.pathPreview} viewBox={viewBox} preserveAspectRatio="xMidYMid meet">
+        <path d={pathPreviewData(path.points)} vectorEffect="non-scaling-stroke" />
+        {path.points.map((point, index) => (
+          <circle key={index} cx={point.x} cy={point.y} r={3} vectorEffect="non-scaling-stroke" />
+        ))}
+      </svg>
+      <textarea
+        rows={Math.max(2, path.points.length)}
+        value={draft ?? formatPathPoints(path.points)}
+        placeholder={'x, y, handleX, handleY\n0, 0, 60, -80'}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+      />
+      <div className={styles.pathConfig}>
+        <label>
+          Duration
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={config.duration}
+            disabled={disabled}
+            onChange={(e) => setConfig({ duration: Number(e.target.value) })}
+          />
+        </label>
+        <label>
+          Ease
+          <select value={config.ease} disabled={disabled} onChange={(e) => setConfig({ ease: e.target.value })}>
+            {Object.keys(GSAP_EASING_MAP).map((ease) => (
+              <option key={ease} value={ease}>
+                {ease}
+              </option>
+            ))}
+          </select>
+        </label>
+        {(['loop', 'yoyo', 'autoRotate'] as const).map((flag) => (
+          <label key={flag} className={styles.toggle}>
+            <input
+              type="checkbox"
+              checked={config[flag]}
+              disabled={disabled}
+              onChange={(e) => setConfig({ [flag]: e.target.checked })}
+            />
+            {flag === 'autoRotate' ? 'Auto-rotate' : flag === 'loop' ? 'Loop' : 'Yoyo'}
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Gradient stops, picked from the gradient presets or typed as a color list
+function GradientControl({ value, disabled, onChange }: ControlProps) {
+  const snap = useSnapshot(aninodeStore)
+  const [draft, setDraft] = useState<string | null>(null)
+  const stops = normalizeGradient(value)
+  const presets = Object.values(snap.presets.gradient ?? {})
+
+  const commit = () => {
+    if (draft === null) return
+    onChange(draft.split(',').map((color) => color.trim()).filter(Boolean))
+    setDraft(null)
+  }
+
+  return (
+    <div className={styles.gradientEditor}>
+      <div className={styles.gradientPreview} style={{ background: gradientToCss(stops) }} />
+      <input
+        type="text"
+        value={draft ?? stops.map((stop) => stop.color).join(', ')}
+        placeholder="Colors, e.g. #ff6b6b, gold, #4d96ff"
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+      />
+      {presets.length > 0 && (
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(e) => e.target.value && onChange(`preset:${e.target.value}`)}
+        >
+          <option value="">Use gradient preset...</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.id}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
+
+// Easing names plus the easing presets; a custom curve shows as its own entry
+function EasingControl({ value, baseValue, disabled, onChange }: ControlProps) {
+  const snap = useSnapshot(aninodeStore)
+  const presets = Object.values(snap.presets.easing ?? {})
+  const selected = isPresetReference(baseValue)
+    ? String(baseValue)
+    : isCurveDefinition(value)
+      ? 'custom'
+      : String(value ?? 'linear')
+
+  return (
+    <select value={selected} disabled={disabled} onChange={(e) => onChange(e.target.value)}>
+      {Object.keys(GSAP_EASING_MAP).map((ease) => (
+        <option key={ease} value={ease}>
+          {ease}
+        </option>
+      ))}
+      {selected === 'custom' && (
+        <option value="custom" disabled>
+          Custom curve
+        </option>
+      )}
+      {!Object.keys(GSAP_EASING_MAP).includes(selected) && !isPresetReference(selected) && selected !== 'custom' && (
+        <option value={selected}>{selected}</option>
+      )}
+      {presets.length > 0 && (
+        <optgroup label="Easing presets">
+          {presets.map((preset) => (
+            <option key={preset.id} value={`preset:${preset.id}`}>
+              {preset.id}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  )
+}
+
+// Curve plot: 0-1 on x, -0.25 to 1.25 on y so overshoot stays visible
+const CURVE_PLOT = { width: 200, height: 150, padding: 10, minY: -0.25, maxY: 1.25 }
+
+const curveToPlot = (x: number, y: number) => ({
+  px: CURVE_PLOT.padding + x * (CURVE_PLOT.width - CURVE_PLOT.padding * 2),
+  py:
+    CURVE_PLOT.padding +
+    ((CURVE_PLOT.maxY - y) / (CURVE_PLOT.maxY - CURVE_PLOT.minY)) * (CURVE_PLOT.height - CURVE_PLOT.padding * 2),
+})
+
+const roundCurveValue = (value: number) => Math.round(value * 1000) / 1000
+
+type CurveDrag = { kind: 'handle' | 'point'; index: number }
+
+// Draggable bezier handles / spline points, intensity for the built-in shapes
+function CurveControl({ value, disabled, onChange }: ControlProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [drag, setDrag] = useState<CurveDrag | null>(null)
+  const curve: CurveDefinition = isCurveDefinition(value) ? JSON.parse(JSON.stringify(value)) : { ...DEFAULT_CURVE }
+  const bezier = curve.bezier ?? DEFAULT_CURVE.bezier!
+  const points = [...(curve.points ?? DEFAULT_CURVE.points!)].sort((a, b) => a.x - b.x)
+
+  const evaluate = createCurve(curve)
+  const samples = Array.from({ length: 65 }, (_, i) => {
+    const { px, py } = curveToPlot(i / 64, evaluate(i / 64))
+    return `${i === 0 ? 'M' : 'L'} ${px} ${py}`
+  }).join(' ')
+
+  // Pointer position in curve units, x clamped to 0-1
+  const pointerToCurve = (e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect) return null
+    const px = ((e.clientX - rect.left) / rect.width) * CURVE_PLOT.width
+    const py = ((e.clientY - rect.top) / rect.height) * CURVE_PLOT.height
+    const x = (px - CURVE_PLOT.padding) / (CURVE_PLOT.width - CURVE_PLOT.padding * 2)
+    const y = CURVE_PLOT.maxY - ((py - CURVE_PLOT.padding) / (CURVE_PLOT.height - CURVE_PLOT.padding * 2)) * (CURVE_PLOT.maxY - CURVE_PLOT.minY)
+    return {
+      x: roundCurveValue(Math.min(1, Math.max(0, x))),
+      y: roundCurveValue(Math.min(CURVE_PLOT.maxY, Math.max(CURVE_PLOT.minY, y))),
+    }
+  }
+
+  const moveTo = (target: CurveDrag, e: React.PointerEvent) => {
+    const position = pointerToCurve(e)
+    if (!position) return
+    if (target.kind === 'handle') {
+      const next = [...bezier] as [number, number, number, number]
+      next[target.index * 2] = position.x
+      next[target.index * 2 + 1] = position.y
+      onChange({ ...curve, bezier: next })
+    } else {
+      // Points keep their order: a dragged point stays between its neighbours
+      const low = points[target.index - 1]?.x ?? 0
+      const high = points[target.index + 1]?.x ?? 1
+      const next = points.map((point, index) =>
+        index === target.index ? { x: Math.min(high, Math.max(low, position.x)), y: position.y } : point
+      )
+      onChange({ ...curve, points: next })
+    }
+  }
+
+  // Double-click empty space to add a spline point, a point to remove it (two always stay)
+  const addPoint = (e: React.MouseEvent) => {
+    if (disabled || curve.type !== 'spline') return
+    const position = pointerToCurve(e)
+    if (position) onChange({ ...curve, points: [...points, position].sort((a, b) => a.x - b.x) })
+  }
+
+  const removePoint = (index: number) => {
+    if (disabled || points.length <= 2) return
+    onChange({ ...curve, points: points.filter((_, i) => i !== index) })
+  }
+
+  // Preset ids are shared by all preset types, so an existing id is never silently replaced
+  const saveAsPreset = () => {
+    const id = window.prompt('Easing preset name')?.trim()
+    if (!id) return
+
+    const existing = findPreset(id)
+    if (existing && existing.type !== 'easing') {
+      window.alert(`A ${existing.type} preset named "${id}" already exists. Choose another name.`)
+      return
+    }
+    if (existing && !window.confirm(`Replace the easing preset "${id}"?`)) return
+
+    storeActions.setPreset({ id, type: 'easing', value: curve })
+  }
+
+  const start = curveToPlot(0, 0)
+  const end = curveToPlot(1, 1)
+  const handles = [curveToPlot(bezier[0], bezier[1]), curveToPlot(bezier[2], bezier[3])]
+
+  return (
+    <div className={styles.curveEditor}>
+      <select
+        value={curve.type}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...curve, type: e.target.value as CurveType })}
+      >
+        {CURVE_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {type}
+          </option>
+        ))}
+      </select>
+      <svg
+        ref={svgRef}
+        className={`${styles.curvePlot} ${disabled ? styles.disabled : ''}`}
+        viewBox={`0 0 ${CURVE_PLOT.width} ${CURVE_PLOT.height}`}
+        onPointerMove={(e) => drag && moveTo(drag, e)}
+        onPointerUp={() => setDrag(null)}
+        onDoubleClick={addPoint}
+      >
+        <rect
+          className={styles.curveBounds}
+          x={start.px}
+          y={end.py}
+          width={end.px - start.px}
+          height={start.py - end.py}
+        />
+        <path className={styles.curveLine} d={samples} />
+        {curve.type === 'bezier' &&
+          handles.map((handle, index) => {
+            const anchor = index === 0 ? start : end
+            return (
+              <g key={index}>
+                <line className={styles.curveHandleLine} x1={anchor.px} y1={anchor.py} x2={handle.px} y2={handle.py} />
+                <circle
+                  className={styles.curveHandle}
+                  cx={handle.px}
+                  cy={handle.py}
+                  r={5}
+                  onPointerDown={(e) => {
+                    if (disabled) return
+                    svgRef.current?.setPointerCapture(e.pointerId)
+                    setDrag({ kind: 'handle', index })
+                  }}
+                />
+              </g>
+            )
+          })}
+        {curve.type === 'spline' &&
+          points.map((point, index) => {
+            const { px, py } = curveToPlot(point.x, point.y)
+            return (
+              <circle
+                key={index}
+                className={styles.curvePoint}
+                cx={px}
+                cy={py}
+                r={4}
+                onPointerDown={(e) => {
+                  if (disabled) return
+                  svgRef.current?.setPointerCapture(e.pointerId)
+                  setDrag({ kind: 'point', index })
+                }}
+                onDoubleClick={(e) => {
+                  e.stopPropagation()
+                  removePoint(index)
+                }}
+              />
+            )
+          })}
+      </svg>
+      {curve.type === 'bezier' && (
+        <span className={styles.curveInfo}>cubic-bezier({bezier.join(', ')})</span>
+      )}
+      {curve.type === 'spline' && <span className={styles.curveInfo}>Double-click to add or remove points</span>}
+      {['exponential', 'logarithmic', 'gaussian', 'spring'].includes(curve.type) && (
+        <div className={styles.slider}>
+          <input
+            type="range"
+            min={curve.type === 'spring' ? 0 : 0.5}
+            max={10}
+            step={0.1}
+            value={curve.intensity ?? 3}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...curve, intensity: Number(e.target.value) })}
+          />
+          <span className={styles.sliderValue}>{formatNumber(curve.intensity ?? 3, 0.1)}</span>
+        </div>
+      )}
+      <button type="button" className={styles.curveSave} disabled={disabled} onClick={saveAsPreset}>
+        Save as easing preset
+      </button>
+    </div>
+  )
+}
+
+// Bar editor: one 0-1 value per bar, drawn by dragging across them
+const BARS_PLOT = { width: 200, height: 80 }
+
+function BarsControl({ value, disabled, onChange }: ControlProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [drawing, setDrawing] = useState(false)
+  const bars: number[] = Array.isArray(value) && value.length > 0 ? value.map((bar) => Number(bar) || 0) : [0]
+  const barWidth = BARS_PLOT.width / bars.length
+
+  // Sets the bar under the pointer to the pointer height
+  const drawAt = (e: React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect) return
+    const index = Math.floor(((e.clientX - rect.left) / rect.width) * bars.length)
+    if (index < 0 || index >= bars.length) return
+    const level = roundCurveValue(Math.min(1, Math.max(0, 1 - (e.clientY - rect.top) / rect.height)))
+    if (bars[index] === level) return
+    onChange(bars.map((bar, i) => (i === index ? level : bar)))
+  }
+
+  // Extra bars start at zero, removed ones are dropped from the end
+  const resize = (count: number) => {
+    const length = Math.min(64, Math.max(2, Math.round(count) || 2))
+    onChange(Array.from({ length }, (_, i) => bars[i] ?? 0))
+  }
+
+  return (
+    <div className={styles.curveEditor}>
+      <svg
+        ref={svgRef}
+        className={`${styles.curvePlot} ${disabled ? styles.disabled : ''}`}
+        viewBox={`0 0 ${BARS_PLOT.width} ${BARS_PLOT.height}`}
+        preserveAspectRatio="none"
+        onPointerDown={(e) => {
+          if (disabled) return
+          svgRef.current?.setPointerCapture(e.pointerId)
+          setDrawing(true)
+          drawAt(e)
+        }}
+        onPointerMove={(e) => drawing && drawAt(e)}
+        onPointerUp={() => setDrawing(false)}
+      >
+        {bars.map((bar, index) => (
+          <rect
+            key={index}
+            className={styles.bar}
+            x={index * barWidth + 1}
+            y={(1 - bar) * BARS_PLOT.height}
+            width={Math.max(1, barWidth - 2)}
+            height={bar * BARS_PLOT.height}
+          />
+        ))}
+      </svg>
+      <label className={styles.curveInfo}>
+        Bars{' '}
+        <input
+          type="number"
+          min={2}
+          max={64}
+          step={1}
+          value={bars.length}
+          disabled={disabled}
+          onChange={(e) => resize(Number(e.target.value))}
+        />
+      </label>
+    </div>
+  )
+}
+
+function PropertyControl(props: ControlProps) {
+  const { property, value, disabled, onChange } = props
+
+  switch (property.control) {
+    case 'slider':
+      return (
+        <div className={styles.slider}>
+          <input
+            type="range"
+            min={property.min ?? 0}
+            max={property.max ?? 1}
+            step={property.step ?? 0.01}
+            value={Number(value) || 0}
+            disabled={disabled}
+            onChange={(e) => onChange(Number(e.target.value))}
+          />
+          <span className={styles.sliderValue}>
+            {formatNumber(Number(value) || 0, property.step)}
+            {property.unit}
+          </span>
+        </div>
+      )
+
+    case 'number':
+      return (
+        <input
+          type="number"
+          min={property.min}
+          max={property.max}
+          step={property.step ?? 1}
+          value={Number(value) || 0}
+          disabled={disabled}
+          onChange={(e) => onChange(Number(e.target.value))}
+        />
+      )
+
+    case 'angle':
+      return <AngleDial {...props} />
+
+    case 'toggle':
+      return (
+        <label className={styles.toggle}>
+          <input
+            type="checkbox"
+            checked={Boolean(value)}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+          {value ? 'On' : 'Off'}
+        </label>
+      )
+
+    case 'enum':
+      return (
+        <select value={String(value)} disabled={disabled} onChange={(e) => onChange(e.target.value)}>
+          {property.options?.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )
+
+    case 'color':
+      return (
+        <div className={styles.color}>
+          <input
+            type="color"
+            value={/^#[0-9a-f]{6}$/i.test(String(value)) ? String(value) : '#ffffff'}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          <input
+            type="text"
+            value={String(value ?? '')}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </div>
+      )
+
+    case 'layers':
+      return <LayerTargetsControl {...props} />
+
+    case 'path':
+      return <PathControl {...props} />
+
+    case 'gradient':
+      return <GradientControl {...props} />
+
+    case 'easing':
+      return <EasingControl {...props} />
+
+    case 'curve':
+      return <CurveControl {...props} />
+
+    case 'bars':
+      return <BarsControl {...props} />
+
+    default:
+      return (
+        <input
+          type="text"
+          value={String(value ?? '')}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )
+  }
+}
+
+// ============================================================================
+// NODE INSPECTOR
+// ============================================================================
+
+function NodeInspector({ node, time }: { node: NodeState; time: number }) {
+  const schema = getPropertySchema(node.type)
+
+  if (!schema) {
+    return (
+      <>
+        <p className={styles.hint}>No inspector schema for {node.type}.</p>
+        <h4>Base Props</h4>
+        <div className={styles.jsonView}>
+          <pre>{JSON.stringify(node.baseProps, null, 2)}</pre>
+        </div>
+      </>
+    )
+  }
+
+  // Values as the node sees them, used for display and for visibleWhen
+  const sources: Record<string, ValueSource> = {}
+  const values: Record<string, any> = {}
+  schema.forEach((property) => {
+    sources[property.name] = getValueSource(node, property.name)
+    values[property.name] = getDisplayValue(node, property, sources[property.name], time)
+  })
+
+  const groups = new Map<string, PropertyDefinition[]>()
+  schema
+    .filter((property) => isPropertyVisible(property, values))
+    .forEach((property) => {
+      const group = property.group ?? 'Properties'
+      groups.set(group, [...(groups.get(group) ?? []), property])
+    })
+
+  return (
+    <>
+      {[...groups.entries()].map(([group, properties]) => (
+        <div key={group} className={styles.group}>
+          <h4>{group}</h4>
+          {properties.map((property) => {
+            const source = sources[property.name]
+            const badge = source === 'base' ? null : SOURCE_BADGES[source]
+            return (
+              <div
+                key={property.name}
+                className={`${styles.property} ${source !== 'base' ? styles[source] : ''}`}
+              >
+                <label>
+                  {property.label}
+                  {badge && (
+                    <span className={styles.badge} title={badge.title}>
+                      {badge.label}
+                    </span>
+                  )}
+                </label>
+                <PropertyControl
+                  property={property}
+                  value={values[property.name]}
+                  baseValue={node.baseProps[property.name]}
+                  disabled={source === 'override' || source === 'keyframes'}
+                  onChange={(value) => storeActions.updateNodeProps(node.id, { [property.name]: value })}
+                />
+              </div>
+            )
+          })}
+        </div>
+      ))}
+    </>
+  )
+}
+
+// ============================================================================
+// LAYER INSPECTOR
+// ============================================================================
+
+// Every CSS mix-blend-mode keyword
+const BLEND_MODES = [
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity',
+  'plus-darker',
+  'plus-lighter',
+]
+
+type LayerNumberKey = 'x' | 'y' | 'width' | 'height' | 'opacity' | 'zIndex'
+
+type LayerEdit = (
+  field: LayerNumberKey,
+  getValue: (asset: SceneAsset) => number,
+  coalesceKey: string
+) => void
+
+// Keeps a value in range and on the field's step grid
+function snapToStep(value: number, step: number, min = -Infinity, max = Infinity): number {
+  const clamped = Math.max(min, Math.min(max, value))
+  const decimals = String(step).split('.')[1]?.length ?? 0
+  return Number((Math.round(clamped / step) * step).toFixed(decimals))
+}
+
+/**
+ * Label that scrubs a number when dragged horizontally: one step per pixel,
+ * Shift for 10x and Alt for 0.1x. `onScrub` receives the total step count
+ * since the drag started.
+ */
+function ScrubLabel({
+  children,
+  onScrubStart,
+  onScrub,
+}: {
+  children: React.ReactNode
+  onScrubStart: () => void
+  onScrub: (steps: number) => void
+}) {
+  const startXRef = useRef(0)
+
+  return (
+    <label
+      className={styles.scrubLabel}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId)
+        startXRef.current = e.clientX
+        onScrubStart()
+      }}
+      onPointerMove={(e) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return
+        const speed = e.shiftKey ? 10 : e.altKey ? 0.1 : 1
+        onScrub((e.clientX - startXRef.current) * speed)
+      }}
+    >
+      {children}
+    </label>
+  )
+}
+
+// Number field shared by every selected layer; shows "Mixed" when they differ
+function LayerNumberField({
+  label,
+  field,
+  layers,
+  step,
+  min,
+  max,
+  slider = false,
+  onEdit,
+}: {
+  label: string
+  field: LayerNumberKey
+  layers: readonly SceneAsset[]
+  step: number
+  min?: number
+  max?: number
+  slider?: boolean
+  onEdit: LayerEdit
+}) {
+  const scrubRef = useRef<{ id: number; start: Record<string, number> } | null>(null)
+  const values = layers.map((layer) => layer[field])
+  const mixed = values.some((value) => value !== values[0])
+  const ids = layers.map((layer) => layer.id).join(',')
+
+  const setValue = (value: number) => {
+    if (!Number.isFinite(value)) return
+    onEdit(field, () => snapToStep(value, step, min, max), `layer-input:${ids}:${field}`)
+  }
+
+  return (
+    <div className={styles.property}>
+      <ScrubLabel
+        onScrubStart={() => {
+          const start: Record<string, number> = {}
+          layers.forEach((layer) => {
+            start[layer.id] = layer[field]
+          })
+          scrubRef.current = { id: Date.now(), start }
+        }}
+        onScrub={(steps) => {
+          const scrub = scrubRef.current
+          if (!scrub) return
+          // Each layer moves from its own starting value, so mixed values stay relative
+          onEdit(
+            field,
+            (asset) => snapToStep((scrub.start[asset.id] ?? asset[field]) + steps * step, step, min, max),
+            `layer-scrub:${scrub.id}`
+          )
+        }}
+      >
+        {label}
+      </ScrubLabel>
+      {slider ? (
+        <div className={styles.slider}>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={values[0]}
+            onChange={(e) => setValue(Number(e.target.value))}
+          />
+          <span className={styles.sliderValue}>{mixed ? 'Mixed' : formatNumber(values[0], step)}</span>
+        </div>
+      ) : (
+        <input
+          type="number"
+          min={min}
+          max={max}
+          step={step}
+          value={mixed ? '' : Number(values[0].toFixed(2))}
+          placeholder={mixed ? 'Mixed' : undefined}
+          onChange={(e) => e.target.value !== '' && setValue(Number(e.target.value))}
+        />
+      )}
+    </div>
+  )
+}
+
+function LayerInspector({ layers }: { layers: readonly SceneAsset[] }) {
+  const [aspectLocked, setAspectLocked] = useState(true)
+
+  const editNumber: LayerEdit = (field, getValue, coalesceKey) =>
+    undoHistory.transaction('Edit layer', () => {
+      layers.forEach((layer) => {
+        const asset = aninodeStore.scene?.assets.find((a) => a.id === layer.id)
+        if (!asset) return
+
+        const value = getValue(asset)
+        const changes: Partial<SceneAsset> = { [field]: value }
+        // Aspect lock keeps each layer's own width/height ratio
+        if (aspectLocked && asset.width > 0 && asset.height > 0) {
+          if (field === 'width') changes.height = (value * asset.height) / asset.width
+          if (field === 'height') changes.width = (value * asset.width) / asset.height
+        }
+        storeActions.updateLayer(asset.id, changes)
+      })
+    }, { coalesceKey })
+
+  const setBlendMode = (blendMode: string) =>
+    undoHistory.transaction('Edit layer', () => {
+      layers.forEach((layer) => storeActions.updateLayer(layer.id, { blendMode }))
+    })
+
+  const blendModes = layers.map((layer) => layer.blendMode || 'normal')
+  const blendMixed = blendModes.some((mode) => mode !== blendModes[0])
+
+  return (
+    <div className={styles.section}>
+      <h3>{layers.length === 1 ? `Layer: ${layers[0].name}` : `${layers.length} Layers`}</h3>
+
+      <LayerNumberField label="X Position" field="x" layers={layers} step={1} onEdit={editNumber} />
+      <LayerNumberField label="Y Position" field="y" layers={layers} step={1} onEdit={editNumber} />
+
+      <div className={styles.sizeRow}>
+        <LayerNumberField label="Width" field="width" layers={layers} step={1} min={1} onEdit={editNumber} />
+        <button
+          className={styles.aspectLock}
+          data-active={aspectLocked}
+          onClick={() => setAspectLocked(!aspectLocked)}
+          title={aspectLocked ? 'Unlock aspect ratio' : 'Lock aspect ratio'}
+        >
+          {aspectLocked ? '🔒' : '🔓'}
+        </button>
+        <LayerNumberField label="Height" field="height" layers={layers} step={1} min={1} onEdit={editNumber} />
+      </div>
+
+      <LayerNumberField
+        label="Opacity"
+        field="opacity"
+        layers={layers}
+        step={0.01}
+        min={0}
+        max={1}
+        slider
+        onEdit={editNumber}
+      />
+      <LayerNumberField label="Z-Index" field="zIndex" layers={layers} step={1} onEdit={editNumber} />
+
+      <div className={styles.property}>
+        <label>Blend Mode</label>
+        <select value={blendMixed ? '' : blendModes[0]} onChange={(e) => setBlendMode(e.target.value)}>
+          {blendMixed && (
+            <option value="" disabled>
+              Mixed
+            </option>
+          )}
+          {BLEND_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {mode}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
+
 export function PropertiesPanel() {
   const snap = useSnapshot(aninodeStore)
 
@@ -10,11 +1025,11 @@ export function PropertiesPanel() {
       ? snap.nodes[snap.ui.selectedNodeIds[0]]
       : null
 
-  const selectedLayer = snap.ui.selectedLayerId
-    ? snap.scene?.assets.find((a) => a.id === snap.ui.selectedLayerId)
-    : null
+  const selectedLayers = (snap.scene?.assets ?? []).filter((a) =>
+    snap.ui.selectedLayerIds.includes(a.id)
+  )
 
-  if (!selectedNode && !selectedLayer) {
+  if (!selectedNode && selectedLayers.length === 0) {
     return (
       <div className={styles.container}>
         <div className={styles.header}>
@@ -45,58 +1060,19 @@ export function PropertiesPanel() {
             <input type="text" value={selectedNode.id} disabled />
           </div>
 
-          <h4>Base Props</h4>
-          <div className={styles.jsonView}>
-            <pre>{JSON.stringify(selectedNode.baseProps, null, 2)}</pre>
-          </div>
+          <NodeInspector
+            node={selectedNode as NodeState}
+            time={snap.timeline.default?.currentTime ?? 0}
+          />
 
           <h4>Outputs</h4>
           <div className={styles.jsonView}>
             <pre>{JSON.stringify(selectedNode.outputs, null, 2)}</pre>
           </div>
-
-          <h4>Overrides</h4>
-          <div className={styles.jsonView}>
-            <pre>{JSON.stringify(selectedNode.overrides, null, 2)}</pre>
-          </div>
         </div>
       )}
 
-      {selectedLayer && (
-        <div className={styles.section}>
-          <h3>Layer: {selectedLayer.name}</h3>
-          <div className={styles.property}>
-            <label>X Position</label>
-            <input type="number" value={selectedLayer.x} />
-          </div>
-          <div className={styles.property}>
-            <label>Y Position</label>
-            <input type="number" value={selectedLayer.y} />
-          </div>
-          <div className={styles.property}>
-            <label>Width</label>
-            <input type="number" value={selectedLayer.width} disabled />
-          </div>
-          <div className={styles.property}>
-            <label>Height</label>
-            <input type="number" value={selectedLayer.height} disabled />
-          </div>
-          <div className={styles.property}>
-            <label>Opacity</label>
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.01"
-              value={selectedLayer.opacity}
-            />
-          </div>
-          <div className={styles.property}>
-            <label>Z-Index</label>
-            <input type="number" value={selectedLayer.zIndex} />
-          </div>
-        </div>
-      )}
+      {selectedLayers.length > 0 && <LayerInspector layers={selectedLayers} />}
     </div>
   )
 }
@@ -1,11 +1,56 @@
+import { useEffect, useRef, useState } from 'react'
 import { useSnapshot } from 'valtio'
-import { aninodeStore, storeActions } from '@core/store'
+import { aninodeStore, storeActions, undoHistory } from '@core/store'
+import { transport } from '@core/transport'
+import { GSAP_EASING_MAP } from '@core/easing'
+import {
+  DEFAULT_KEYFRAME_EASING,
+  createKeyframeId,
+  evaluateKeyframes,
+} from '@core/keyframes'
+import type { Keyframe, PlaybackMode } from '../../types'
 import styles from './Timeline.module.css'
 
+const PLAYBACK_MODES: { value: PlaybackMode; label: string }[] = [
+  { value: 'loop', label: 'Loop' },
+  { value: 'once', label: 'Once' },
+  { value: 'pingPong', label: 'Ping-pong' },
+]
+
+const PLAYBACK_RATES = [0.25, 0.5, 1, 2, 4]
+
+const EASING_NAMES = Object.keys(GSAP_EASING_MAP)
+
+// Layout (must match Timeline.module.css)
+const LABEL_WIDTH = 150
+const PIXELS_PER_SECOND = 100
+
+type KeyframeRef = {
+  nodeId: string
+  propName: string
+  keyframeId: string
+}
+
+type DragState = {
+  id: number // one undo step per drag
+  startX: number
+  origins: { ref: KeyframeRef; time: number }[]
+}
+
+const isSameRef = (a: KeyframeRef, b: KeyframeRef) =>
+  a.nodeId === b.nodeId && a.propName === b.propName && a.keyframeId === b.keyframeId
+
+function findKeyframe(ref: KeyframeRef): Keyframe | undefined {
+  return aninodeStore.nodes[ref.nodeId]?.keyframes?.[ref.propName]?.find((k) => k.id === ref.keyframeId)
+}
+
 export function Timeline() {
   const snap = useSnapshot(aninodeStore)
   const timeline = snap.timeline.default
 
+  const [selection, setSelection] = useState<KeyframeRef[]>([])
+  const dragRef = useRef<DragState | null>(null)
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = Math.floor(seconds % 60)
@@ -13,60 +58,392 @@ export function Timeline() {
     return `${mins}:${secs.toString().padStart(2, '0')}:${frames.toString().padStart(2, '0')}`
   }
 
+  // Keyframes land on whole frames
+  const snapToFrame = (time: number) => {
+    const clamped = Math.max(0, Math.min(timeline.duration, time))
+    return Math.round(clamped * timeline.fps) / timeline.fps
+  }
+
+  const toPixels = (time: number) => LABEL_WIDTH + time * PIXELS_PER_SECOND
+
+  // Time under the pointer, measured from the start of the track lanes
+  const timeAt = (e: React.MouseEvent, lane: HTMLElement) => {
+    const rect = lane.getBoundingClientRect()
+    return (e.clientX - rect.left) / PIXELS_PER_SECOND
+  }
+
   const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
     const rect = e.currentTarget.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const percent = x / rect.width
-    const time = percent * timeline.duration
-    storeActions.setCurrentTime(time)
+    const x = e.clientX - rect.left - LABEL_WIDTH
+    if (x < 0) return
+    transport.seek(x / PIXELS_PER_SECOND)
+    if (!e.shiftKey) {
+      setSelection([])
+    }
+  }
+
+  const hasRange = timeline.inPoint > 0 || timeline.outPoint < timeline.duration
+
+  // ============================================================================
+  // KEYFRAME EDITING
+  // ============================================================================
+
+  const addTrack = (nodeId: string, propName: string) => {
+    const value = Number(aninodeStore.nodes[nodeId]?.baseProps[propName] ?? 0)
+    storeActions.addKeyframe(nodeId, propName, {
+      id: createKeyframeId(),
+      time: snapToFrame(timeline.currentTime),
+      value,
+      easing: DEFAULT_KEYFRAME_EASING,
+    })
+  }
+
+  // Double-click on a lane inserts a keyframe on the current curve
+  const addKeyframeAt = (e: React.MouseEvent<HTMLDivElement>, nodeId: string, propName: string) => {
+    e.stopPropagation()
+    const time = snapToFrame(timeAt(e, e.currentTarget))
+    const track = aninodeStore.nodes[nodeId]?.keyframes?.[propName] ?? []
+    const keyframe: Keyframe = {
+      id: createKeyframeId(),
+      time,
+      value: evaluateKeyframes(track, time) ?? 0,
+      easing: DEFAULT_KEYFRAME_EASING,
+    }
+    storeActions.addKeyframe(nodeId, propName, keyframe)
+    setSelection([{ nodeId, propName, keyframeId: keyframe.id }])
+  }
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>, ref: KeyframeRef) => {
+    e.stopPropagation()
+
+    const isSelected = selection.some((s) => isSameRef(s, ref))
+    let nextSelection: KeyframeRef[]
+    if (e.shiftKey) {
+      nextSelection = isSelected ? selection.filter((s) => !isSameRef(s, ref)) : [...selection, ref]
+    } else {
+      nextSelection = isSelected ? selection : [ref]
+    }
+    setSelection(nextSelection)
+
+    dragRef.current = {
+      id: Date.now(),
+      startX: e.clientX,
+      origins: nextSelection.flatMap((r) => {
+        const keyframe = findKeyframe(r)
+        return keyframe ? [{ ref: r, time: keyframe.time }] : []
+      }),
+    }
+  }
+
+  const deleteSelection = () => {
+    undoHistory.transaction('Delete keyframes', () => {
+      selection.forEach((ref) => storeActions.removeKeyframe(ref.nodeId, ref.propName, ref.keyframeId))
+    })
+    setSelection([])
+  }
+
+  const updateSelection = (changes: Partial<Omit<Keyframe, 'id'>>) => {
+    undoHistory.transaction('Edit keyframes', () => {
+      selection.forEach((ref) => storeActions.updateKeyframe(ref.nodeId, ref.propName, ref.keyframeId, changes))
+    }, {
+      coalesceKey: `keyframes:${selection.map((ref) => ref.keyframeId).join(',')}:${Object.keys(changes).join(',')}`,
+    })
   }
 
+  // Dragging moves every selected keyframe by the same amount of time
+  useEffect(() => {
+    const handlePointerMove = (e: PointerEvent) => {
+      const drag = dragRef.current
+      if (!drag) return
+      const delta = (e.clientX - drag.startX) / PIXELS_PER_SECOND
+      undoHistory.transaction('Move keyframes', () => {
+        drag.origins.forEach(({ ref, time }) => {
+          storeActions.updateKeyframe(ref.nodeId, ref.propName, ref.keyframeId, {
+            time: snapToFrame(time + delta),
+          })
+        })
+      }, { coalesceKey: `keyframe-drag:${drag.id}` })
+    }
+
+    const handlePointerUp = () => {
+      dragRef.current = null
+    }
+
+    window.addEventListener('pointermove', handlePointerMove)
+    window.addEventListener('pointerup', handlePointerUp)
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove)
+      window.removeEventListener('pointerup', handlePointerUp)
+    }
+  })
+
+  // Delete / Backspace removes the selected keyframes (unless typing in a field)
+  useEffect(() => {
+    if (selection.length === 0) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault()
+        deleteSelection()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  // Selected keyframes that still exist (a node or track may have been removed)
+  const selectedKeyframes = selection.flatMap((ref) => {
+    const keyframe = snap.nodes[ref.nodeId]?.keyframes?.[ref.propName]?.find((k) => k.id === ref.keyframeId)
+    return keyframe ? [keyframe] : []
+  })
+  const singleSelected = selectedKeyframes.length === 1 ? selectedKeyframes[0] : null
+  const sharedEasing = selectedKeyframes.every((k) => k.easing === selectedKeyframes[0]?.easing)
+    ? selectedKeyframes[0]?.easing ?? ''
+    : ''
+
   return (
     <div className={styles.container}>
       <div className={styles.controls}>
         <button
           className={styles.playButton}
-          onClick={() => storeActions.setPlaying(!timeline.isPlaying)}
+          onClick={() => transport.toggle()}
         >
           {timeline.isPlaying ? '⏸' : '▶'}
         </button>
         <button
           className={styles.controlButton}
-          onClick={() => storeActions.setCurrentTime(0)}
+          onClick={() => transport.rewind()}
+          title="Go to in point"
         >
           ⏮
         </button>
+        <button
+          className={styles.controlButton}
+          onClick={() => transport.stepFrames(-1)}
+          title="Previous frame"
+        >
+          ◀|
+        </button>
+        <button
+          className={styles.controlButton}
+          onClick={() => transport.stepFrames(1)}
+          title="Next frame"
+        >
+          |▶
+        </button>
         <span className={styles.timeDisplay}>
           {formatTime(timeline.currentTime)} / {formatTime(timeline.duration)}
         </span>
+
+        <div className={styles.transportOptions}>
+          <select
+            className={styles.transportSelect}
+            value={timeline.playbackMode}
+            onChange={(e) => transport.setPlaybackMode(e.target.value as PlaybackMode)}
+          >
+            {PLAYBACK_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+          <select
+            className={styles.transportSelect}
+            value={timeline.rate}
+            onChange={(e) => transport.setRate(Number(e.target.value))}
+          >
+            {PLAYBACK_RATES.map((rate) => (
+              <option key={rate} value={rate}>{rate}x</option>
+            ))}
+          </select>
+          <button
+            className={styles.controlButton}
+            onClick={() => transport.setInPoint(timeline.currentTime)}
+            title="Set in point at playhead"
+          >
+            [
+          </button>
+          <button
+            className={styles.controlButton}
+            onClick={() => transport.setOutPoint(timeline.currentTime)}
+            title="Set out point at playhead"
+          >
+            ]
+          </button>
+          {hasRange && (
+            <button
+              className={styles.controlButton}
+              onClick={() => transport.clearRange()}
+              title="Clear in/out points"
+            >
+              ×
+            </button>
+          )}
+        </div>
       </div>
 
-      <div className={styles.timelineWrapper}>
-        <div className={styles.ruler}>
-          {Array.from({ length: Math.ceil(timeline.duration) + 1 }).map((_, i) => (
-            <div key={i} className={styles.tick}>
-              <span>{i}s</span>
-            </div>
-          ))}
+      {/* Selected keyframe(s) */}
+      {selectedKeyframes.length > 0 && (
+        <div className={styles.keyframeBar}>
+          <span className={styles.keyframeCount}>
+            {selectedKeyframes.length === 1 ? '1 keyframe' : `${selectedKeyframes.length} keyframes`}
+          </span>
+          {singleSelected && (
+            <>
+              <label>
+                Time
+                <input
+                  type="number"
+                  step={1 / timeline.fps}
+                  value={singleSelected.time}
+                  onChange={(e) => updateSelection({ time: snapToFrame(Number(e.target.value)) })}
+                />
+              </label>
+              <label>
+                Value
+                <input
+                  type="number"
+                  step="any"
+                  value={singleSelected.value}
+                  onChange={(e) => updateSelection({ value: Number(e.target.value) })}
+                />
+              </label>
+            </>
+          )}
+          <label>
+            Easing
+            <select
+              value={sharedEasing}
+              onChange={(e) => updateSelection({ easing: e.target.value })}
+            >
+              {!sharedEasing && <option value="">Mixed</option>}
+              {EASING_NAMES.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <button className={styles.controlButton} onClick={deleteSelection} title="Delete keyframes">
+            🗑
+          </button>
         </div>
+      )}
 
-        <div className={styles.timeline} onClick={handleSeek}>
-          <div
-            className={styles.playhead}
-            style={{
-              left: `${(timeline.currentTime / timeline.duration) * 100}%`,
-            }}
-          />
-
-          {/* Placeholder for keyframes/layers */}
-          <div className={styles.tracks}>
-            {Object.values(snap.nodes).map((node) => (
-              <div key={node.id} className={styles.track}>
-                <div className={styles.trackLabel}>{node.name}</div>
-                <div className={styles.trackContent}></div>
+      <div className={styles.timelineWrapper}>
+        <div
+          className={styles.timelineContent}
+          style={{ width: toPixels(timeline.duration) + PIXELS_PER_SECOND }}
+        >
+          <div className={styles.ruler}>
+            <div className={styles.rulerSpacer} />
+            {Array.from({ length: Math.ceil(timeline.duration) + 1 }).map((_, i) => (
+              <div key={i} className={styles.tick}>
+                <span>{i}s</span>
               </div>
             ))}
           </div>
+
+          <div className={styles.timeline} onClick={handleSeek}>
+            {hasRange && (
+              <div
+                className={styles.range}
+                style={{
+                  left: toPixels(timeline.inPoint),
+                  width: (timeline.outPoint - timeline.inPoint) * PIXELS_PER_SECOND,
+                }}
+              />
+            )}
+            <div
+              className={styles.playhead}
+              style={{
+                left: toPixels(timeline.currentTime),
+              }}
+            />
+
+            <div className={styles.tracks}>
+              {Object.values(snap.nodes).map((node) => {
+                const keyframes = node.keyframes ?? {}
+                const trackedProps = Object.keys(keyframes)
+                const availableProps = Object.entries(node.baseProps)
+                  .filter(([propName, value]) => typeof value === 'number' && !keyframes[propName])
+                  .map(([propName]) => propName)
+
+                return (
+                  <div key={node.id} className={styles.nodeTracks}>
+                    <div className={styles.track}>
+                      <div className={styles.trackLabel}>
+                        <span>{node.name}</span>
+                        {availableProps.length > 0 && (
+                          <select
+                            className={styles.addTrackSelect}
+                            value=""
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => addTrack(node.id, e.target.value)}
+                            title="Keyframe a property"
+                          >
+                            <option value="">＋</option>
+                            {availableProps.map((propName) => (
+                              <option key={propName} value={propName}>{propName}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                      <div className={styles.trackContent}>
+                        {/* Summary of every keyframe on this node */}
+                        {trackedProps.flatMap((propName) =>
+                          keyframes[propName].map((keyframe) => (
+                            <div
+                              key={`${propName}-${keyframe.id}`}
+                              className={`${styles.keyframe} ${styles.keyframeSummary}`}
+                              style={{ left: keyframe.time * PIXELS_PER_SECOND }}
+                            />
+                          ))
+                        )}
+                      </div>
+                    </div>
+
+                    {trackedProps.map((propName) => (
+                      <div key={propName} className={`${styles.track} ${styles.propertyTrack}`}>
+                        <div className={styles.trackLabel}>
+                          <span>{propName}</span>
+                          <button
+                            className={styles.removeTrackButton}
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              storeActions.removeKeyframeTrack(node.id, propName)
+                            }}
+                            title="Remove keyframes"
+                          >
+                            ×
+                          </button>
+                        </div>
+                        <div
+                          className={styles.trackContent}
+                          onDoubleClick={(e) => addKeyframeAt(e, node.id, propName)}
+                        >
+                          {keyframes[propName].map((keyframe) => {
+                            const ref = { nodeId: node.id, propName, keyframeId: keyframe.id }
+                            const isSelected = selection.some((s) => isSameRef(s, ref))
+                            return (
+                              <div
+                                key={keyframe.id}
+                                className={`${styles.keyframe} ${isSelected ? styles.keyframeSelected : ''}`}
+                                style={{ left: keyframe.time * PIXELS_PER_SECOND }}
+                                title={`${keyframe.value} @ ${formatTime(keyframe.time)} (${keyframe.easing})`}
+                                onPointerDown={(e) => startDrag(e, ref)}
+                                onClick={(e) => e.stopPropagation()}
+                                onDoubleClick={(e) => e.stopPropagation()}
+                              />
+                            )
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
         </div>
       </div>
     </div>
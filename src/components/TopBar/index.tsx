@@ -1,9 +1,72 @@
+import { useEffect, useRef, useState } from 'react'
 import { useSnapshot } from 'valtio'
-import { aninodeStore, storeActions } from '@core/store'
+import { aninodeStore, storeActions, undoHistory } from '@core/store'
+import { transport } from '@core/transport'
+import { ProjectFormatError } from '@core/errors'
+import {
+  PROJECT_FILE_EXTENSION,
+  hasLoadIssues,
+  loadProject,
+  serializeProject,
+  type ProjectLoadReport,
+} from '@core/project'
 import styles from './TopBar.module.css'
 
+// Lists everything that could not be restored, one line per item
+function describeLoadIssues(report: ProjectLoadReport): string {
+  return [
+    ...report.droppedNodes.map((n) => `Node "${n.id}" dropped: ${n.reason}`),
+    ...report.droppedConnections.map((c) => `Connection "${c.id}" dropped: ${c.reason}`),
+    ...report.droppedPresets.map((p) => `Preset "${p.id}" dropped: ${p.reason}`),
+  ].join('\n')
+}
+
 export function TopBar() {
   const snap = useSnapshot(aninodeStore)
+  const historySnap = useSnapshot(undoHistory.state)
+  const projectInputRef = useRef<HTMLInputElement>(null)
+  const [editMenuOpen, setEditMenuOpen] = useState(false)
+  // Problems from the last project open, shown until clicked away
+  const [loadMessage, setLoadMessage] = useState<string | null>(null)
+
+  // Close the Edit menu on any click outside of it
+  useEffect(() => {
+    if (!editMenuOpen) return
+    const close = () => setEditMenuOpen(false)
+    window.addEventListener('click', close)
+    return () => window.removeEventListener('click', close)
+  }, [editMenuOpen])
+
+  const handleExportProject = () => {
+    const project = serializeProject()
+    const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${project.meta.name}${PROJECT_FILE_EXTENSION}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // allow re-opening the same file
+    if (!file) return
+
+    try {
+      const report = loadProject(await file.text())
+      setLoadMessage(
+        hasLoadIssues(report) ? `Some items could not be restored:\n${describeLoadIssues(report)}` : null
+      )
+    } catch (err) {
+      if (err instanceof ProjectFormatError) {
+        setLoadMessage(err.message.replace('[Aninode] ', ''))
+        return
+      }
+      throw err
+    }
+  }
 
   const handleImportScene = async () => {
     try {
@@ -36,7 +99,37 @@ export function TopBar() {
       <div className={styles.left}>
         <div className={styles.logo}>Aninode</div>
         <button className={styles.menuButton}>File</button>
-        <button className={styles.menuButton}>Edit</button>
+        <div className={styles.menu}>
+          <button
+            className={styles.menuButton}
+            onClick={(e) => {
+              e.stopPropagation()
+              setEditMenuOpen(!editMenuOpen)
+            }}
+          >
+            Edit
+          </button>
+          {editMenuOpen && (
+            <div className={styles.menuDropdown}>
+              <button
+                className={styles.menuItem}
+                disabled={!historySnap.canUndo}
+                onClick={() => undoHistory.undo()}
+              >
+                <span>Undo{historySnap.undoLabel ? ` ${historySnap.undoLabel}` : ''}</span>
+                <span className={styles.shortcut}>Ctrl+Z</span>
+              </button>
+              <button
+                className={styles.menuItem}
+                disabled={!historySnap.canRedo}
+                onClick={() => undoHistory.redo()}
+              >
+                <span>Redo{historySnap.redoLabel ? ` ${historySnap.redoLabel}` : ''}</span>
+                <span className={styles.shortcut}>Ctrl+Shift+Z</span>
+              </button>
+            </div>
+          )}
+        </div>
         <button className={styles.menuButton}>View</button>
       </div>
 
@@ -65,9 +158,28 @@ export function TopBar() {
 
         <div className={styles.divider} />
 
+        <button
+          className={styles.toolButton}
+          onClick={() => storeActions.setCenterView('viewport')}
+          data-active={snap.ui.centerView === 'viewport'}
+          title="Viewport"
+        >
+          <span>🖼️</span>
+        </button>
+        <button
+          className={styles.toolButton}
+          onClick={() => storeActions.setCenterView('graph')}
+          data-active={snap.ui.centerView === 'graph'}
+          title="Node graph"
+        >
+          <span>🕸️</span>
+        </button>
+
+        <div className={styles.divider} />
+
         <button
           className={styles.playButton}
-          onClick={() => storeActions.setPlaying(!snap.ui.isPlaying)}
+          onClick={() => transport.toggle()}
         >
           {snap.ui.isPlaying ? '⏸️' : '▶️'}
         </button>
@@ -77,7 +189,22 @@ export function TopBar() {
         <button className={styles.iconButton} onClick={handleImportScene}>
           📁 Import
         </button>
-        <button className={styles.iconButton}>💾 Export</button>
+        <button
+          className={styles.iconButton}
+          onClick={() => projectInputRef.current?.click()}
+        >
+          📂 Open
+        </button>
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},.json`}
+          onChange={handleOpenProject}
+          hidden
+        />
+        <button className={styles.iconButton} onClick={handleExportProject}>
+          💾 Export
+        </button>
         <button
           className={styles.iconButton}
           onClick={() => storeActions.toggleSidebar()}
@@ -85,6 +212,12 @@ export function TopBar() {
           {snap.ui.sidebarOpen ? '◀️' : '▶️'}
         </button>
       </div>
+
+      {loadMessage && (
+        <div className={styles.loadMessage} onClick={() => setLoadMessage(null)}>
+          {loadMessage}
+        </div>
+      )}
     </header>
   )
 }
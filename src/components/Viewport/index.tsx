@@ -1,11 +1,20 @@
 import { useRef, useEffect, useState } from 'react'
 import { useSnapshot } from 'valtio'
 import { aninodeStore, storeActions } from '@core/store'
+import {
+  composeLayerColors,
+  composeLayerTransforms,
+  layerFilterToCss,
+  layerTransformToCss,
+} from '@core/layerBindings'
+import { emitSceneInput } from '@core/sceneInput'
+import type { NodeState, SceneAsset } from '../../types'
 import styles from './Viewport.module.css'
 
 export function Viewport() {
   const snap = useSnapshot(aninodeStore)
   const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLDivElement>(null)
   const [scale, setScale] = useState(1)
 
   // Auto-scale canvas to fit viewport
@@ -37,10 +46,40 @@ export function Viewport() {
     )
   }
 
+  // Node outputs bound to layers, composed per layer
+  const layerTransforms = composeLayerTransforms(
+    snap.nodes as Record<string, NodeState>,
+    snap.scene.assets
+  )
+  const layerColors = composeLayerColors(snap.nodes as Record<string, NodeState>, snap.scene.assets)
+
+  // Pointer input on a layer, reported in canvas pixels for trigger nodes
+  const emitLayerPointer = (
+    type: 'click' | 'pointerenter' | 'pointerleave',
+    asset: SceneAsset,
+    e: React.MouseEvent
+  ) => {
+    const rect = canvasRef.current?.getBoundingClientRect()
+    const canvasScale = scale * snap.ui.zoom
+    emitSceneInput({
+      type,
+      layerId: asset.id,
+      layerName: asset.name,
+      x: rect ? (e.clientX - rect.left) / canvasScale : 0,
+      y: rect ? (e.clientY - rect.top) / canvasScale : 0,
+      timeStamp: e.timeStamp,
+    })
+  }
+
   return (
-    <div className={styles.container} ref={containerRef}>
+    <div
+      className={styles.container}
+      ref={containerRef}
+      onWheel={(e) => emitSceneInput({ type: 'wheel', deltaY: e.deltaY, timeStamp: e.timeStamp })}
+    >
       <div className={styles.viewport}>
         <div
+          ref={canvasRef}
           className={styles.canvas}
           style={{
             width: snap.scene.canvas.width,
@@ -50,32 +89,62 @@ export function Viewport() {
         >
           {[...snap.scene.assets]
             .sort((a, b) => a.zIndex - b.zIndex)
-            .map((asset) => (
-              <div
-                key={asset.id}
-                className={`${styles.layer} ${
-                  snap.ui.selectedLayerId === asset.id ? styles.selected : ''
-                }`}
-                style={{
-                  left: asset.x,
-                  top: asset.y,
-                  width: asset.width,
-                  height: asset.height,
-                  zIndex: asset.zIndex,
-                  opacity: asset.opacity,
-                  mixBlendMode: asset.blendMode as any,
-                }}
-                onClick={() => {
-                  aninodeStore.ui.selectedLayerId = asset.id
-                }}
-              >
-                <img
-                  src={snap.loadedImages[asset.file]}
-                  alt={asset.name}
-                  draggable={false}
-                />
-              </div>
-            ))}
+            .map((asset) => {
+              const transform = layerTransforms[asset.id]
+              const colors = layerColors[asset.id] ?? []
+              const image = snap.loadedImages[asset.file]
+              return (
+                <div
+                  key={asset.id}
+                  className={`${styles.layer} ${
+                    snap.ui.selectedLayerIds.includes(asset.id) ? styles.selected : ''
+                  }`}
+                  style={{
+                    left: asset.x,
+                    top: asset.y,
+                    width: asset.width,
+                    height: asset.height,
+                    zIndex: asset.zIndex,
+                    opacity: asset.opacity * (transform?.opacity ?? 1),
+                    mixBlendMode: asset.blendMode as any,
+                    transform: transform
+                      ? layerTransformToCss(transform, asset.width, asset.height)
+                      : undefined,
+                    transformOrigin: '0 0',
+                    // Keeps color overlays blending with this layer only
+                    isolation: colors.length > 0 ? 'isolate' : undefined,
+                  }}
+                  onClick={(e) => {
+                    storeActions.selectLayer(asset.id, e.shiftKey)
+                    emitLayerPointer('click', asset as SceneAsset, e)
+                  }}
+                  onPointerEnter={(e) => emitLayerPointer('pointerenter', asset as SceneAsset, e)}
+                  onPointerLeave={(e) => emitLayerPointer('pointerleave', asset as SceneAsset, e)}
+                >
+                  <img
+                    src={image}
+                    alt={asset.name}
+                    draggable={false}
+                    style={{ filter: transform ? layerFilterToCss(transform) : undefined }}
+                  />
+                  {colors.map((effect, index) => (
+                    <div
+                      key={index}
+                      className={styles.colorOverlay}
+                      style={{
+                        background: effect.color,
+                        opacity: effect.amount,
+                        // Tint keeps the layer's shading and takes the color's hue and saturation
+                        mixBlendMode: effect.blend === 'tint' ? 'color' : 'normal',
+                        // Only the layer's opaque pixels are colored
+                        maskImage: image ? `url(${image})` : undefined,
+                        WebkitMaskImage: image ? `url(${image})` : undefined,
+                      }}
+                    />
+                  ))}
+                </div>
+              )
+            })}
         </div>
       </div>
 
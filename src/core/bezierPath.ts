@@ -0,0 +1,129 @@
+import type { PathPoint } from '../types'
+
+/**
+ * Bezier paths
+ *
+ * A path is a list of PathPoints joined by cubic bezier segments. Each point's
+ * handle (`hx`, `hy`) is mirrored: the segment leaving a point pulls towards
+ * `point + handle`, the segment arriving at it towards `point - handle`, so
+ * curves pass smoothly through every point. Zero handles give straight lines.
+ *
+ * Progress along a path is measured by arc length, so a linear 0-1 progress
+ * moves at constant speed however the points are spaced.
+ */
+
+export type PathSample = {
+  x: number
+  y: number
+  angle: number // tangent direction in degrees (0 = +x, clockwise on screen)
+}
+
+// Samples per segment for the arc length table
+const SEGMENT_RESOLUTION = 24
+
+type Segment = [PathPoint, PathPoint]
+
+function bezierPoint(p0: number, c0: number, c1: number, p1: number, t: number): number {
+  const u = 1 - t
+  return u * u * u * p0 + 3 * u * u * t * c0 + 3 * u * t * t * c1 + t * t * t * p1
+}
+
+function bezierDerivative(p0: number, c0: number, c1: number, p1: number, t: number): number {
+  const u = 1 - t
+  return 3 * u * u * (c0 - p0) + 6 * u * t * (c1 - c0) + 3 * t * t * (p1 - c1)
+}
+
+function evaluateSegment([from, to]: Segment, t: number): PathSample {
+  const c0x = from.x + from.hx
+  const c0y = from.y + from.hy
+  const c1x = to.x - to.hx
+  const c1y = to.y - to.hy
+
+  let dx = bezierDerivative(from.x, c0x, c1x, to.x, t)
+  let dy = bezierDerivative(from.y, c0y, c1y, to.y, t)
+  // A handle sitting on its point has no direction at the ends; use the chord
+  if (dx === 0 && dy === 0) {
+    dx = to.x - from.x
+    dy = to.y - from.y
+  }
+
+  return {
+    x: bezierPoint(from.x, c0x, c1x, to.x, t),
+    y: bezierPoint(from.y, c0y, c1y, to.y, t),
+    angle: (Math.atan2(dy, dx) * 180) / Math.PI,
+  }
+}
+
+// Cumulative arc length at each table entry, keyed by the path's contents
+// (paths live in the store and can be edited in place)
+const lengthCache = new Map<string, { segments: Segment[]; lengths: number[] }>()
+const MAX_CACHED_PATHS = 32
+
+function getLengthTable(points: readonly PathPoint[]) {
+  const key = JSON.stringify(points)
+  let table = lengthCache.get(key)
+  if (table) return table
+
+  const segments: Segment[] = []
+  for (let i = 0; i < points.length - 1; i++) {
+    segments.push([points[i], points[i + 1]])
+  }
+
+  const lengths = [0]
+  let previous = segments[0] ? evaluateSegment(segments[0], 0) : null
+  segments.forEach((segment) => {
+    for (let step = 1; step <= SEGMENT_RESOLUTION; step++) {
+      const sample = evaluateSegment(segment, step / SEGMENT_RESOLUTION)
+      lengths.push(lengths[lengths.length - 1] + Math.hypot(sample.x - previous!.x, sample.y - previous!.y))
+      previous = sample
+    }
+  })
+
+  table = { segments, lengths }
+  if (lengthCache.size >= MAX_CACHED_PATHS) lengthCache.clear()
+  lengthCache.set(key, table)
+  return table
+}
+
+/**
+ * Total length of a path in px
+ */
+export function getPathLength(points: readonly PathPoint[]): number {
+  const { lengths } = getLengthTable(points)
+  return lengths[lengths.length - 1]
+}
+
+/**
+ * Position and tangent at `progress` (0-1, by arc length) along the path.
+ * Returns null for an empty path; a single point is a path that stays put.
+ */
+export function samplePath(points: readonly PathPoint[], progress: number): PathSample | null {
+  if (points.length === 0) return null
+  if (points.length === 1) return { x: points[0].x, y: points[0].y, angle: 0 }
+
+  const { segments, lengths } = getLengthTable(points)
+  const total = lengths[lengths.length - 1]
+  const clamped = Math.min(1, Math.max(0, progress))
+
+  // Degenerate path (all points on top of each other): split evenly by segment
+  if (total === 0) {
+    const position = clamped * segments.length
+    const index = Math.min(segments.length - 1, Math.floor(position))
+    return evaluateSegment(segments[index], position - index)
+  }
+
+  // Find the table entry holding the target length, then interpolate within it
+  const target = clamped * total
+  let low = 0
+  let high = lengths.length - 1
+  while (high - low > 1) {
+    const mid = (low + high) >> 1
+    if (lengths[mid] < target) low = mid
+    else high = mid
+  }
+
+  const span = lengths[high] - lengths[low]
+  const entry = low + (span > 0 ? (target - lengths[low]) / span : 0)
+  const index = Math.min(segments.length - 1, Math.floor(entry / SEGMENT_RESOLUTION))
+  return evaluateSegment(segments[index], entry / SEGMENT_RESOLUTION - index)
+}
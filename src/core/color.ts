@@ -0,0 +1,295 @@
+/**
+ * Color math
+ *
+ * Colors travel between nodes as CSS strings (hex, rgb(), hsl()). Interpolation
+ * happens in a chosen color space:
+ * - rgb: straight channel mix (can dip through grey between complementary colors)
+ * - hsl: hue takes the shortest way round the wheel
+ * - oklch: perceptual lightness/chroma/hue, so mid-points keep even brightness
+ */
+
+export type ColorSpace = 'rgb' | 'hsl' | 'oklch'
+
+export type RGBA = {
+  r: number // 0-255
+  g: number
+  b: number
+  a: number // 0-1
+}
+
+export type HSL = {
+  h: number // degrees
+  s: number // 0-1
+  l: number // 0-1
+}
+
+export type GradientStop = {
+  offset: number // 0-1
+  color: string
+}
+
+type OKLCH = {
+  l: number // 0-1
+  c: number
+  h: number // degrees
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  cyan: '#00ffff',
+  magenta: '#ff00ff',
+  orange: '#ffa500',
+  purple: '#800080',
+  gray: '#808080',
+  grey: '#808080',
+  transparent: '#00000000',
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+// ============================================================================
+// PARSING / FORMATTING
+// ============================================================================
+
+// Channel list of an rgb()/hsl() function, with % and alpha handled by the caller
+function functionArgs(value: string): string[] {
+  return value
+    .slice(value.indexOf('(') + 1, value.lastIndexOf(')'))
+    .split(/[\s,/]+/)
+    .filter(Boolean)
+}
+
+function parseAlpha(arg: string | undefined): number {
+  if (arg === undefined) return 1
+  return clamp(arg.endsWith('%') ? parseFloat(arg) / 100 : parseFloat(arg), 0, 1)
+}
+
+/**
+ * Parses a CSS color (hex, rgb()/rgba(), hsl()/hsla() or a basic named color).
+ * Returns null when the string is not understood.
+ */
+export function parseColor(value: string): RGBA | null {
+  const color = String(value ?? '').trim().toLowerCase()
+  if (NAMED_COLORS[color]) return parseColor(NAMED_COLORS[color])
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/)?.[1]
+  if (hex) {
+    const full = hex.length <= 4 ? hex.split('').map((c) => c + c).join('') : hex
+    if (full.length !== 6 && full.length !== 8) return null
+    return {
+      r: parseInt(full.slice(0, 2), 16),
+      g: parseInt(full.slice(2, 4), 16),
+      b: parseInt(full.slice(4, 6), 16),
+      a: full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1,
+    }
+  }
+
+  if (color.startsWith('rgb')) {
+    const [r, g, b, a] = functionArgs(color)
+    const channel = (arg: string) => (arg.endsWith('%') ? (parseFloat(arg) / 100) * 255 : parseFloat(arg))
+    const rgba = { r: channel(r), g: channel(g), b: channel(b), a: parseAlpha(a) }
+    return [rgba.r, rgba.g, rgba.b].every(Number.isFinite) ? rgba : null
+  }
+
+  if (color.startsWith('hsl')) {
+    const [h, s, l, a] = functionArgs(color)
+    const hsl = { h: parseFloat(h), s: parseFloat(s) / 100, l: parseFloat(l) / 100 }
+    if (![hsl.h, hsl.s, hsl.l].every(Number.isFinite)) return null
+    return { ...hslToRgb(hsl), a: parseAlpha(a) }
+  }
+
+  return null
+}
+
+function toHex(channel: number): string {
+  return Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, '0')
+}
+
+/**
+ * CSS string for a color: #rrggbb when opaque, rgba() otherwise
+ * (the same forms color presets resolve to)
+ */
+export function formatColor({ r, g, b, a }: RGBA): string {
+  if (a >= 1) return `#${toHex(r)}${toHex(g)}${toHex(b)}`
+  return `rgba(${Math.round(clamp(r, 0, 255))}, ${Math.round(clamp(g, 0, 255))}, ${Math.round(clamp(b, 0, 255))}, ${Math.round(clamp(a, 0, 1) * 1000) / 1000})`
+}
+
+// ============================================================================
+// COLOR SPACES
+// ============================================================================
+
+export function rgbToHsl({ r, g, b }: Pick<RGBA, 'r' | 'g' | 'b'>): HSL {
+  const rn = r / 255
+  const gn = g / 255
+  const bn = b / 255
+  const max = Math.max(rn, gn, bn)
+  const min = Math.min(rn, gn, bn)
+  const l = (max + min) / 2
+  const d = max - min
+  if (d === 0) return { h: 0, s: 0, l }
+
+  const s = d / (1 - Math.abs(2 * l - 1))
+  let h: number
+  if (max === rn) h = ((gn - bn) / d) % 6
+  else if (max === gn) h = (bn - rn) / d + 2
+  else h = (rn - gn) / d + 4
+  return { h: (h * 60 + 360) % 360, s, l }
+}
+
+export function hslToRgb({ h, s, l }: HSL): Pick<RGBA, 'r' | 'g' | 'b'> {
+  const c = (1 - Math.abs(2 * l - 1)) * s
+  const hp = (((h % 360) + 360) % 360) / 60
+  const x = c * (1 - Math.abs((hp % 2) - 1))
+  const [r1, g1, b1] =
+    hp < 1 ? [c, x, 0] : hp < 2 ? [x, c, 0] : hp < 3 ? [0, c, x] : hp < 4 ? [0, x, c] : hp < 5 ? [x, 0, c] : [c, 0, x]
+  const m = l - c / 2
+  return { r: (r1 + m) * 255, g: (g1 + m) * 255, b: (b1 + m) * 255 }
+}
+
+const toLinear = (channel: number) => {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
+const fromLinear = (c: number) =>
+  255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(Math.max(c, 0), 1 / 2.4) - 0.055)
+
+// OKLab/OKLCH conversions (Björn Ottosson's reference matrices)
+function rgbToOklch({ r, g, b }: Pick<RGBA, 'r' | 'g' | 'b'>): OKLCH {
+  const lr = toLinear(r)
+  const lg = toLinear(g)
+  const lb = toLinear(b)
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  return { l: L, c: Math.hypot(A, B), h: ((Math.atan2(B, A) * 180) / Math.PI + 360) % 360 }
+}
+
+function oklchToRgb({ l: L, c, h }: OKLCH): Pick<RGBA, 'r' | 'g' | 'b'> {
+  const A = c * Math.cos((h * Math.PI) / 180)
+  const B = c * Math.sin((h * Math.PI) / 180)
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3)
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3)
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3)
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  }
+}
+
+// ============================================================================
+// INTERPOLATION
+// ============================================================================
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+
+// Shortest way round the hue wheel; a grey end (no hue) takes the other end's hue
+function lerpHue(a: number, b: number, t: number, aHasHue: boolean, bHasHue: boolean): number {
+  if (!aHasHue) return b
+  if (!bHasHue) return a
+  const delta = ((((b - a) % 360) + 540) % 360) - 180
+  return (a + delta * t + 360) % 360
+}
+
+/**
+ * Color between `from` and `to` at `t` (0-1) in the given space.
+ * Unparseable colors read as transparent black.
+ */
+export function mixColors(from: string, to: string, t: number, space: ColorSpace = 'rgb'): string {
+  const a = parseColor(from) ?? { r: 0, g: 0, b: 0, a: 0 }
+  const b = parseColor(to) ?? { r: 0, g: 0, b: 0, a: 0 }
+  const amount = clamp(t, 0, 1)
+  const alpha = lerp(a.a, b.a, amount)
+
+  switch (space) {
+    case 'hsl': {
+      const ha = rgbToHsl(a)
+      const hb = rgbToHsl(b)
+      const rgb = hslToRgb({
+        h: lerpHue(ha.h, hb.h, amount, ha.s > 0, hb.s > 0),
+        s: lerp(ha.s, hb.s, amount),
+        l: lerp(ha.l, hb.l, amount),
+      })
+      return formatColor({ ...rgb, a: alpha })
+    }
+
+    case 'oklch': {
+      const la = rgbToOklch(a)
+      const lb = rgbToOklch(b)
+      const rgb = oklchToRgb({
+        l: lerp(la.l, lb.l, amount),
+        c: lerp(la.c, lb.c, amount),
+        h: lerpHue(la.h, lb.h, amount, la.c > 0.0001, lb.c > 0.0001),
+      })
+      return formatColor({ ...rgb, a: alpha })
+    }
+
+    default:
+      return formatColor({
+        r: lerp(a.r, b.r, amount),
+        g: lerp(a.g, b.g, amount),
+        b: lerp(a.b, b.b, amount),
+        a: alpha,
+      })
+  }
+}
+
+/**
+ * Gradient stops from a resolved gradient preset, a stop list or a plain color
+ * list (spread evenly), sorted by offset. `toColor` turns each stop's color
+ * into a CSS string.
+ */
+export function normalizeGradient(value: unknown, toColor: (color: unknown) => string = String): GradientStop[] {
+  if (!Array.isArray(value)) return []
+  const lastIndex = Math.max(1, value.length - 1)
+  return value
+    .map((stop, index) => {
+      const isStop = stop && typeof stop === 'object' && 'color' in stop
+      return {
+        offset: clamp(isStop && typeof stop.offset === 'number' ? stop.offset : index / lastIndex, 0, 1),
+        color: toColor(isStop ? stop.color : stop),
+      }
+    })
+    .sort((a, b) => a.offset - b.offset)
+}
+
+/**
+ * Color of a gradient at `t` (0-1), mixing neighbouring stops in the given space
+ */
+export function sampleGradient(stops: readonly GradientStop[], t: number, space: ColorSpace = 'rgb'): string {
+  if (stops.length === 0) return '#000000'
+  const position = clamp(t, 0, 1)
+  if (position <= stops[0].offset) return mixColors(stops[0].color, stops[0].color, 0, space)
+
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1]
+    const to = stops[i]
+    if (position <= to.offset) {
+      const span = to.offset - from.offset
+      return mixColors(from.color, to.color, span > 0 ? (position - from.offset) / span : 1, space)
+    }
+  }
+
+  const last = stops[stops.length - 1]
+  return mixColors(last.color, last.color, 0, space)
+}
+
+/**
+ * CSS linear-gradient() preview of gradient stops
+ */
+export function gradientToCss(stops: readonly GradientStop[]): string {
+  if (stops.length === 0) return 'transparent'
+  if (stops.length === 1) return stops[0].color
+  return `linear-gradient(90deg, ${stops.map((stop) => `${stop.color} ${Math.round(stop.offset * 100)}%`).join(', ')})`
+}
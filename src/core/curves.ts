@@ -0,0 +1,228 @@
+/**
+ * Custom curves
+ *
+ * A curve maps a 0-1 input to an output that starts at 0 and ends at 1 (it may
+ * overshoot in between). Curves are plain data, so they can be stored on a node,
+ * saved as an `easing` preset and referenced by any node with an `easing` prop.
+ */
+
+export type CurveType = 'linear' | 'bezier' | 'spline' | 'exponential' | 'logarithmic' | 'gaussian' | 'spring'
+
+export type CurvePoint = { x: number; y: number }
+
+export type CurveDefinition = {
+  type: CurveType
+  bezier?: [number, number, number, number] // cubic-bezier(x1, y1, x2, y2)
+  points?: CurvePoint[] // spline: passes through every point, sorted by x
+  intensity?: number // exponential/logarithmic steepness, gaussian sharpness, spring oscillations
+}
+
+export type CurveFunction = (x: number) => number
+
+export const CURVE_TYPES: CurveType[] = ['linear', 'bezier', 'spline', 'exponential', 'logarithmic', 'gaussian', 'spring']
+
+export const DEFAULT_CURVE: CurveDefinition = {
+  type: 'bezier',
+  bezier: [0.42, 0, 0.58, 1],
+  points: [
+    { x: 0, y: 0 },
+    { x: 0.5, y: 0.8 },
+    { x: 1, y: 1 },
+  ],
+  intensity: 3,
+}
+
+export function isCurveDefinition(value: unknown): value is CurveDefinition {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    CURVE_TYPES.includes((value as CurveDefinition).type)
+  )
+}
+
+// ============================================================================
+// CUBIC BEZIER
+// ============================================================================
+
+/**
+ * CSS-style cubic-bezier timing function. x1/x2 are clamped to 0-1 so the
+ * curve is a function of x; y1/y2 may leave 0-1 to overshoot.
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): CurveFunction {
+  const cx1 = Math.min(1, Math.max(0, x1))
+  const cx2 = Math.min(1, Math.max(0, x2))
+
+  const sample = (a: number, b: number, t: number) => 3 * a * (1 - t) * (1 - t) * t + 3 * b * (1 - t) * t * t + t * t * t
+  const slope = (a: number, b: number, t: number) => 3 * a * (1 - t) * (1 - t) + 6 * (b - a) * (1 - t) * t + 3 * (1 - b) * t * t
+
+  // Parameter t where the curve reaches x: Newton's method, bisection if it stalls
+  const solveT = (x: number) => {
+    let t = x
+    for (let i = 0; i < 8; i++) {
+      const error = sample(cx1, cx2, t) - x
+      if (Math.abs(error) < 1e-6) return t
+      const d = slope(cx1, cx2, t)
+      if (Math.abs(d) < 1e-6) break
+      t -= error / d
+    }
+
+    let low = 0
+    let high = 1
+    t = x
+    for (let i = 0; i < 30; i++) {
+      const value = sample(cx1, cx2, t)
+      if (Math.abs(value - x) < 1e-6) break
+      if (value < x) low = t
+      else high = t
+      t = (low + high) / 2
+    }
+    return t
+  }
+
+  return (x) => {
+    if (x <= 0) return 0
+    if (x >= 1) return 1
+    return sample(y1, y2, solveT(x))
+  }
+}
+
+/**
+ * Control points of a `cubic-bezier(x1, y1, x2, y2)` string, or null
+ */
+export function parseCubicBezier(value: string): [number, number, number, number] | null {
+  const match = value.trim().match(/^cubic-bezier\(([^)]*)\)$/i)
+  if (!match) return null
+  const values = match[1].split(',').map((part) => Number(part.trim()))
+  return values.length === 4 && values.every(Number.isFinite) ? (values as [number, number, number, number]) : null
+}
+
+// ============================================================================
+// SPLINE
+// ============================================================================
+
+/**
+ * Monotone cubic spline through the points (Fritsch-Carlson): smooth, and it
+ * never overshoots between two points, so a rising stretch stays rising.
+ * Outside the first/last point the curve holds their values.
+ */
+export function monotoneSpline(input: readonly CurvePoint[]): CurveFunction {
+  const points = [...input].sort((a, b) => a.x - b.x)
+  if (points.length === 0) return (x) => x
+  if (points.length === 1) return () => points[0].y
+
+  const n = points.length
+  const dx = points.slice(1).map((p, i) => p.x - points[i].x)
+  const slopes = points.slice(1).map((p, i) => (dx[i] > 0 ? (p.y - points[i].y) / dx[i] : 0))
+
+  // Tangents: average neighbouring slopes, flattened at extremes
+  const tangents = points.map((_, i) => {
+    if (i === 0) return slopes[0]
+    if (i === n - 1) return slopes[n - 2]
+    if (slopes[i - 1] * slopes[i] <= 0) return 0
+    return (slopes[i - 1] + slopes[i]) / 2
+  })
+
+  // Limit tangents so each segment stays monotone
+  slopes.forEach((slope, i) => {
+    if (slope === 0) {
+      tangents[i] = 0
+      tangents[i + 1] = 0
+      return
+    }
+    const a = tangents[i] / slope
+    const b = tangents[i + 1] / slope
+    const h = Math.hypot(a, b)
+    if (h > 3) {
+      tangents[i] = (3 / h) * a * slope
+      tangents[i + 1] = (3 / h) * b * slope
+    }
+  })
+
+  return (x) => {
+    if (x <= points[0].x) return points[0].y
+    if (x >= points[n - 1].x) return points[n - 1].y
+
+    let i = 0
+    while (i < n - 2 && x > points[i + 1].x) i++
+    const h = dx[i]
+    if (h === 0) return points[i + 1].y
+
+    const t = (x - points[i].x) / h
+    const t2 = t * t
+    const t3 = t2 * t
+    return (
+      (2 * t3 - 3 * t2 + 1) * points[i].y +
+      (t3 - 2 * t2 + t) * h * tangents[i] +
+      (-2 * t3 + 3 * t2) * points[i + 1].y +
+      (t3 - t2) * h * tangents[i + 1]
+    )
+  }
+}
+
+// ============================================================================
+// BUILT-IN SHAPES
+// ============================================================================
+
+// Abramowitz-Stegun approximation of the error function
+function erf(x: number): number {
+  const sign = Math.sign(x)
+  const t = 1 / (1 + 0.3275911 * Math.abs(x))
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+  return sign * y
+}
+
+// Slow start, fast end
+function exponential(k: number): CurveFunction {
+  if (k === 0) return (x) => x
+  return (x) => (Math.exp(k * x) - 1) / (Math.exp(k) - 1)
+}
+
+// Fast start, slow end (the inverse of exponential)
+function logarithmic(k: number): CurveFunction {
+  if (k === 0) return (x) => x
+  return (x) => Math.log(1 + (Math.exp(k) - 1) * x) / k
+}
+
+// Cumulative bell curve: a smooth S whose steepness grows with k
+function gaussian(k: number): CurveFunction {
+  const sigma = 0.5 / Math.max(k, 0.01)
+  const cdf = (x: number) => erf((x - 0.5) / (sigma * Math.SQRT2))
+  const low = cdf(0)
+  const high = cdf(1)
+  return (x) => (cdf(x) - low) / (high - low)
+}
+
+// Overshoots and settles on 1 after roughly k oscillations
+function spring(k: number): CurveFunction {
+  const raw = (x: number) => 1 - Math.exp(-6 * x) * Math.cos(2 * Math.PI * Math.max(k, 0) * x)
+  const end = raw(1)
+  // Spread the tiny remaining error so the curve ends exactly on 1
+  return (x) => raw(x) + x * (1 - end)
+}
+
+/**
+ * Function for a curve definition, pinned to 0 at x = 0 and 1 at x = 1 for
+ * the analytic shapes (splines end wherever their last point is)
+ */
+export function createCurve(curve: CurveDefinition): CurveFunction {
+  const intensity = curve.intensity ?? 3
+
+  switch (curve.type) {
+    case 'bezier': {
+      const [x1, y1, x2, y2] = curve.bezier ?? DEFAULT_CURVE.bezier!
+      return cubicBezier(x1, y1, x2, y2)
+    }
+    case 'spline':
+      return monotoneSpline(curve.points ?? DEFAULT_CURVE.points!)
+    case 'exponential':
+      return exponential(intensity)
+    case 'logarithmic':
+      return logarithmic(intensity)
+    case 'gaussian':
+      return gaussian(intensity)
+    case 'spring':
+      return spring(intensity)
+    default:
+      return (x) => x
+  }
+}
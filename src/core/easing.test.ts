@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { getEase, tweenProgress, tweenValue } from './easing'
+
+describe('tweenProgress', () => {
+  it('clamps at the end when not looping', () => {
+    expect(tweenProgress(-1, 2, false, false)).toBe(0)
+    expect(tweenProgress(1, 2, false, false)).toBe(0.5)
+    expect(tweenProgress(5, 2, false, false)).toBe(1)
+  })
+
+  it('restarts every duration when looping', () => {
+    expect(tweenProgress(2.5, 2, true, false)).toBeCloseTo(0.25)
+    expect(tweenProgress(4.5, 2, true, false)).toBeCloseTo(0.25)
+  })
+
+  it('runs every other cycle backwards with yoyo', () => {
+    expect(tweenProgress(0.5, 2, true, true)).toBeCloseTo(0.25)
+    expect(tweenProgress(2.5, 2, true, true)).toBeCloseTo(0.75)
+    expect(tweenProgress(4.5, 2, true, true)).toBeCloseTo(0.25)
+  })
+
+  it('is complete at once for a zero duration', () => {
+    expect(tweenProgress(0, 0, false, false)).toBe(1)
+  })
+})
+
+describe('tweenValue', () => {
+  it('gives the same value for the same time', () => {
+    const options = { loop: true, yoyo: true, ease: 'easeInOut' }
+
+    expect(tweenValue(10, 20, 3.3, 2, options)).toBe(tweenValue(10, 20, 3.3, 2, options))
+  })
+
+  it('interpolates between from and to with the named ease', () => {
+    expect(tweenValue(10, 20, 1, 2, { loop: false, yoyo: false, ease: 'linear' })).toBeCloseTo(15)
+    expect(tweenValue(10, 20, 0.5, 2, { loop: false, yoyo: false, ease: 'easeIn' })).toBeCloseTo(10 + 10 * getEase('easeIn')(0.25))
+  })
+})
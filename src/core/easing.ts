@@ -0,0 +1,93 @@
+import gsap from 'gsap'
+import { createCurve, cubicBezier, isCurveDefinition, parseCubicBezier, type CurveDefinition } from './curves'
+
+/**
+ * Easing and tween timing helpers
+ *
+ * Nodes evaluate their animations as a pure function of timeline time instead of
+ * running GSAP tweens, so the same time always produces the same frame.
+ */
+
+export type EaseFunction = (progress: number) => number
+
+// An easing name, a GSAP ease string, a `cubic-bezier()` string or a custom curve
+export type EaseSpec = string | CurveDefinition
+
+// Map easing names to GSAP equivalents
+export const GSAP_EASING_MAP: Record<string, string> = {
+  linear: 'none',
+  easeIn: 'power2.in',
+  easeOut: 'power2.out',
+  easeInOut: 'power2.inOut',
+  spring: 'elastic.out(1, 0.3)',
+}
+
+const easeCache = new Map<string, EaseFunction>()
+// Curves being edited create a new entry per change; start over past this many
+const MAX_CACHED_EASES = 64
+
+function cacheEase(key: string, ease: EaseFunction) {
+  if (easeCache.size >= MAX_CACHED_EASES) easeCache.clear()
+  easeCache.set(key, ease)
+}
+
+/**
+ * Returns an easing function for a GSAP_EASING_MAP name, any GSAP ease string
+ * (e.g. 'back.out(1.7)'), a `cubic-bezier()` string (what bezier easing presets
+ * resolve to) or a custom curve. Unknown names fall back to `fallback`.
+ */
+export function getEase(name: EaseSpec | undefined, fallback = 'power2.inOut'): EaseFunction {
+  if (isCurveDefinition(name)) {
+    const key = JSON.stringify(name)
+    let ease = easeCache.get(key)
+    if (!ease) {
+      ease = createCurve(name)
+      cacheEase(key, ease)
+    }
+    return ease
+  }
+
+  const key = (name && GSAP_EASING_MAP[name]) || name || fallback
+
+  let ease = easeCache.get(key)
+  if (!ease) {
+    const bezier = parseCubicBezier(key)
+    ease = bezier
+      ? cubicBezier(...bezier)
+      : gsap.parseEase(key) ?? gsap.parseEase(fallback) ?? ((t: number) => t)
+    cacheEase(key, ease)
+  }
+  return ease
+}
+
+/**
+ * Linear 0-1 progress of a tween at `time` seconds, matching GSAP repeat semantics:
+ * - no loop: clamps at 1 once `duration` has elapsed
+ * - loop: restarts every `duration` seconds
+ * - loop + yoyo: every other cycle runs backwards
+ */
+export function tweenProgress(time: number, duration: number, loop: boolean, yoyo: boolean): number {
+  if (duration <= 0) return 1
+  if (time <= 0) return 0
+
+  const cycles = time / duration
+  if (!loop) return Math.min(1, cycles)
+
+  const cycleIndex = Math.floor(cycles)
+  const local = cycles - cycleIndex
+  return yoyo && cycleIndex % 2 === 1 ? 1 - local : local
+}
+
+/**
+ * Eased value between `from` and `to` at `time` seconds
+ */
+export function tweenValue(
+  from: number,
+  to: number,
+  time: number,
+  duration: number,
+  options: { loop: boolean; yoyo: boolean; ease?: EaseSpec }
+): number {
+  const progress = tweenProgress(time, duration, options.loop, options.yoyo)
+  return from + (to - from) * getEase(options.ease)(progress)
+}
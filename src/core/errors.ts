@@ -0,0 +1,80 @@
+// Typed errors raised by the core engine
+
+import type { Connection } from '../types'
+
+/**
+ * Raised when a `preset:<id>` reference cannot be resolved
+ * (missing preset, or presets referencing each other in a loop)
+ */
+export class PresetResolutionError extends Error {
+  readonly presetId: string
+  readonly chain: string[]
+
+  constructor(presetId: string, chain: string[], reason: string) {
+    super(`[Aninode] Cannot resolve preset "${presetId}": ${reason}`)
+    this.name = 'PresetResolutionError'
+    this.presetId = presetId
+    this.chain = chain
+  }
+}
+
+/**
+ * Raised when a connection would close a loop in the node graph.
+ * `cycle` lists the node ids along the loop, starting and ending at the same node.
+ */
+export class GraphCycleError extends Error {
+  readonly connection: Connection
+  readonly cycle: string[]
+
+  constructor(connection: Connection, cycle: string[]) {
+    super(
+      `[Aninode] Connecting ${connection.sourceNodeId}.${connection.sourceOutput} → ` +
+        `${connection.targetNodeId}.${connection.targetInput} would create a cycle (${cycle.join(' → ')}). ` +
+        'Mark it as a feedback connection to allow a one-frame delay.'
+    )
+    this.name = 'GraphCycleError'
+    this.connection = connection
+    this.cycle = cycle
+  }
+}
+
+/**
+ * Raised when a connection joins ports that don't exist or whose value types
+ * cannot be coerced into each other
+ */
+export class PortTypeError extends Error {
+  readonly connection: Connection
+
+  constructor(connection: Connection, reason: string) {
+    super(
+      `[Aninode] Cannot connect ${connection.sourceNodeId}.${connection.sourceOutput} → ` +
+        `${connection.targetNodeId}.${connection.targetInput}: ${reason}`
+    )
+    this.name = 'PortTypeError'
+    this.connection = connection
+  }
+}
+
+/**
+ * Raised when a connection reuses the id of a connection already in the graph
+ */
+export class DuplicateConnectionError extends Error {
+  readonly connection: Connection
+
+  constructor(connection: Connection) {
+    super(`[Aninode] A connection with id "${connection.id}" already exists`)
+    this.name = 'DuplicateConnectionError'
+    this.connection = connection
+  }
+}
+
+/**
+ * Raised when a project file cannot be read at all
+ * (not JSON, not an Aninode project, or saved by a newer version)
+ */
+export class ProjectFormatError extends Error {
+  constructor(reason: string) {
+    super(`[Aninode] Cannot open project: ${reason}`)
+    this.name = 'ProjectFormatError'
+  }
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { aninodeStore, storeActions } from './store'
+import { frameScheduler } from './scheduler'
+import { registerNodePorts } from './ports'
+import { emitNodeEvent, takeNodeEvents } from './events'
+import { addTestNode, resetTestStore } from './testNodes'
+
+registerNodePorts('TriggerNode', {
+  inputs: [],
+  outputs: [
+    { name: 'fired', type: 'event' },
+    { name: 'level', type: 'number' },
+  ],
+})
+registerNodePorts('ScaleNode', {
+  inputs: [{ name: 'trigger', type: 'event' }],
+  outputs: [],
+})
+
+let unregisters: (() => void)[] = []
+// Events each target took, per frame
+let taken: Record<string, number[]>
+
+function connect(targetNodeId: string, sourceOutput = 'fired', feedback?: boolean) {
+  storeActions.addConnection({ id: `${sourceOutput}-${targetNodeId}`, sourceNodeId: 'source', sourceOutput, targetNodeId, targetInput: 'trigger', feedback })
+}
+
+// Source emits on the listed frames (1-based from the first step)
+function emitOn(frames: number[]) {
+  let frame = 0
+  unregisters.push(
+    frameScheduler.register('source', () => {
+      frame++
+      if (frames.includes(frame)) emitNodeEvent('source', 'fired')
+    })
+  )
+}
+
+function addTarget(id: string, priority = 0) {
+  addTestNode(id, 'ScaleNode')
+  taken[id] = []
+  unregisters.push(frameScheduler.register(id, () => taken[id].push(takeNodeEvents(id, 'trigger').length), priority))
+}
+
+function step(frames: number) {
+  for (let i = 0; i < frames; i++) frameScheduler.step()
+}
+
+beforeEach(() => {
+  resetTestStore()
+  taken = {}
+  addTestNode('source', 'TriggerNode')
+})
+
+afterEach(() => {
+  unregisters.forEach((unregister) => unregister())
+  unregisters = []
+})
+
+describe('event connections', () => {
+  it('are made into event inputs', () => {
+    addTarget('target')
+    connect('target')
+
+    expect(aninodeStore.connections[0].kind).toBe('event')
+  })
+
+  it('deliver an event to its target in the same frame, once', () => {
+    addTarget('target')
+    connect('target')
+    emitOn([1])
+
+    step(3)
+
+    expect(taken.target).toEqual([1, 0, 0])
+  })
+
+  it('deliver each event along every connection', () => {
+    addTarget('a')
+    addTarget('b')
+    connect('a')
+    connect('b')
+    emitOn([2])
+
+    step(2)
+
+    expect(taken).toEqual({ a: [0, 1], b: [0, 1] })
+  })
+
+  it('deliver along feedback connections on the next frame', () => {
+    // Ticks before the source, so only a feedback connection can reach it
+    addTarget('target', 10)
+    connect('target', 'fired', true)
+    emitOn([1])
+
+    step(3)
+
+    expect(taken.target).toEqual([0, 1, 0])
+  })
+
+  it('fire on the rising edge of a level', () => {
+    addTarget('target')
+    connect('target', 'level')
+    const levels = [0, 1, 1, 0, 1]
+    let frame = 0
+    unregisters.push(
+      frameScheduler.register('source', () => {
+        aninodeStore.nodes.source.outputs.level = levels[frame++]
+      })
+    )
+
+    step(levels.length)
+
+    expect(taken.target).toEqual([0, 1, 0, 0, 1])
+  })
+
+  it('read as "fired this frame" through the input override', () => {
+    addTestNode('target', 'ScaleNode')
+    connect('target')
+    const fired: boolean[] = []
+    emitOn([1])
+    unregisters.push(frameScheduler.onFrame(() => fired.push(aninodeStore.nodes.target.overrides.trigger)))
+
+    step(2)
+
+    expect(fired).toEqual([true, false])
+  })
+})
@@ -0,0 +1,144 @@
+import { aninodeStore } from './store'
+import { getPort } from './ports'
+import type { Connection } from '../types'
+
+/**
+ * Event signals
+ *
+ * Value connections sample whatever a source output holds, so a one-frame
+ * impulse can be missed, or seen twice, depending on when it is read. Event
+ * connections carry discrete events instead:
+ * - a node calls `emitNodeEvent` while it ticks
+ * - right after that tick the scheduler delivers the node's events along its
+ *   event connections (feedback connections: once every node has ticked)
+ * - the target takes them from its inbox with `takeNodeEvents` when it ticks,
+ *   in the same frame (feedback: the next one)
+ *
+ * Each event reaches each connection exactly once. A boolean or number output
+ * wired into an event input fires on its rising edge. The input's override
+ * still reads as "fired this frame" for nodes that only look at values.
+ */
+
+export type NodeEvent = {
+  sourceNodeId: string
+  output: string
+  frame: number // scheduler frame it was emitted in
+  time: number // timeline time it was emitted at
+  payload?: any
+}
+
+const clock = { frame: 0, time: 0 }
+
+// Emitted this frame, by source node
+const outbox = new Map<string, NodeEvent[]>()
+// Delivered and not yet taken, by `${nodeId}:${input}`
+const inbox = new Map<string, NodeEvent[]>()
+// Inputs that received events this frame, so several wires into one input combine
+const firedInputs = new Set<string>()
+// Last level seen on level → event connections, by connection id
+const levels = new Map<string, boolean>()
+
+const inboxKey = (nodeId: string, input: string) => `${nodeId}:${input}`
+
+/**
+ * Whether a connection carries events: it was made into an event input
+ * (connections saved without a kind are checked against the input's port)
+ */
+export function isEventConnection(connection: Connection): boolean {
+  if (connection.kind) return connection.kind === 'event'
+  const target = aninodeStore.nodes[connection.targetNodeId]
+  return !!target && getPort(target.type, 'input', connection.targetInput)?.type === 'event'
+}
+
+/**
+ * Starts a scheduler frame: clears last frame's emissions and drops delivered
+ * events nobody took within a frame
+ */
+export function beginEventFrame(frame: number, time: number) {
+  clock.frame = frame
+  clock.time = time
+  outbox.clear()
+  firedInputs.clear()
+
+  inbox.forEach((events, key) => {
+    const pending = events.filter((event) => event.frame >= frame - 1)
+    if (pending.length > 0) inbox.set(key, pending)
+    else inbox.delete(key)
+  })
+
+  if (levels.size > aninodeStore.connections.length) {
+    const ids = new Set(aninodeStore.connections.map((connection) => connection.id))
+    levels.forEach((_, id) => !ids.has(id) && levels.delete(id))
+  }
+}
+
+/**
+ * Queues an event on one of a node's outputs; call it from the node's tick
+ */
+export function emitNodeEvent(nodeId: string, output: string, payload?: any) {
+  const event: NodeEvent = { sourceNodeId: nodeId, output, frame: clock.frame, time: clock.time, payload }
+  outbox.set(nodeId, [...(outbox.get(nodeId) ?? []), event])
+}
+
+/**
+ * Takes the events delivered to a node input since it last looked
+ */
+export function takeNodeEvents(nodeId: string, input: string): NodeEvent[] {
+  const key = inboxKey(nodeId, input)
+  const events = inbox.get(key) ?? []
+  inbox.delete(key)
+  return events
+}
+
+function deliverConnection(connection: Connection) {
+  const source = aninodeStore.nodes[connection.sourceNodeId]
+  const target = aninodeStore.nodes[connection.targetNodeId]
+  if (!source || !target) return
+
+  let events: NodeEvent[]
+  if (getPort(source.type, 'output', connection.sourceOutput)?.type === 'event') {
+    events = (outbox.get(source.id) ?? []).filter((event) => event.output === connection.sourceOutput)
+  } else {
+    // Levels fire on their rising edge
+    const value = source.outputs[connection.sourceOutput]
+    const level = Boolean(value)
+    const rising = level && !levels.get(connection.id)
+    levels.set(connection.id, level)
+    events = rising
+      ? [{ sourceNodeId: source.id, output: connection.sourceOutput, frame: clock.frame, time: clock.time, payload: value }]
+      : []
+  }
+
+  const key = inboxKey(target.id, connection.targetInput)
+  if (events.length > 0) {
+    inbox.set(key, [...(inbox.get(key) ?? []), ...events])
+    firedInputs.add(key)
+  }
+
+  const fired = firedInputs.has(key)
+  if (target.overrides[connection.targetInput] !== fired) {
+    target.overrides[connection.targetInput] = fired
+  }
+}
+
+/**
+ * Delivers a node's events along its event connections (feedback ones excluded)
+ */
+export function deliverEventsFrom(sourceNodeId: string) {
+  aninodeStore.connections.forEach((connection) => {
+    if (connection.sourceNodeId === sourceNodeId && !connection.feedback && isEventConnection(connection)) {
+      deliverConnection(connection)
+    }
+  })
+}
+
+/**
+ * Delivers events along feedback event connections, once every node has ticked
+ */
+export function deliverFeedbackEvents() {
+  aninodeStore.connections.forEach((connection) => {
+    if (connection.feedback && isEventConnection(connection)) {
+      deliverConnection(connection)
+    }
+  })
+}
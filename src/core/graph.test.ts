@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createConnectionId, findCycleFor, topologicalSort } from './graph'
+import type { Connection } from '../types'
+
+function wire(sourceNodeId: string, targetNodeId: string, feedback?: boolean): Connection {
+  return {
+    id: `${sourceNodeId}->${targetNodeId}`,
+    sourceNodeId,
+    sourceOutput: 'value',
+    targetNodeId,
+    targetInput: 'input',
+    feedback,
+  }
+}
+
+describe('findCycleFor', () => {
+  const chain = [wire('a', 'b'), wire('b', 'c')]
+
+  it('returns the loop a connection would close', () => {
+    expect(findCycleFor(chain, wire('c', 'a'))).toEqual(['c', 'a', 'b', 'c'])
+  })
+
+  it('treats a connection from a node to itself as a loop', () => {
+    expect(findCycleFor([], wire('a', 'a'))).toEqual(['a', 'a'])
+  })
+
+  it('allows connections that keep the graph acyclic', () => {
+    expect(findCycleFor(chain, wire('a', 'c'))).toBeNull()
+  })
+
+  it('allows feedback connections to close a loop', () => {
+    expect(findCycleFor(chain, wire('c', 'a', true))).toBeNull()
+  })
+
+  it('ignores existing feedback connections when looking for a loop', () => {
+    expect(findCycleFor([wire('a', 'b'), wire('b', 'a', true)], wire('b', 'c'))).toBeNull()
+  })
+})
+
+describe('topologicalSort', () => {
+  it('orders sources before their targets', () => {
+    const { order, cyclic } = topologicalSort(['c', 'b', 'a'], [wire('b', 'c'), wire('a', 'b')])
+
+    expect(order).toEqual(['a', 'b', 'c'])
+    expect(cyclic).toEqual([])
+  })
+
+  it('puts higher priority first among nodes that are ready together', () => {
+    const priority = (nodeId: string) => (nodeId === 'b' ? 1 : 0)
+
+    expect(topologicalSort(['a', 'b', 'c'], [], priority).order).toEqual(['b', 'a', 'c'])
+  })
+
+  it('orders feedback targets without waiting for their source', () => {
+    expect(topologicalSort(['a', 'b'], [wire('b', 'a', true)]).order).toEqual(['a', 'b'])
+  })
+
+  it('ignores connections to nodes outside the list', () => {
+    expect(topologicalSort(['b'], [wire('a', 'b')]).order).toEqual(['b'])
+  })
+
+  it('appends and reports nodes on a loop', () => {
+    const { order, cyclic } = topologicalSort(['a', 'b', 'c'], [wire('a', 'b'), wire('b', 'c'), wire('c', 'b')])
+
+    expect(order).toEqual(['a', 'b', 'c'])
+    expect(cyclic).toEqual(['b', 'c'])
+  })
+})
+
+describe('createConnectionId', () => {
+  it('creates distinct ids within the same millisecond', () => {
+    vi.useFakeTimers()
+    const ids = [createConnectionId(), createConnectionId()]
+    vi.useRealTimers()
+
+    expect(ids[0]).not.toBe(ids[1])
+  })
+})
@@ -0,0 +1,120 @@
+import type { Connection } from '../types'
+
+/**
+ * Graph utilities for the node connection graph
+ *
+ * Feedback connections (`connection.feedback`) are deliberately left out of
+ * cycle detection and ordering: they are read with a one-frame delay, so they
+ * may close loops without making the evaluation order ambiguous.
+ */
+
+let connectionCounter = 0
+
+/**
+ * Id for a new connection; the counter keeps ids unique when several are made
+ * within the same millisecond
+ */
+export function createConnectionId(): string {
+  connectionCounter += 1
+  return `conn_${Date.now()}_${connectionCounter}`
+}
+
+function buildAdjacency(connections: Connection[]): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>()
+  connections.forEach((conn) => {
+    if (conn.feedback) return
+    const targets = adjacency.get(conn.sourceNodeId) ?? []
+    if (!targets.includes(conn.targetNodeId)) {
+      targets.push(conn.targetNodeId)
+    }
+    adjacency.set(conn.sourceNodeId, targets)
+  })
+  return adjacency
+}
+
+// Depth-first search for a path between two nodes
+function findPath(adjacency: Map<string, string[]>, fromId: string, toId: string): string[] | null {
+  const visited = new Set<string>()
+  const stack: { nodeId: string; path: string[] }[] = [{ nodeId: fromId, path: [fromId] }]
+
+  while (stack.length > 0) {
+    const { nodeId, path } = stack.pop()!
+    if (nodeId === toId) return path
+    if (visited.has(nodeId)) continue
+    visited.add(nodeId)
+
+    for (const nextId of adjacency.get(nodeId) ?? []) {
+      if (!visited.has(nextId)) {
+        stack.push({ nodeId: nextId, path: [...path, nextId] })
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Returns the loop that `connection` would close if added to `connections`
+ * (as a list of node ids starting and ending at the connection's source),
+ * or null if the connection is safe.
+ */
+export function findCycleFor(connections: Connection[], connection: Connection): string[] | null {
+  if (connection.feedback) return null
+
+  if (connection.sourceNodeId === connection.targetNodeId) {
+    return [connection.sourceNodeId, connection.sourceNodeId]
+  }
+
+  // The new edge source → target closes a loop if target already reaches source
+  const path = findPath(buildAdjacency(connections), connection.targetNodeId, connection.sourceNodeId)
+  return path ? [connection.sourceNodeId, ...path] : null
+}
+
+export type TopologicalOrder = {
+  order: string[] // every node id, sources before targets
+  cyclic: string[] // nodes that sit on (or downstream of) a non-feedback loop
+}
+
+/**
+ * Kahn's algorithm over the non-feedback connections.
+ * Among nodes that become ready at the same time, higher `priority` comes first.
+ * Nodes that cannot be ordered because of a loop are appended to `order` and
+ * reported in `cyclic`, so callers can still evaluate them.
+ */
+export function topologicalSort(
+  nodeIds: string[],
+  connections: Connection[],
+  priority: (nodeId: string) => number = () => 0
+): TopologicalOrder {
+  const known = new Set(nodeIds)
+  const inDegree = new Map(nodeIds.map((id) => [id, 0]))
+  const adjacency = buildAdjacency(
+    connections.filter((conn) => known.has(conn.sourceNodeId) && known.has(conn.targetNodeId))
+  )
+
+  adjacency.forEach((targets) => {
+    targets.forEach((targetId) => inDegree.set(targetId, inDegree.get(targetId)! + 1))
+  })
+
+  const byPriority = (a: string, b: string) => priority(b) - priority(a)
+  const ready = nodeIds.filter((id) => inDegree.get(id) === 0).sort(byPriority)
+  const order: string[] = []
+
+  while (ready.length > 0) {
+    const nodeId = ready.shift()!
+    order.push(nodeId)
+    for (const targetId of adjacency.get(nodeId) ?? []) {
+      const remaining = inDegree.get(targetId)! - 1
+      inDegree.set(targetId, remaining)
+      if (remaining === 0) {
+        ready.push(targetId)
+        ready.sort(byPriority)
+      }
+    }
+  }
+
+  const ordered = new Set(order)
+  const cyclic = nodeIds.filter((id) => !ordered.has(id)).sort(byPriority)
+
+  return { order: [...order, ...cyclic], cyclic }
+}
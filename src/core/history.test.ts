@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createHistory } from './history'
+
+let doc: { value: number }
+let history: ReturnType<typeof createHistory>
+
+function set(value: number, coalesceKey?: string) {
+  history.transaction(`Set ${value}`, () => {
+    doc.value = value
+  }, { coalesceKey })
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  doc = { value: 0 }
+  history = createHistory({
+    capture: () => JSON.stringify(doc),
+    restore: (saved) => {
+      doc = JSON.parse(saved)
+    },
+  })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('history', () => {
+  it('undoes and redoes a transaction', () => {
+    set(1)
+
+    history.undo()
+    expect(doc.value).toBe(0)
+    expect(history.state).toMatchObject({ canUndo: false, canRedo: true, redoLabel: 'Set 1' })
+
+    history.redo()
+    expect(doc.value).toBe(1)
+    expect(history.state).toMatchObject({ canUndo: true, canRedo: false, undoLabel: 'Set 1' })
+  })
+
+  it('records nested transactions as part of the outer one', () => {
+    history.transaction('Both', () => {
+      set(1)
+      set(2)
+    })
+
+    history.undo()
+
+    expect(doc.value).toBe(0)
+    expect(history.state.canUndo).toBe(false)
+  })
+
+  it('skips steps that change nothing and steps run through ignore', () => {
+    set(0)
+    history.ignore(() => set(5))
+
+    expect(history.state.canUndo).toBe(false)
+  })
+
+  it('coalesces steps with the same key inside the window', () => {
+    set(1, 'slider')
+    vi.advanceTimersByTime(500)
+    set(2, 'slider')
+
+    history.undo()
+
+    expect(doc.value).toBe(0)
+  })
+
+  it('keeps steps apart once the window has passed or the key differs', () => {
+    set(1, 'slider')
+    vi.advanceTimersByTime(1500)
+    set(2, 'slider')
+    set(3, 'other')
+
+    history.undo()
+    expect(doc.value).toBe(2)
+    history.undo()
+    expect(doc.value).toBe(1)
+  })
+
+  it('rolls back a failed transaction and records nothing', () => {
+    expect(() =>
+      history.transaction('Fail', () => {
+        doc.value = 7
+        throw new Error('boom')
+      })
+    ).toThrow('boom')
+
+    expect(doc.value).toBe(0)
+    expect(history.state.canUndo).toBe(false)
+  })
+
+  it('drops the redo stack after a new step', () => {
+    set(1)
+    history.undo()
+    set(2)
+
+    expect(history.state.canRedo).toBe(false)
+  })
+})
@@ -0,0 +1,162 @@
+import { proxy } from 'valtio'
+
+/**
+ * Undo/redo history
+ *
+ * Every recorded step stores a snapshot of the document before and after it
+ * ran, so undo and redo simply restore one of the two. Snapshots are never
+ * mutated, so steps may share the parts an edit didn't touch. Steps run inside
+ * another step belong to it (one undo for a whole transaction), and consecutive
+ * steps that share a coalesce key within COALESCE_WINDOW_MS are merged into one,
+ * so a slider drag or a node move undoes in a single step.
+ */
+
+// Steps with the same coalesce key closer together than this are merged
+const COALESCE_WINDOW_MS = 1000
+
+export type HistoryOptions<TDocument> = {
+  capture: () => TDocument
+  restore: (document: TDocument) => void
+  isEqual?: (a: TDocument, b: TDocument) => boolean // defaults to ===
+  limit?: number // maximum number of undo steps kept
+}
+
+export type HistoryStepOptions = {
+  coalesceKey?: string
+}
+
+type HistoryEntry<TDocument> = {
+  label: string
+  coalesceKey?: string
+  before: TDocument
+  after: TDocument
+  timestamp: number
+}
+
+export type HistoryState = {
+  canUndo: boolean
+  canRedo: boolean
+  undoLabel: string | null
+  redoLabel: string | null
+}
+
+export function createHistory<TDocument>({
+  capture,
+  restore,
+  isEqual = (a, b) => a === b,
+  limit = 100,
+}: HistoryOptions<TDocument>) {
+  const past: HistoryEntry<TDocument>[] = []
+  const future: HistoryEntry<TDocument>[] = []
+  let depth = 0 // > 0 while a step is running
+  let suppressed = 0 // > 0 while changes must not be recorded
+
+  // Reactive summary for the UI (menu labels, disabled states)
+  const state = proxy<HistoryState>({
+    canUndo: false,
+    canRedo: false,
+    undoLabel: null,
+    redoLabel: null,
+  })
+
+  const syncState = () => {
+    state.canUndo = past.length > 0
+    state.canRedo = future.length > 0
+    state.undoLabel = past[past.length - 1]?.label ?? null
+    state.redoLabel = future[future.length - 1]?.label ?? null
+  }
+
+  const push = (entry: HistoryEntry<TDocument>) => {
+    const top = past[past.length - 1]
+    const canCoalesce =
+      top !== undefined &&
+      entry.coalesceKey !== undefined &&
+      top.coalesceKey === entry.coalesceKey &&
+      future.length === 0 &&
+      entry.timestamp - top.timestamp < COALESCE_WINDOW_MS
+
+    if (canCoalesce) {
+      top.after = entry.after
+      top.timestamp = entry.timestamp
+    } else {
+      past.push(entry)
+      if (past.length > limit) {
+        past.splice(0, past.length - limit)
+      }
+    }
+    future.length = 0
+    syncState()
+  }
+
+  const ignore = <T>(fn: () => T): T => {
+    suppressed++
+    try {
+      return fn()
+    } finally {
+      suppressed--
+    }
+  }
+
+  const history = {
+    state,
+
+    /**
+     * Runs `fn` as one undoable step. Nested steps become part of the outer one.
+     * If `fn` throws, any changes it made are rolled back before rethrowing.
+     */
+    transaction: <T>(label: string, fn: () => T, options: HistoryStepOptions = {}): T => {
+      if (depth > 0 || suppressed > 0) return fn()
+
+      const before = capture()
+      let result: T
+      depth++
+      try {
+        result = fn()
+      } catch (err) {
+        if (!isEqual(capture(), before)) {
+          ignore(() => restore(before))
+        }
+        throw err
+      } finally {
+        depth--
+      }
+
+      const after = capture()
+      if (!isEqual(after, before)) {
+        push({ label, coalesceKey: options.coalesceKey, before, after, timestamp: Date.now() })
+      }
+      return result
+    },
+
+    /**
+     * Runs `fn` without recording it (e.g. nodes registering themselves on mount)
+     */
+    ignore,
+
+    undo: () => {
+      const entry = past.pop()
+      if (!entry) return
+      ignore(() => restore(entry.before))
+      future.push(entry)
+      syncState()
+    },
+
+    redo: () => {
+      const entry = future.pop()
+      if (!entry) return
+      ignore(() => restore(entry.after))
+      past.push(entry)
+      syncState()
+    },
+
+    clear: () => {
+      past.length = 0
+      future.length = 0
+      syncState()
+    },
+  }
+
+  return history
+}
+
+export type History<TDocument> = ReturnType<typeof createHistory<TDocument>>
@@ -0,0 +1,50 @@
+import { getEase } from './easing'
+import type { Keyframe } from '../types'
+
+/**
+ * Keyframe track evaluation
+ *
+ * A track is a list of keyframes sorted by time. Before the first keyframe the
+ * track holds the first value, after the last it holds the last value, and in
+ * between each segment is eased with the easing of the keyframe it starts from.
+ */
+
+export const DEFAULT_KEYFRAME_EASING = 'easeInOut'
+
+let keyframeCounter = 0
+
+export function createKeyframeId(): string {
+  keyframeCounter += 1
+  return `kf_${Date.now()}_${keyframeCounter}`
+}
+
+export function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Value of a sorted keyframe track at `time` seconds, or undefined for an empty track
+ */
+export function evaluateKeyframes(keyframes: readonly Keyframe[], time: number): number | undefined {
+  if (keyframes.length === 0) return undefined
+
+  const first = keyframes[0]
+  if (time <= first.time) return first.value
+
+  const last = keyframes[keyframes.length - 1]
+  if (time >= last.time) return last.value
+
+  // Last keyframe at or before `time` starts the segment
+  let index = 0
+  while (index < keyframes.length - 2 && keyframes[index + 1].time <= time) {
+    index++
+  }
+
+  const from = keyframes[index]
+  const to = keyframes[index + 1]
+  const span = to.time - from.time
+  if (span <= 0) return to.value
+
+  const progress = getEase(from.easing)((time - from.time) / span)
+  return from.value + (to.value - from.value) * progress
+}
@@ -0,0 +1,215 @@
+import type { NodeState, PropertyDefinition, SceneAsset } from '../types'
+
+/**
+ * Layer bindings
+ *
+ * A node drives scene layers by listing them in its `targetLayers` baseProp
+ * (layer ids or names). Each frame, the outputs it publishes are mapped onto
+ * layer properties through the `__autoMappingPreset` the node exposes (e.g.
+ * ScaleNode `anchorX` -> `scaleAnchorX`), and every node bound to a layer is
+ * composed into one transform: offsets and rotations add up, scales and
+ * opacities multiply.
+ *
+ * Nodes that drive many layers with different values per layer (ObjectPicker)
+ * publish them ready-made as `__layerValues`, keyed by layer id.
+ *
+ * Colors are not numbers and don't compose: a node that colors its layers
+ * publishes a `__layerColor` effect (tint or overlay), and every effect bound
+ * to a layer is drawn on top of it in order.
+ */
+
+export const TARGET_LAYERS_PROP = 'targetLayers'
+
+// Shared inspector entry for nodes that can drive layers
+export const TARGET_LAYERS_PROPERTY: PropertyDefinition = {
+  name: TARGET_LAYERS_PROP,
+  label: 'Layers',
+  control: 'layers',
+  group: 'Targets',
+  default: [],
+}
+
+export type LayerTransform = {
+  x: number // px offset from the layer's scene position
+  y: number
+  rotation: number // degrees
+  rotationAnchorX: number // 0-100 (percentage of the layer size)
+  rotationAnchorY: number
+  scaleX: number
+  scaleY: number
+  scaleAnchorX: number
+  scaleAnchorY: number
+  opacity: number // multiplies the layer's own opacity
+  hueRotate: number // degrees (CSS filter)
+  saturate: number // 1 = unchanged
+  brightness: number // 1 = unchanged
+}
+
+export const IDENTITY_LAYER_TRANSFORM: LayerTransform = {
+  x: 0,
+  y: 0,
+  rotation: 0,
+  rotationAnchorX: 50,
+  rotationAnchorY: 50,
+  scaleX: 1,
+  scaleY: 1,
+  scaleAnchorX: 50,
+  scaleAnchorY: 50,
+  opacity: 1,
+  hueRotate: 0,
+  saturate: 1,
+  brightness: 1,
+}
+
+type LayerProperty = keyof LayerTransform
+
+// How a second node driving the same layer property combines with the first
+const COMBINE: Record<LayerProperty, (current: number, value: number) => number> = {
+  x: (a, b) => a + b,
+  y: (a, b) => a + b,
+  rotation: (a, b) => a + b,
+  scaleX: (a, b) => a * b,
+  scaleY: (a, b) => a * b,
+  opacity: (a, b) => a * b,
+  hueRotate: (a, b) => a + b,
+  saturate: (a, b) => a * b,
+  brightness: (a, b) => a * b,
+  // Anchors are positions, not amounts: the last node wins
+  rotationAnchorX: (_, b) => b,
+  rotationAnchorY: (_, b) => b,
+  scaleAnchorX: (_, b) => b,
+  scaleAnchorY: (_, b) => b,
+}
+
+function isLayerProperty(name: string): name is LayerProperty {
+  return name in COMBINE
+}
+
+export type LayerColorEffect = {
+  color: string // CSS color
+  blend: 'tint' | 'overlay' // tint recolors keeping the layer's shading; overlay paints over it
+  amount: number // 0-1
+}
+
+/**
+ * Whether `target` (a layer id or layer name) refers to this layer
+ */
+export function matchesLayer(asset: SceneAsset, target: string): boolean {
+  return asset.id === target || asset.name === target
+}
+
+/**
+ * Layers a node drives, in scene order
+ */
+export function getNodeTargetLayers(node: NodeState, assets: readonly SceneAsset[]): SceneAsset[] {
+  const targets = node.baseProps[TARGET_LAYERS_PROP]
+  if (!Array.isArray(targets) || targets.length === 0) return []
+  return assets.filter((asset) => targets.some((target: string) => matchesLayer(asset, target)))
+}
+
+/**
+ * Layer property values a node currently publishes, via its auto-mapping preset
+ */
+export function getNodeLayerValues(node: NodeState): Partial<LayerTransform> {
+  const mapping: Record<string, string> | undefined = node.outputs.__autoMappingPreset
+  const values: Partial<LayerTransform> = {}
+  if (!mapping) return values
+
+  Object.entries(mapping).forEach(([outputName, layerProperty]) => {
+    const value = node.outputs[outputName]
+    if (isLayerProperty(layerProperty) && typeof value === 'number' && Number.isFinite(value)) {
+      values[layerProperty] = value
+    }
+  })
+  return values
+}
+
+/**
+ * Combines values into a layer transform (see COMBINE for the rules)
+ */
+export function applyLayerValues(transform: LayerTransform, values: Partial<LayerTransform>) {
+  Object.entries(values).forEach(([property, value]) => {
+    if (!isLayerProperty(property) || typeof value !== 'number') return
+    transform[property] = COMBINE[property](transform[property], value)
+  })
+}
+
+/**
+ * Composed transform for every layer driven by at least one node
+ */
+export function composeLayerTransforms(
+  nodes: Record<string, NodeState>,
+  assets: readonly SceneAsset[]
+): Record<string, LayerTransform> {
+  const transforms: Record<string, LayerTransform> = {}
+
+  const apply = (layerId: string, values: Partial<LayerTransform>) => {
+    if (!transforms[layerId]) {
+      transforms[layerId] = { ...IDENTITY_LAYER_TRANSFORM }
+    }
+    applyLayerValues(transforms[layerId], values)
+  }
+
+  Object.values(nodes).forEach((node) => {
+    const perLayer: Record<string, Partial<LayerTransform>> | undefined = node.outputs.__layerValues
+    if (perLayer) {
+      Object.entries(perLayer).forEach(([layerId, values]) => apply(layerId, values))
+    }
+
+    const layers = getNodeTargetLayers(node, assets)
+    if (layers.length === 0) return
+
+    const values = getNodeLayerValues(node)
+    layers.forEach((layer) => apply(layer.id, values))
+  })
+
+  return transforms
+}
+
+/**
+ * Color effects for every layer driven by at least one coloring node, in node order
+ */
+export function composeLayerColors(
+  nodes: Record<string, NodeState>,
+  assets: readonly SceneAsset[]
+): Record<string, LayerColorEffect[]> {
+  const effects: Record<string, LayerColorEffect[]> = {}
+
+  Object.values(nodes).forEach((node) => {
+    const effect: LayerColorEffect | undefined = node.outputs.__layerColor
+    if (!effect || effect.amount <= 0) return
+    getNodeTargetLayers(node, assets).forEach((layer) => {
+      effects[layer.id] = [...(effects[layer.id] ?? []), effect]
+    })
+  })
+
+  return effects
+}
+
+/**
+ * CSS filter for a layer, or undefined when the filters are all neutral
+ */
+export function layerFilterToCss(transform: LayerTransform): string | undefined {
+  const filters: string[] = []
+  if (transform.hueRotate !== 0) filters.push(`hue-rotate(${transform.hueRotate}deg)`)
+  if (transform.saturate !== 1) filters.push(`saturate(${Math.max(0, transform.saturate)})`)
+  if (transform.brightness !== 1) filters.push(`brightness(${Math.max(0, transform.brightness)})`)
+  return filters.length > 0 ? filters.join(' ') : undefined
+}
+
+/**
+ * CSS transform for a layer of the given size. Rotation and scale each pivot
+ * around their own anchor, so the transform is built with an origin of 0 0.
+ */
+export function layerTransformToCss(transform: LayerTransform, width: number, height: number): string {
+  const rx = (transform.rotationAnchorX / 100) * width
+  const ry = (transform.rotationAnchorY / 100) * height
+  const sx = (transform.scaleAnchorX / 100) * width
+  const sy = (transform.scaleAnchorY / 100) * height
+
+  return [
+    `translate(${transform.x}px, ${transform.y}px)`,
+    `translate(${rx}px, ${ry}px) rotate(${transform.rotation}deg) translate(${-rx}px, ${-ry}px)`,
+    `translate(${sx}px, ${sy}px) scale(${transform.scaleX}, ${transform.scaleY}) translate(${-sx}px, ${-sy}px)`,
+  ].join(' ')
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { fractalNoise, sampleNoise } from './noise'
+
+const options = { octaves: 4, persistence: 0.5, lacunarity: 2 }
+
+describe('fractalNoise', () => {
+  it('gives the same value for a seed after many other seeds were sampled', () => {
+    const first = fractalNoise('Perlin', 7, 2, [0.3, 1.7, 0], options)
+    for (let seed = 100; seed < 300; seed++) {
+      fractalNoise('Perlin', seed, 2, [0.3, 1.7, 0], options)
+    }
+
+    expect(fractalNoise('Perlin', 7, 2, [0.3, 1.7, 0], options)).toBe(first)
+  })
+
+  it('matches plain noise with a single octave', () => {
+    expect(fractalNoise('Simplex', 3, 3, [0.2, 0.4, 0.6], { ...options, octaves: 1 })).toBe(
+      sampleNoise('Simplex', 3, 3, 0.2, 0.4, 0.6)
+    )
+  })
+
+  it('keeps samples in -1 to 1', () => {
+    for (let i = 0; i < 50; i++) {
+      const value = fractalNoise('Value', 11, 1, [i * 0.37, 0, 0], options)
+      expect(Math.abs(value)).toBeLessThanOrEqual(1)
+    }
+  })
+})
@@ -0,0 +1,311 @@
+import { seededItemRandom } from './random'
+
+/**
+ * Coherent noise
+ *
+ * Perlin, simplex and value noise in one to three dimensions. Each seed builds
+ * its own permutation table, so two noise sources with different seeds never
+ * move in step, and the same seed always gives the same field. Samples are in
+ * -1 to 1; `fractalNoise` layers several octaves of one source.
+ */
+
+export type NoiseType = 'Perlin' | 'Simplex' | 'Value'
+
+export type NoiseDimensions = 1 | 2 | 3
+
+export type FractalOptions = {
+  octaves: number // layers of detail, 1 = plain noise
+  persistence: number // amplitude of each octave relative to the one before
+  lacunarity: number // frequency of each octave relative to the one before
+}
+
+// ============================================================================
+// PERMUTATIONS
+// ============================================================================
+
+// Seed offset between the octaves of one source, so the layers don't line up at the origin
+const OCTAVE_SEED_STEP = 131
+
+// Base seeds kept; the least recently sampled one is evicted first
+const PERMUTATION_CACHE_LIMIT = 64
+
+// Octave tables per base seed, built on first use
+const permutationCache = new Map<number, Uint8Array[]>()
+
+// 0-255 shuffled by the seed, repeated once so lookups can skip wrapping
+function buildPermutation(seed: number): Uint8Array {
+  const table = Array.from({ length: 256 }, (_, i) => i)
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(seededItemRandom(seed, i) * (i + 1))
+    ;[table[i], table[j]] = [table[j], table[i]]
+  }
+
+  const doubled = new Uint8Array(512)
+  for (let i = 0; i < 512; i++) doubled[i] = table[i & 255]
+  return doubled
+}
+
+// Permutation table for one octave of the source with base seed `seed`
+function permutation(seed: number, octave = 0): Uint8Array {
+  let tables = permutationCache.get(seed)
+  if (tables) {
+    // Re-insert so Map order runs from least to most recently used
+    permutationCache.delete(seed)
+  } else {
+    tables = []
+    if (permutationCache.size >= PERMUTATION_CACHE_LIMIT) {
+      permutationCache.delete(permutationCache.keys().next().value!)
+    }
+  }
+  permutationCache.set(seed, tables)
+
+  tables[octave] ??= buildPermutation(seed + octave * OCTAVE_SEED_STEP)
+  return tables[octave]
+}
+
+// Quintic fade: zero first and second derivatives at the lattice points
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10)
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+
+// ============================================================================
+// VALUE NOISE
+// ============================================================================
+
+// Random lattice value in -1 to 1
+const latticeValue = (hash: number) => (hash / 255) * 2 - 1
+
+function valueNoise(p: Uint8Array, x: number, y: number, z: number): number {
+  const X = Math.floor(x)
+  const Y = Math.floor(y)
+  const Z = Math.floor(z)
+  const u = fade(x - X)
+  const v = fade(y - Y)
+  const w = fade(z - Z)
+  const xi = X & 255
+  const yi = Y & 255
+  const zi = Z & 255
+
+  const at = (dx: number, dy: number, dz: number) => latticeValue(p[p[p[xi + dx] + yi + dy] + zi + dz])
+
+  return lerp(
+    lerp(lerp(at(0, 0, 0), at(1, 0, 0), u), lerp(at(0, 1, 0), at(1, 1, 0), u), v),
+    lerp(lerp(at(0, 0, 1), at(1, 0, 1), u), lerp(at(0, 1, 1), at(1, 1, 1), u), v),
+    w
+  )
+}
+
+// ============================================================================
+// PERLIN NOISE
+// ============================================================================
+
+// Gradient dot product: 1D slopes, 2D the four diagonals, 3D the twelve cube edges
+function gradient(hash: number, x: number, y: number, z: number, dimensions: NoiseDimensions): number {
+  if (dimensions === 1) {
+    const slope = 1 + (hash & 7)
+    return ((hash & 8) ? -slope : slope) * x / 8
+  }
+  if (dimensions === 2) {
+    return ((hash & 1) ? -x : x) + ((hash & 2) ? -y : y)
+  }
+  const h = hash & 15
+  const u = h < 8 ? x : y
+  const v = h < 4 ? y : h === 12 || h === 14 ? x : z
+  return ((h & 1) ? -u : u) + ((h & 2) ? -v : v)
+}
+
+function perlinNoise(p: Uint8Array, x: number, y: number, z: number, dimensions: NoiseDimensions): number {
+  const X = Math.floor(x)
+  const Y = Math.floor(y)
+  const Z = Math.floor(z)
+  const fx = x - X
+  const fy = y - Y
+  const fz = z - Z
+  const u = fade(fx)
+  const v = fade(fy)
+  const w = fade(fz)
+  const xi = X & 255
+  const yi = Y & 255
+  const zi = Z & 255
+
+  const at = (dx: number, dy: number, dz: number) =>
+    gradient(p[p[p[xi + dx] + yi + dy] + zi + dz], fx - dx, fy - dy, fz - dz, dimensions)
+
+  if (dimensions === 1) return lerp(at(0, 0, 0), at(1, 0, 0), u) * 2
+
+  const front = lerp(lerp(at(0, 0, 0), at(1, 0, 0), u), lerp(at(0, 1, 0), at(1, 1, 0), u), v)
+  if (dimensions === 2) return front
+
+  const back = lerp(lerp(at(0, 0, 1), at(1, 0, 1), u), lerp(at(0, 1, 1), at(1, 1, 1), u), v)
+  return lerp(front, back, w)
+}
+
+// ============================================================================
+// SIMPLEX NOISE
+// ============================================================================
+
+const GRADIENTS_3D = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+]
+
+function simplex1(p: Uint8Array, x: number): number {
+  const i0 = Math.floor(x)
+  const x0 = x - i0
+  const x1 = x0 - 1
+
+  const corner = (i: number, d: number) => {
+    const t = 1 - d * d
+    return t * t * t * t * gradient(p[i & 255], d, 0, 0, 1) * 8
+  }
+
+  // Peaks at about ±2.5 with these slopes
+  return (corner(i0, x0) + corner(i0 + 1, x1)) * 0.395
+}
+
+const F2 = 0.5 * (Math.sqrt(3) - 1)
+const G2 = (3 - Math.sqrt(3)) / 6
+
+function simplex2(p: Uint8Array, x: number, y: number): number {
+  // Skew to find the simplex cell, then unskew back
+  const s = (x + y) * F2
+  const i = Math.floor(x + s)
+  const j = Math.floor(y + s)
+  const t = (i + j) * G2
+  const x0 = x - (i - t)
+  const y0 = y - (j - t)
+
+  // Which of the two triangles of the cell
+  const i1 = x0 > y0 ? 1 : 0
+  const j1 = x0 > y0 ? 0 : 1
+
+  const x1 = x0 - i1 + G2
+  const y1 = y0 - j1 + G2
+  const x2 = x0 - 1 + 2 * G2
+  const y2 = y0 - 1 + 2 * G2
+  const ii = i & 255
+  const jj = j & 255
+
+  const corner = (hash: number, dx: number, dy: number) => {
+    const r = 0.5 - dx * dx - dy * dy
+    if (r < 0) return 0
+    const g = GRADIENTS_3D[hash % 12]
+    return r * r * r * r * (g[0] * dx + g[1] * dy)
+  }
+
+  const n =
+    corner(p[ii + p[jj]], x0, y0) +
+    corner(p[ii + i1 + p[jj + j1]], x1, y1) +
+    corner(p[ii + 1 + p[jj + 1]], x2, y2)
+  return 70 * n
+}
+
+const F3 = 1 / 3
+const G3 = 1 / 6
+
+function simplex3(p: Uint8Array, x: number, y: number, z: number): number {
+  const s = (x + y + z) * F3
+  const i = Math.floor(x + s)
+  const j = Math.floor(y + s)
+  const k = Math.floor(z + s)
+  const t = (i + j + k) * G3
+  const x0 = x - (i - t)
+  const y0 = y - (j - t)
+  const z0 = z - (k - t)
+
+  // Which of the six tetrahedra of the cell, by ordering of the offsets
+  let i1: number, j1: number, k1: number, i2: number, j2: number, k2: number
+  if (x0 >= y0) {
+    if (y0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 1, 0]
+    else if (x0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 0, 1]
+    else [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 1, 0, 1]
+  } else {
+    if (y0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 0, 1, 1]
+    else if (x0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 0, 1, 1]
+    else [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 1, 1, 0]
+  }
+
+  const ii = i & 255
+  const jj = j & 255
+  const kk = k & 255
+
+  const corner = (hash: number, dx: number, dy: number, dz: number) => {
+    const r = 0.6 - dx * dx - dy * dy - dz * dz
+    if (r < 0) return 0
+    const g = GRADIENTS_3D[hash % 12]
+    return r * r * r * r * (g[0] * dx + g[1] * dy + g[2] * dz)
+  }
+
+  const n =
+    corner(p[ii + p[jj + p[kk]]], x0, y0, z0) +
+    corner(p[ii + i1 + p[jj + j1 + p[kk + k1]]], x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3) +
+    corner(p[ii + i2 + p[jj + j2 + p[kk + k2]]], x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3) +
+    corner(p[ii + 1 + p[jj + 1 + p[kk + 1]]], x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3)
+  return 32 * n
+}
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+const clampUnit = (value: number) => Math.min(1, Math.max(-1, value))
+
+/**
+ * One noise sample in -1 to 1. Coordinates beyond `dimensions` are ignored.
+ */
+export function sampleNoise(
+  type: NoiseType,
+  seed: number,
+  dimensions: NoiseDimensions,
+  x: number,
+  y = 0,
+  z = 0
+): number {
+  return sampleTable(permutation(Math.round(seed) || 0), type, dimensions, x, y, z)
+}
+
+function sampleTable(p: Uint8Array, type: NoiseType, dimensions: NoiseDimensions, x: number, y: number, z: number): number {
+  const sy = dimensions >= 2 ? y : 0
+  const sz = dimensions === 3 ? z : 0
+
+  switch (type) {
+    case 'Value':
+      return valueNoise(p, x, sy, sz)
+    case 'Simplex':
+      return clampUnit(dimensions === 1 ? simplex1(p, x) : dimensions === 2 ? simplex2(p, x, sy) : simplex3(p, x, sy, sz))
+    default:
+      return clampUnit(perlinNoise(p, x, sy, sz, dimensions))
+  }
+}
+
+/**
+ * Sum of `octaves` noise samples, each at `lacunarity` times the frequency and
+ * `persistence` times the amplitude of the one before, scaled back to -1 to 1
+ */
+export function fractalNoise(
+  type: NoiseType,
+  seed: number,
+  dimensions: NoiseDimensions,
+  point: readonly [number, number, number],
+  { octaves, persistence, lacunarity }: FractalOptions
+): number {
+  const layers = Math.min(8, Math.max(1, Math.round(octaves) || 1))
+  let frequency = 1
+  let amplitude = 1
+  let sum = 0
+  let total = 0
+
+  const baseSeed = Math.round(seed) || 0
+
+  for (let octave = 0; octave < layers; octave++) {
+    // Each octave reads its own table so the layers don't line up at the origin
+    const p = permutation(baseSeed, octave)
+    sum += amplitude * sampleTable(p, type, dimensions, point[0] * frequency, point[1] * frequency, point[2] * frequency)
+    total += amplitude
+    amplitude *= persistence
+    frequency *= lacunarity
+  }
+
+  return total > 0 ? clampUnit(sum / total) : 0
+}
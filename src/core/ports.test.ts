@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { canCoerce, coerceValue, compatibleInputs, registerNodePorts, validatePortConnection } from './ports'
+
+registerNodePorts('LFONode', {
+  inputs: [],
+  outputs: [
+    { name: 'value', type: 'number' },
+    { name: 'color', type: 'color' },
+  ],
+})
+registerNodePorts('ScaleNode', {
+  inputs: [
+    { name: 'input', type: 'number' },
+    { name: 'uniform', type: 'boolean' },
+    { name: 'size', type: 'vector2' },
+  ],
+  outputs: [],
+})
+
+describe('value coercion', () => {
+  it('passes same-type and any values through untouched', () => {
+    const point = { x: 1, y: 2 }
+
+    expect(coerceValue(point, 'vector2', 'vector2')).toBe(point)
+    expect(coerceValue(point, 'any', 'number')).toBe(point)
+    expect(coerceValue(point, 'vector2', 'any')).toBe(point)
+  })
+
+  it('converts between the types the table allows', () => {
+    expect(coerceValue(true, 'boolean', 'number')).toBe(1)
+    expect(coerceValue(0.5, 'number', 'boolean')).toBe(true)
+    expect(coerceValue(0.49, 'number', 'boolean')).toBe(false)
+    expect(coerceValue(3, 'number', 'vector2')).toEqual({ x: 3, y: 3 })
+    expect(coerceValue({ x: 3, y: 4 }, 'vector2', 'number')).toBe(5)
+    expect(coerceValue(2, 'number', 'string')).toBe('2')
+    expect(coerceValue('#ff0000', 'color', 'string')).toBe('#ff0000')
+  })
+
+  it('rejects conversions missing from the table', () => {
+    expect(canCoerce('color', 'number')).toBe(false)
+    expect(canCoerce('string', 'number')).toBe(false)
+    expect(coerceValue('#ff0000', 'color', 'number')).toBe('#ff0000')
+  })
+})
+
+describe('validatePortConnection', () => {
+  it('accepts compatible ports', () => {
+    expect(validatePortConnection('LFONode', 'value', 'ScaleNode', 'input')).toBeNull()
+    expect(validatePortConnection('LFONode', 'value', 'ScaleNode', 'uniform')).toBeNull()
+  })
+
+  it('names the missing output or input', () => {
+    expect(validatePortConnection('LFONode', 'phase', 'ScaleNode', 'input')).toBe('LFONode has no output "phase"')
+    expect(validatePortConnection('LFONode', 'value', 'ScaleNode', 'angle')).toBe('ScaleNode has no input "angle"')
+  })
+
+  it('rejects types that cannot be coerced', () => {
+    expect(validatePortConnection('LFONode', 'color', 'ScaleNode', 'input')).toBe('color output cannot drive a number input')
+  })
+
+  it('lets node types without a schema connect to any port', () => {
+    expect(validatePortConnection('SpriteAtlasNode', 'frame', 'ScaleNode', 'input')).toBeNull()
+    expect(validatePortConnection('LFONode', 'color', 'SpriteAtlasNode', 'tint')).toBeNull()
+  })
+
+  it('lists the inputs a value type can drive', () => {
+    expect(compatibleInputs('ScaleNode', 'color').map((port) => port.name)).toEqual([])
+    expect(compatibleInputs('ScaleNode', 'number').map((port) => port.name)).toEqual(['input', 'uniform', 'size'])
+  })
+})
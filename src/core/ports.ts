@@ -0,0 +1,120 @@
+import type { NodePorts, NodeType, PortDefinition, PortValueType } from '../types'
+
+/**
+ * Port schema registry and value coercion
+ *
+ * Each node module declares the ports it exposes and registers them here, so the
+ * store can validate connections and the editor can list valid wire targets
+ * without the core importing any node module.
+ */
+
+const portRegistry = new Map<NodeType, NodePorts>()
+
+export function registerNodePorts(nodeType: NodeType, ports: NodePorts) {
+  portRegistry.set(nodeType, ports)
+}
+
+export function getNodePorts(nodeType: NodeType): NodePorts | undefined {
+  return portRegistry.get(nodeType)
+}
+
+export function getPort(
+  nodeType: NodeType,
+  direction: 'input' | 'output',
+  portName: string
+): PortDefinition | undefined {
+  const ports = portRegistry.get(nodeType)
+  return (direction === 'input' ? ports?.inputs : ports?.outputs)?.find((p) => p.name === portName)
+}
+
+// ============================================================================
+// COERCION RULES
+// ============================================================================
+
+type Coercion = (value: any) => any
+
+const identity: Coercion = (value) => value
+
+const toVector2 = (value: number) => ({ x: value, y: value })
+
+/**
+ * Allowed conversions, keyed `${from}->${to}`. Same-type and `any` connections
+ * are always allowed and pass the value through untouched.
+ */
+const COERCIONS: Record<string, Coercion> = {
+  'boolean->number': (value) => (value ? 1 : 0),
+  // Signals above the midpoint read as "on" (e.g. a 0-1 LFO driving a toggle)
+  'number->boolean': (value) => Number(value) >= 0.5,
+  'number->vector2': (value) => toVector2(Number(value)),
+  'vector2->number': (value) => Math.hypot(value?.x ?? 0, value?.y ?? 0),
+  'number->string': (value) => String(value),
+  'boolean->string': (value) => String(value),
+  'color->string': identity,
+  'string->color': identity,
+  // Events are read as "fired this frame"; levels fire on their rising edge
+  'event->boolean': (value) => Boolean(value),
+  'event->number': (value) => (value ? 1 : 0),
+  'boolean->event': identity,
+  'number->event': identity,
+  // Per-item values feeding a plain input are routed item by item (see propagation)
+  'items->number': identity,
+}
+
+export function getCoercion(from: PortValueType, to: PortValueType): Coercion | null {
+  if (from === to || from === 'any' || to === 'any') return identity
+  return COERCIONS[`${from}->${to}`] ?? null
+}
+
+export function canCoerce(from: PortValueType, to: PortValueType): boolean {
+  return getCoercion(from, to) !== null
+}
+
+export function coerceValue(value: any, from: PortValueType, to: PortValueType): any {
+  const coercion = getCoercion(from, to)
+  return coercion ? coercion(value) : value
+}
+
+// ============================================================================
+// CONNECTION VALIDATION
+// ============================================================================
+
+/**
+ * Checks that a connection joins an existing output to an existing input with
+ * compatible value types. Node types without a registered schema accept any port.
+ * Returns a human-readable reason when invalid, or null when valid.
+ */
+export function validatePortConnection(
+  sourceType: NodeType,
+  sourceOutput: string,
+  targetType: NodeType,
+  targetInput: string
+): string | null {
+  const sourcePorts = portRegistry.get(sourceType)
+  const targetPorts = portRegistry.get(targetType)
+
+  const sourcePort = sourcePorts?.outputs.find((p) => p.name === sourceOutput)
+  if (sourcePorts && !sourcePort) {
+    return `${sourceType} has no output "${sourceOutput}"`
+  }
+
+  const targetPort = targetPorts?.inputs.find((p) => p.name === targetInput)
+  if (targetPorts && !targetPort) {
+    return `${targetType} has no input "${targetInput}"`
+  }
+
+  const from = sourcePort?.type ?? 'any'
+  const to = targetPort?.type ?? 'any'
+  if (!canCoerce(from, to)) {
+    return `${from} output cannot drive a ${to} input`
+  }
+
+  return null
+}
+
+/**
+ * Lists the inputs of a node type that can receive a value of the given type
+ * (used by the editor to only offer valid wire targets)
+ */
+export function compatibleInputs(targetType: NodeType, from: PortValueType): PortDefinition[] {
+  return (portRegistry.get(targetType)?.inputs ?? []).filter((p) => canCoerce(from, p.type))
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { aninodeStore, storeActions } from './store'
+import { NODE_TYPES, deserializeProject, hasLoadIssues, loadProject, serializeProject } from './project'
+import { addTestNode } from './testNodes'
+import '@nodes/LFONode'
+import '@nodes/NoiseNode'
+import '@nodes/RandomNode'
+import '@nodes/ScaleNode'
+import '@nodes/StaggerNode'
+import '@nodes/TriggerNode'
+
+// Saves the store, then loads the file back into it
+function roundTrip() {
+  const json = JSON.stringify(serializeProject('Round trip'))
+  const { report } = deserializeProject(json)
+  loadProject(json)
+  return report
+}
+
+beforeEach(() => {
+  loadProject(JSON.stringify({ nodes: [], connections: [] }))
+})
+
+describe('project round trip', () => {
+  it('restores every node type', () => {
+    NODE_TYPES.forEach((type) => addTestNode(`node-${type}`, type))
+
+    const report = roundTrip()
+
+    expect(report.droppedNodes).toEqual([])
+    expect(Object.values(aninodeStore.nodes).map((node) => node.type)).toEqual(NODE_TYPES)
+  })
+
+  it('restores props and connections', () => {
+    addTestNode('lfo', 'LFONode', { frequency: 2 })
+    addTestNode('scale', 'ScaleNode', { mode: 'Controlled', multiplier: 0.5 })
+    storeActions.addConnection({ id: 'lfo-scale', sourceNodeId: 'lfo', sourceOutput: 'value', targetNodeId: 'scale', targetInput: 'input' })
+
+    const report = roundTrip()
+
+    expect(hasLoadIssues(report)).toBe(false)
+    expect(aninodeStore.nodes.scale.baseProps).toEqual({ mode: 'Controlled', multiplier: 0.5 })
+    expect(aninodeStore.connections.map((connection) => connection.id)).toEqual(['lfo-scale'])
+    expect(aninodeStore.nodes.scale.connectedInputs.input).toEqual({ sourceNodeId: 'lfo', sourceOutputName: 'value' })
+  })
+
+  it('restores a StaggerNode with its props and connections', () => {
+    addTestNode('lfo', 'LFONode')
+    addTestNode('stagger', 'StaggerNode', { timing: 'Delay', delayStep: 0.2 })
+    storeActions.addConnection({ id: 'lfo-stagger', sourceNodeId: 'lfo', sourceOutput: 'value', targetNodeId: 'stagger', targetInput: 'value' })
+
+    const report = roundTrip()
+
+    expect(hasLoadIssues(report)).toBe(false)
+    expect(aninodeStore.nodes.stagger.baseProps).toEqual({ timing: 'Delay', delayStep: 0.2 })
+    expect(aninodeStore.connections.map((connection) => connection.id)).toEqual(['lfo-stagger'])
+  })
+
+  it('restores a NoiseNode with its props and connections', () => {
+    addTestNode('lfo', 'LFONode', { frequency: 2 })
+    addTestNode('noise', 'NoiseNode', { noiseType: 'Simplex', dimensions: '3D', seed: 7, octaves: 4 })
+    storeActions.addConnection({ id: 'lfo-noise', sourceNodeId: 'lfo', sourceOutput: 'value', targetNodeId: 'noise', targetInput: 'x' })
+
+    const report = roundTrip()
+
+    expect(hasLoadIssues(report)).toBe(false)
+    expect(aninodeStore.nodes.noise.type).toBe('NoiseNode')
+    expect(aninodeStore.nodes.noise.baseProps).toEqual({ noiseType: 'Simplex', dimensions: '3D', seed: 7, octaves: 4 })
+    expect(aninodeStore.connections.map((connection) => connection.id)).toEqual(['lfo-noise'])
+  })
+
+  it('restores a RandomNode with its props and event connections', () => {
+    addTestNode('trigger', 'TriggerNode', { source: 'Timer' })
+    addTestNode('random', 'RandomNode', { distribution: 'Poisson', mean: 3, mode: 'On Trigger', choices: 'red:3, blue' })
+    storeActions.addConnection({ id: 'trigger-random', sourceNodeId: 'trigger', sourceOutput: 'fired', targetNodeId: 'random', targetInput: 'trigger' })
+
+    const report = roundTrip()
+
+    expect(hasLoadIssues(report)).toBe(false)
+    expect(aninodeStore.nodes.random.type).toBe('RandomNode')
+    expect(aninodeStore.nodes.random.baseProps).toEqual({ distribution: 'Poisson', mean: 3, mode: 'On Trigger', choices: 'red:3, blue' })
+    expect(aninodeStore.connections).toEqual([
+      { id: 'trigger-random', sourceNodeId: 'trigger', sourceOutput: 'fired', targetNodeId: 'random', targetInput: 'trigger', kind: 'event' },
+    ])
+  })
+})
+
+describe('loading older files', () => {
+  it('renames legacy node types and reports them', () => {
+    const report = loadProject(JSON.stringify({ nodes: { lfo: { id: 'lfo', type: 'LFO', name: 'LFO', position: { x: 0, y: 0 }, baseProps: {} } } }))
+
+    expect(aninodeStore.nodes.lfo.type).toBe('LFONode')
+    expect(report.renamedNodes).toEqual([{ id: 'lfo', from: 'LFO', to: 'LFONode' }])
+  })
+
+  it('drops nodes of unknown types instead of failing the load', () => {
+    const report = loadProject(JSON.stringify({ nodes: [{ id: 'x', type: 'toString', name: 'x', position: { x: 0, y: 0 }, baseProps: {} }] }))
+
+    expect(aninodeStore.nodes).toEqual({})
+    expect(report.droppedNodes).toEqual([{ id: 'x', reason: 'unknown node type "toString"' }])
+  })
+})
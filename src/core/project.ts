@@ -0,0 +1,449 @@
+import { aninodeStore, storeActions, undoHistory, DEFAULT_TIMELINE } from './store'
+import { DuplicateConnectionError, GraphCycleError, PortTypeError, ProjectFormatError } from './errors'
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from './transport'
+import type {
+  Connection,
+  Keyframe,
+  LegacyNodeType,
+  NodeState,
+  NodeType,
+  PlaybackMode,
+  PresetData,
+  TimelineState,
+} from '../types'
+
+/**
+ * Project files (`.aninode.json`)
+ *
+ * A project stores the node graph (nodes, connections), timelines and presets.
+ * Runtime state (outputs, overrides, connectedInputs, playback) is not saved;
+ * it is rebuilt when the project is loaded. Older files are upgraded through
+ * MIGRATIONS, then validated: anything that cannot be restored is dropped and
+ * listed in the load report instead of failing the whole load.
+ */
+
+export const PROJECT_FORMAT = 'aninode-project'
+export const PROJECT_VERSION = 1
+export const PROJECT_FILE_EXTENSION = '.aninode.json'
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+export type SerializedNode = {
+  id: string
+  type: NodeType
+  name: string
+  position: { x: number; y: number }
+  baseProps: Record<string, any>
+  keyframes?: Record<string, Keyframe[]>
+}
+
+export type ProjectFile = {
+  format: typeof PROJECT_FORMAT
+  version: number
+  meta: {
+    name: string
+    savedAt: string // ISO date
+  }
+  nodes: SerializedNode[]
+  connections: Connection[]
+  timeline: Record<string, TimelineState>
+  presets: Record<string, Record<string, PresetData>>
+}
+
+export type ProjectLoadReport = {
+  fileVersion: number // version the file was saved with (0 = unversioned)
+  renamedNodes: { id: string; from: string; to: NodeType }[]
+  droppedNodes: { id: string; reason: string }[]
+  droppedConnections: { id: string; reason: string }[]
+  droppedPresets: { id: string; reason: string }[]
+}
+
+// Every node type a project may contain (legacy names are renamed on load). Keyed
+// by node type, so a type added to NodeType without being listed here fails to compile.
+const PROJECT_NODE_TYPES: Record<Exclude<NodeType, LegacyNodeType>, true> = {
+  RotationNode: true,
+  ScaleNode: true,
+  PositionNode: true,
+  OpacityNode: true,
+  ColorNode: true,
+  DeformationNode: true,
+  LFONode: true,
+  CurveNode: true,
+  TriggerNode: true,
+  NoiseNode: true,
+  RandomNode: true,
+  PhysicsNode: true,
+  CollisionNode: true,
+  SceneAnimatorNode: true,
+  ObjectPickerNode: true,
+  StaggerNode: true,
+  SpriteAtlasNode: true,
+  PathDrawerNode: true,
+  AudioTimelineNode: true,
+  LightControllerNode: true,
+}
+
+export const NODE_TYPES = Object.keys(PROJECT_NODE_TYPES) as readonly NodeType[]
+
+// Legacy NodeType entries and the node types that replaced them
+export const LEGACY_NODE_TYPES: Record<LegacyNodeType, NodeType> = {
+  SceneAnimator: 'SceneAnimatorNode',
+  LFO: 'LFONode',
+  ObjectPicker: 'ObjectPickerNode',
+  ScaleModifier: 'ScaleNode',
+  LightController: 'LightControllerNode',
+  AudioTimeline: 'AudioTimelineNode',
+  PathDrawer: 'PathDrawerNode',
+  AnimationCurveNode: 'CurveNode',
+}
+
+const PRESET_TYPES: readonly PresetData['type'][] = ['color', 'easing', 'gradient', 'transform']
+
+const PLAYBACK_MODES: readonly PlaybackMode[] = ['loop', 'once', 'pingPong']
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Upgrades keyed by the version they upgrade from; each returns data for the next version
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // 0 → 1: unversioned dumps of the store (nodes keyed by id, no format header)
+  0: (data) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    meta: { name: 'Untitled', savedAt: new Date(0).toISOString() },
+    nodes: Array.isArray(data.nodes) ? data.nodes : Object.values(data.nodes ?? {}),
+    connections: data.connections ?? [],
+    timeline: data.timeline ?? {},
+    presets: data.presets ?? {},
+  }),
+}
+
+function getFileVersion(data: any): number {
+  if (data.format === undefined && data.version === undefined) return 0
+  if (data.format !== PROJECT_FORMAT) {
+    throw new ProjectFormatError(`unknown format "${String(data.format)}"`)
+  }
+  if (!Number.isInteger(data.version) || data.version < 0) {
+    throw new ProjectFormatError(`invalid version "${String(data.version)}"`)
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new ProjectFormatError(
+      `saved by a newer version of Aninode (file v${data.version}, supported up to v${PROJECT_VERSION})`
+    )
+  }
+  return data.version
+}
+
+export function migrateProject(data: any): any {
+  let migrated = data
+  for (let version = getFileVersion(data); version < PROJECT_VERSION; version++) {
+    const migration = MIGRATIONS[version]
+    if (!migration) {
+      throw new ProjectFormatError(`no migration from version ${version}`)
+    }
+    migrated = migration(migrated)
+  }
+  return migrated
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+function validateKeyframes(value: unknown): Record<string, Keyframe[]> | undefined {
+  if (!isRecord(value)) return undefined
+
+  const tracks: Record<string, Keyframe[]> = {}
+  Object.entries(value).forEach(([propName, track]) => {
+    if (!Array.isArray(track)) return
+    const keyframes = track.filter(
+      (k): k is Keyframe =>
+        isRecord(k) && typeof k.id === 'string' && isFiniteNumber(k.time) && isFiniteNumber(k.value)
+    )
+    if (keyframes.length > 0) {
+      tracks[propName] = keyframes
+        .map((k) => ({ id: k.id, time: k.time, value: k.value, easing: String(k.easing ?? 'linear') }))
+        .sort((a, b) => a.time - b.time)
+    }
+  })
+  return tracks
+}
+
+function validateNodes(rawNodes: unknown, report: ProjectLoadReport): SerializedNode[] {
+  if (!Array.isArray(rawNodes)) {
+    throw new ProjectFormatError('"nodes" must be an array')
+  }
+
+  const nodes: SerializedNode[] = []
+  const seen = new Set<string>()
+
+  rawNodes.forEach((raw, index) => {
+    const id = isRecord(raw) && typeof raw.id === 'string' ? raw.id : `#${index}`
+    const drop = (reason: string) => report.droppedNodes.push({ id, reason })
+
+    if (!isRecord(raw) || typeof raw.id !== 'string' || raw.id === '') return drop('missing id')
+    if (seen.has(raw.id)) return drop('duplicate id')
+
+    let type = raw.type as NodeType
+    if (typeof raw.type === 'string' && Object.prototype.hasOwnProperty.call(LEGACY_NODE_TYPES, raw.type)) {
+      type = LEGACY_NODE_TYPES[raw.type as LegacyNodeType]
+      report.renamedNodes.push({ id, from: raw.type, to: type })
+    }
+    if (!NODE_TYPES.includes(type)) return drop(`unknown node type "${String(raw.type)}"`)
+
+    seen.add(raw.id)
+    nodes.push({
+      id: raw.id,
+      type,
+      name: typeof raw.name === 'string' ? raw.name : raw.id,
+      position: isRecord(raw.position) && isFiniteNumber(raw.position.x) && isFiniteNumber(raw.position.y)
+        ? { x: raw.position.x, y: raw.position.y }
+        : { x: 0, y: 0 },
+      baseProps: isRecord(raw.baseProps) ? raw.baseProps : {},
+      keyframes: validateKeyframes(raw.keyframes),
+    })
+  })
+
+  return nodes
+}
+
+// Structural checks only; port types and cycles are checked by the store on load
+function validateConnections(
+  rawConnections: unknown,
+  nodeIds: Set<string>,
+  report: ProjectLoadReport
+): Connection[] {
+  if (!Array.isArray(rawConnections)) {
+    throw new ProjectFormatError('"connections" must be an array')
+  }
+
+  const connections: Connection[] = []
+  const seen = new Set<string>()
+
+  rawConnections.forEach((raw, index) => {
+    const id = isRecord(raw) && typeof raw.id === 'string' ? raw.id : `#${index}`
+    const drop = (reason: string) => report.droppedConnections.push({ id, reason })
+
+    if (!isRecord(raw)) return drop('not an object')
+    const fields = ['id', 'sourceNodeId', 'sourceOutput', 'targetNodeId', 'targetInput'] as const
+    const missing = fields.filter((field) => typeof raw[field] !== 'string' || raw[field] === '')
+    if (missing.length > 0) return drop(`missing ${missing.join(', ')}`)
+    if (seen.has(raw.id)) return drop('duplicate id')
+    if (!nodeIds.has(raw.sourceNodeId)) return drop(`source node "${raw.sourceNodeId}" not found`)
+    if (!nodeIds.has(raw.targetNodeId)) return drop(`target node "${raw.targetNodeId}" not found`)
+
+    seen.add(raw.id)
+    connections.push({
+      id: raw.id,
+      sourceNodeId: raw.sourceNodeId,
+      sourceOutput: raw.sourceOutput,
+      targetNodeId: raw.targetNodeId,
+      targetInput: raw.targetInput,
+      ...(raw.feedback ? { feedback: true } : {}),
+      ...(raw.kind === 'event' ? { kind: 'event' as const } : {}),
+    })
+  })
+
+  return connections
+}
+
+function validateTimelines(rawTimeline: unknown): Record<string, TimelineState> {
+  const timelines: Record<string, TimelineState> = {}
+
+  if (isRecord(rawTimeline)) {
+    Object.entries(rawTimeline).forEach(([id, raw]) => {
+      if (!isRecord(raw)) return
+      const duration = isFiniteNumber(raw.duration) && raw.duration > 0 ? raw.duration : DEFAULT_TIMELINE.duration
+      const inPoint = isFiniteNumber(raw.inPoint) ? Math.max(0, Math.min(duration, raw.inPoint)) : 0
+      const outPoint = isFiniteNumber(raw.outPoint) ? Math.max(inPoint, Math.min(duration, raw.outPoint)) : duration
+
+      // Playback state always starts stopped at the beginning
+      timelines[id] = {
+        ...DEFAULT_TIMELINE,
+        id,
+        duration,
+        fps: isFiniteNumber(raw.fps) && raw.fps > 0 ? raw.fps : DEFAULT_TIMELINE.fps,
+        playbackMode: PLAYBACK_MODES.includes(raw.playbackMode) ? raw.playbackMode : DEFAULT_TIMELINE.playbackMode,
+        rate: isFiniteNumber(raw.rate)
+          ? Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, raw.rate))
+          : DEFAULT_TIMELINE.rate,
+        inPoint,
+        outPoint,
+      }
+    })
+  }
+
+  if (!timelines.default) {
+    timelines.default = { ...DEFAULT_TIMELINE }
+  }
+  return timelines
+}
+
+function validatePresets(
+  rawPresets: unknown,
+  report: ProjectLoadReport
+): Record<string, Record<string, PresetData>> {
+  const presets: Record<string, Record<string, PresetData>> = {}
+  if (!isRecord(rawPresets)) return presets
+
+  Object.values(rawPresets).forEach((presetsOfType) => {
+    if (!isRecord(presetsOfType)) return
+    Object.entries(presetsOfType).forEach(([id, raw]) => {
+      if (!isRecord(raw) || !PRESET_TYPES.includes(raw.type)) {
+        report.droppedPresets.push({ id, reason: `unknown preset type "${String(raw?.type)}"` })
+        return
+      }
+      if (!presets[raw.type]) {
+        presets[raw.type] = {}
+      }
+      presets[raw.type][id] = { id, type: raw.type, value: raw.value }
+    })
+  })
+
+  return presets
+}
+
+// ============================================================================
+// SERIALIZE / DESERIALIZE
+// ============================================================================
+
+/**
+ * Snapshot of the current store as a project file
+ */
+export function serializeProject(name = 'Untitled'): ProjectFile {
+  const nodes = Object.values(aninodeStore.nodes).map((node): SerializedNode => ({
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    position: { ...node.position },
+    baseProps: node.baseProps,
+    ...(node.keyframes && Object.keys(node.keyframes).length > 0 ? { keyframes: node.keyframes } : {}),
+  }))
+
+  // Round-trip through JSON to detach from the store proxies
+  return JSON.parse(JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    meta: { name, savedAt: new Date().toISOString() },
+    nodes,
+    connections: aninodeStore.connections,
+    timeline: aninodeStore.timeline,
+    presets: aninodeStore.presets,
+  }))
+}
+
+/**
+ * Parses, migrates and validates a project file.
+ * Throws ProjectFormatError when the file cannot be read at all; otherwise
+ * returns the cleaned project and a report of what was renamed or dropped.
+ */
+export function deserializeProject(json: string): { project: ProjectFile; report: ProjectLoadReport } {
+  let data: any
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new ProjectFormatError('file is not valid JSON')
+  }
+  if (!isRecord(data)) {
+    throw new ProjectFormatError('file does not contain a project object')
+  }
+
+  const report: ProjectLoadReport = {
+    fileVersion: getFileVersion(data),
+    renamedNodes: [],
+    droppedNodes: [],
+    droppedConnections: [],
+    droppedPresets: [],
+  }
+
+  const migrated = migrateProject(data)
+  const nodes = validateNodes(migrated.nodes, report)
+  const connections = validateConnections(migrated.connections, new Set(nodes.map((n) => n.id)), report)
+
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    meta: {
+      name: typeof migrated.meta?.name === 'string' ? migrated.meta.name : 'Untitled',
+      savedAt: typeof migrated.meta?.savedAt === 'string' ? migrated.meta.savedAt : new Date(0).toISOString(),
+    },
+    nodes,
+    connections,
+    timeline: validateTimelines(migrated.timeline),
+    presets: validatePresets(migrated.presets, report),
+  }
+
+  return { project, report }
+}
+
+function replaceDocument(project: ProjectFile, report: ProjectLoadReport) {
+  storeActions.setPlaying(false)
+  aninodeStore.connections = []
+  aninodeStore.nodes = {}
+  aninodeStore.timeline = project.timeline
+  aninodeStore.presets = project.presets
+  aninodeStore.ui.selectedNodeIds = []
+
+  project.nodes.forEach((node) => {
+    const state: NodeState = {
+      ...node,
+      overrides: {},
+      outputs: {},
+      connectedInputs: {},
+    }
+    storeActions.addNode(state)
+  })
+
+  project.connections.forEach((connection) => {
+    try {
+      storeActions.addConnection(connection)
+    } catch (err) {
+      if (err instanceof GraphCycleError || err instanceof PortTypeError || err instanceof DuplicateConnectionError) {
+        report.droppedConnections.push({ id: connection.id, reason: err.message })
+        return
+      }
+      throw err
+    }
+  })
+}
+
+/**
+ * Replaces the store's graph, timelines and presets with a project and starts
+ * a fresh undo history. Connections are added through the store, so ones with
+ * incompatible ports or that would close a loop are dropped and added to the report.
+ */
+export function applyProject(project: ProjectFile, report: ProjectLoadReport) {
+  undoHistory.ignore(() => replaceDocument(project, report))
+  undoHistory.clear()
+}
+
+/**
+ * Loads a project file's contents into the store and returns the load report
+ */
+export function loadProject(json: string): ProjectLoadReport {
+  const { project, report } = deserializeProject(json)
+  applyProject(project, report)
+  return report
+}
+
+/**
+ * True when the report lists anything that was not restored as saved
+ */
+export function hasLoadIssues(report: ProjectLoadReport): boolean {
+  return (
+    report.droppedNodes.length > 0 ||
+    report.droppedConnections.length > 0 ||
+    report.droppedPresets.length > 0
+  )
+}
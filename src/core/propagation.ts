@@ -0,0 +1,90 @@
+import { aninodeStore, clearItemOverrides } from './store'
+import { coerceValue, getPort } from './ports'
+import { isEventConnection } from './events'
+import type { Connection, NodeState } from '../types'
+
+/**
+ * Connection propagation engine
+ *
+ * Copies each connection's source output (`outputs[sourceOutput]`) into the
+ * target's Level 3 override (`overrides[targetInput]`), coerced to the input's
+ * declared port type. Connections are applied in array order, so when several
+ * wires feed the same input the last one wins.
+ *
+ * An `items` output (per-item values keyed by item id) wired into a plain input
+ * is routed item by item instead: each entry becomes the item override
+ * `overrides[itemId][targetInput]`, which resolveItemProperty reads first.
+ *
+ * The scheduler applies a node's connections right after the node ticks (see
+ * scheduler.ts). Event connections are not sampled here: their events are
+ * queued and delivered by the scheduler (see events.ts).
+ */
+
+function isItemValues(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function applyItemValues(target: NodeState, input: string, values: Record<string, any>) {
+  Object.entries(values).forEach(([itemId, value]) => {
+    if (!isItemValues(target.overrides[itemId])) {
+      target.overrides[itemId] = {}
+    }
+    if (!Object.is(target.overrides[itemId][input], value)) {
+      target.overrides[itemId][input] = value
+    }
+  })
+
+  // Items that left the list stop receiving the input
+  clearItemOverrides(target, input, values)
+}
+
+function applyConnection(connection: Connection) {
+  const source = aninodeStore.nodes[connection.sourceNodeId]
+  const target = aninodeStore.nodes[connection.targetNodeId]
+  if (!source || !target || isEventConnection(connection)) return
+
+  const rawValue = source.outputs[connection.sourceOutput]
+  if (rawValue === undefined) return
+
+  // Convert between port types (e.g. boolean → number) where the schemas declare them
+  const from = getPort(source.type, 'output', connection.sourceOutput)?.type ?? 'any'
+  const to = getPort(target.type, 'input', connection.targetInput)?.type ?? 'any'
+
+  if (from === 'items' && to !== 'items' && to !== 'any') {
+    if (isItemValues(rawValue)) {
+      applyItemValues(target, connection.targetInput, rawValue)
+    }
+    return
+  }
+
+  const value = coerceValue(rawValue, from, to)
+
+  // Skip identical writes so subscribers only hear about real changes
+  if (!Object.is(target.overrides[connection.targetInput], value)) {
+    target.overrides[connection.targetInput] = value
+  }
+}
+
+/**
+ * Propagates only the connections leaving a given node (fan-out).
+ * Feedback connections are skipped; see propagateFeedback.
+ */
+export function propagateFrom(sourceNodeId: string) {
+  aninodeStore.connections.forEach((connection) => {
+    if (connection.sourceNodeId === sourceNodeId && !connection.feedback) {
+      applyConnection(connection)
+    }
+  })
+}
+
+/**
+ * Propagates feedback connections. Called once per frame after every node has
+ * ticked, so the target sees the source's value on the next frame.
+ */
+export function propagateFeedback() {
+  aninodeStore.connections.forEach((connection) => {
+    if (connection.feedback) {
+      applyConnection(connection)
+    }
+  })
+}
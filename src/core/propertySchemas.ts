@@ -0,0 +1,44 @@
+import type { NodePropertySchema, NodeType, PropertyDefinition } from '../types'
+
+/**
+ * Property schema registry
+ *
+ * Each node module describes its editable baseProps (control, range, grouping)
+ * and registers the description here, so the inspector can build its controls
+ * and new nodes can start from sensible defaults without the core importing
+ * any node module.
+ */
+
+const schemaRegistry = new Map<NodeType, NodePropertySchema>()
+
+export function registerPropertySchema(nodeType: NodeType, schema: NodePropertySchema) {
+  schemaRegistry.set(nodeType, schema)
+}
+
+export function getPropertySchema(nodeType: NodeType): NodePropertySchema | undefined {
+  return schemaRegistry.get(nodeType)
+}
+
+/**
+ * Default baseProps for a new node of this type (empty for unknown types)
+ */
+export function getSchemaDefaults(nodeType: NodeType): Record<string, any> {
+  const defaults: Record<string, any> = {}
+  schemaRegistry.get(nodeType)?.forEach((property) => {
+    // Copy list and object defaults (paths, gradients) so nodes never share one value
+    defaults[property.name] =
+      typeof property.default === 'object' && property.default !== null
+        ? JSON.parse(JSON.stringify(property.default))
+        : property.default
+  })
+  return defaults
+}
+
+/**
+ * Whether a property applies given the node's current values
+ * (e.g. the static angle is only relevant in Static mode)
+ */
+export function isPropertyVisible(property: PropertyDefinition, values: Record<string, any>): boolean {
+  if (!property.visibleWhen) return true
+  return Object.entries(property.visibleWhen).every(([name, allowed]) => allowed.includes(values[name]))
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { hashedRandom } from './random'
+
+describe('hashedRandom', () => {
+  it('returns the same value for the same tuple', () => {
+    expect(hashedRandom(7, 2, 40)).toBe(hashedRandom(7, 2, 40))
+  })
+
+  it('keeps values in [0, 1)', () => {
+    for (let draw = -50; draw < 50; draw++) {
+      const value = hashedRandom(3, draw)
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('gives unrelated values to tuples a linear mix would merge', () => {
+    expect(hashedRandom(1013, 0, 5)).not.toBe(hashedRandom(0, 1, 5))
+    expect(hashedRandom(1, 2)).not.toBe(hashedRandom(2, 1))
+  })
+})
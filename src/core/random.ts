@@ -0,0 +1,38 @@
+/**
+ * Seeded randomness
+ *
+ * Nodes are evaluated as a pure function of timeline time, so anything random
+ * must be reproducible: the same seed always gives the same value, on every
+ * frame and after every seek.
+ */
+
+// Hash-style pseudo random in [0, 1) for a numeric seed
+export function seededRandom(seed: number): number {
+  const x = Math.sin(seed * 12.9898 + 78.233) * 43758.5453
+  return x - Math.floor(x)
+}
+
+// Independent random stream per item: the same (seed, index) pair always gives the same value
+export function seededItemRandom(seed: number, index: number): number {
+  return seededRandom(seed * 7919 + index * 104729)
+}
+
+// Pseudo random in [0, 1) for a tuple of integers. Every element is mixed into
+// the whole hash, so tuples like (1013, 0) and (0, 1) are unrelated.
+export function hashedRandom(...values: number[]): number {
+  let hash = 0x9e3779b9
+  values.forEach((value) => {
+    hash = Math.imul(hash ^ (value | 0), 0x85ebca6b)
+    hash ^= hash >>> 13
+  })
+  // murmur3 finalizer
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b)
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35)
+  hash ^= hash >>> 16
+  return (hash >>> 0) / 4294967296
+}
+
+// Smooth interpolation (ease in-out)
+export function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t)
+}
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { storeActions } from './store'
+import { loadProject } from './project'
+import { resolveProperty } from './resolveProperty'
+import { addTestNode } from './testNodes'
+
+// Valtio notifies subscribers after the current microtask
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+beforeEach(async () => {
+  loadProject(JSON.stringify({ nodes: [], connections: [] }))
+  // A node whose color references a preset that doesn't exist yet
+  addTestNode('color', 'ColorNode', { staticColor: 'preset:brand' })
+  await flush()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('missing preset reports', () => {
+  it('reports a missing preset once', () => {
+    expect(resolveProperty('color', 'staticColor', '#000000')).toBe('#000000')
+    expect(resolveProperty('color', 'staticColor', '#000000')).toBe('#000000')
+
+    expect(console.warn).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports it again after the presets change', async () => {
+    resolveProperty('color', 'staticColor', '#000000')
+    storeActions.setPreset({ id: 'brand', type: 'color', value: '#f00' })
+    storeActions.removePreset('brand')
+    await flush()
+
+    resolveProperty('color', 'staticColor', '#000000')
+    expect(console.warn).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports it again after a project is loaded', async () => {
+    resolveProperty('color', 'staticColor', '#000000')
+    loadProject(JSON.stringify({ nodes: [], connections: [] }))
+    // A node whose color references a preset that doesn't exist yet
+  addTestNode('color', 'ColorNode', { staticColor: 'preset:brand' })
+    await flush()
+
+    resolveProperty('color', 'staticColor', '#000000')
+    expect(console.warn).toHaveBeenCalledTimes(2)
+  })
+})
@@ -1,9 +1,209 @@
+import { subscribe } from 'valtio'
 import { aninodeStore } from './store.ts'
+import { PresetResolutionError } from './errors.ts'
+import { evaluateKeyframes } from './keyframes.ts'
+import { isCurveDefinition } from './curves.ts'
+import { formatColor, normalizeGradient, type GradientStop } from './color.ts'
+import type { EaseSpec } from './easing.ts'
+import type { PresetData } from '../types'
+
+const PRESET_PREFIX = 'preset:'
+
+// Presets may alias each other; anything deeper than this is almost certainly a mistake
+const MAX_PRESET_DEPTH = 16
+
+// Missing presets are reported once per id, not on every frame
+const reportedPresetErrors = new Set<string>()
+
+// Any preset change (an edit, a deletion, undo/redo or loading a project) may
+// break or fix references, so unresolvable presets are reported again
+subscribe(aninodeStore, (ops) => {
+  if (ops.some((op) => op[1][0] === 'presets')) reportedPresetErrors.clear()
+})
+
+export type TransformPreset = {
+  x: number
+  y: number
+  rotation: number
+  scaleX: number
+  scaleY: number
+  anchorX: number
+  anchorY: number
+}
+
+const DEFAULT_TRANSFORM: TransformPreset = {
+  x: 0,
+  y: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  anchorX: 50,
+  anchorY: 50,
+}
+
+export function isPresetReference(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PRESET_PREFIX)
+}
+
+/**
+ * Looks up a preset by id across all preset types
+ */
+export function findPreset(presetId: string): PresetData | undefined {
+  for (const presetsOfType of Object.values(aninodeStore.presets)) {
+    const preset = presetsOfType[presetId]
+    if (preset) return preset
+  }
+  return undefined
+}
+
+/**
+ * Resolves a preset id to its coerced value, following chained presets
+ * (a preset whose value is itself `preset:<otherId>`).
+ * Throws PresetResolutionError when the chain is broken or loops.
+ */
+export function resolvePreset(presetId: string, chain: string[] = []): any {
+  if (chain.includes(presetId)) {
+    throw new PresetResolutionError(presetId, chain, `circular reference (${[...chain, presetId].join(' → ')})`)
+  }
+  if (chain.length >= MAX_PRESET_DEPTH) {
+    throw new PresetResolutionError(presetId, chain, `chain deeper than ${MAX_PRESET_DEPTH} presets`)
+  }
+
+  const preset = findPreset(presetId)
+  if (!preset) {
+    throw new PresetResolutionError(presetId, chain, 'preset not found')
+  }
+
+  const nextChain = [...chain, presetId]
+
+  // Chained preset: follow the alias, then coerce to this preset's type
+  if (isPresetReference(preset.value)) {
+    const aliased = resolvePreset(preset.value.substring(PRESET_PREFIX.length), nextChain)
+    return coercePresetValue(preset.type, aliased, nextChain)
+  }
+
+  return coercePresetValue(preset.type, preset.value, nextChain)
+}
+
+/**
+ * Resolves a baseProp value that may be a preset reference.
+ * Falls back to defaultVal (with a one-time warning) if the preset cannot be resolved.
+ */
+function resolveBaseValue(value: any, defaultVal: any): any {
+  if (!isPresetReference(value)) return value
+
+  const presetId = value.substring(PRESET_PREFIX.length)
+  try {
+    return resolvePreset(presetId)
+  } catch (err) {
+    if (err instanceof PresetResolutionError) {
+      if (!reportedPresetErrors.has(presetId)) {
+        reportedPresetErrors.add(presetId)
+        console.warn(err.message)
+      }
+      return defaultVal
+    }
+    throw err
+  }
+}
+
+// ============================================================================
+// TYPED COERCION
+// ============================================================================
+
+function coercePresetValue(type: PresetData['type'], value: any, chain: string[]): any {
+  switch (type) {
+    case 'color':
+      return coerceColor(value, chain)
+    case 'easing':
+      return coerceEasing(value)
+    case 'gradient':
+      return coerceGradient(value, chain)
+    case 'transform':
+      return coerceTransform(value)
+    default:
+      return value
+  }
+}
+
+// Normalizes hex shorthands, {r,g,b,a} objects and [r,g,b,a] arrays to CSS color strings
+function coerceColor(value: any, chain: string[]): string {
+  if (isPresetReference(value)) {
+    return coerceColor(resolvePreset(value.substring(PRESET_PREFIX.length), chain), chain)
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim().toLowerCase()
+    // #rgb / #rgba -> #rrggbb / #rrggbbaa
+    if (/^#[0-9a-f]{3,4}$/.test(trimmed)) {
+      return '#' + trimmed.slice(1).split('').map((c) => c + c).join('')
+    }
+    return trimmed
+  }
+
+  const channels: number[] | null = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object'
+      ? [value.r, value.g, value.b, value.a ?? 1]
+      : null
+
+  if (!channels || channels.slice(0, 3).some((c) => typeof c !== 'number')) {
+    throw new PresetResolutionError(chain[chain.length - 1] ?? '', chain, `invalid color value ${JSON.stringify(value)}`)
+  }
+
+  const [r, g, b, a = 1] = channels
+  return formatColor({ r, g, b, a })
+}
+
+// Easing names and custom curves are passed through; [x1, y1, x2, y2] arrays become cubic-bezier() strings
+function coerceEasing(value: any): EaseSpec {
+  if (Array.isArray(value) && value.length === 4) {
+    return `cubic-bezier(${value.join(', ')})`
+  }
+  if (isCurveDefinition(value)) {
+    return value
+  }
+  if (value && typeof value === 'object' && typeof value.name === 'string') {
+    return value.name
+  }
+  return String(value).trim()
+}
+
+// Accepts stop objects or plain color lists (spread evenly) and returns sorted stops
+function coerceGradient(value: any, chain: string[]): GradientStop[] {
+  if (!Array.isArray(value)) {
+    throw new PresetResolutionError(chain[chain.length - 1] ?? '', chain, 'gradient must be an array of stops')
+  }
+
+  return normalizeGradient(value, (color) => coerceColor(color, chain))
+}
+
+// Fills in any missing transform fields with identity values
+function coerceTransform(value: any): TransformPreset {
+  const result = { ...DEFAULT_TRANSFORM }
+  if (value && typeof value === 'object') {
+    for (const key of Object.keys(DEFAULT_TRANSFORM) as (keyof TransformPreset)[]) {
+      const fieldValue = Number(value[key])
+      if (value[key] !== undefined && Number.isFinite(fieldValue)) {
+        result[key] = fieldValue
+      }
+    }
+  }
+  return result
+}
+
+// ============================================================================
+// PROPERTY RESOLUTION
+// ============================================================================
 
 /**
  * Resolves the final value of a property for a node,
  * following the 3-Level Hierarchy:
  * Level 3 (Overrides) > Level 2 (Presets) > Level 1 (BaseProps)
+ *
+ * A keyframed prop is an animated Level 1 value: its track, evaluated at the
+ * default timeline's current time, replaces the static baseProp (and any preset
+ * reference it held).
  */
 export function resolveProperty(
   nodeId: string,
@@ -18,23 +218,36 @@ export function resolveProperty(
     return node.overrides[propName]
   }
 
-  // Priority 2: Level 2 - Preset reference
-  const basePropValue = node.baseProps[propName]
-  if (typeof basePropValue === 'string' && basePropValue.startsWith('preset:')) {
-    const _presetId = basePropValue.substring(7) // Remove 'preset:' prefix
-    // TODO: Implement preset resolution from aninodeStore.presets using _presetId
-    // For now, fall through to base value
+  // Level 1 (animated) - Keyframe track
+  const track = node.keyframes?.[propName]
+  if (track && track.length > 0) {
+    return evaluateKeyframes(track, aninodeStore.timeline.default?.currentTime ?? 0)
   }
 
+  // Priority 2: Level 2 - Preset reference
   // Priority 3: Level 1 - Base Props from UI
+  const basePropValue = node.baseProps[propName]
   if (basePropValue !== undefined) {
-    return basePropValue
+    return resolveBaseValue(basePropValue, defaultVal)
   }
 
   // Fallback
   return defaultVal
 }
 
+/**
+ * Resolves every prop in `defaults` for a node at once, so a node can evaluate
+ * a frame with overrides and presets applied. Keys missing from the node fall
+ * back to the given default value.
+ */
+export function resolveNodeProps<T extends Record<string, any>>(nodeId: string, defaults: T): T {
+  const resolved: Record<string, any> = {}
+  for (const key of Object.keys(defaults)) {
+    resolved[key] = resolveProperty(nodeId, key, defaults[key])
+  }
+  return resolved as T
+}
+
 /**
  * Resolves the final value of a property for an ITEM within a node
  * (e.g., "item_3" within "sceneAnimator1")
@@ -58,13 +271,12 @@ export function resolveItemProperty(
     return node.overrides[propName]
   }
 
-  // Priority 2: Level 2 - Preset (not yet implemented)
+  // Priority 2: Level 2 - Preset reference (item-specific or node-wide)
+  // Priority 3: Level 1 - Base Props
   const basePropKey = `${propName}${itemId}` // e.g., "scale3"
   const basePropValue = node.baseProps[basePropKey] ?? node.baseProps[propName]
-
-  // Priority 3: Level 1 - Base Props
   if (basePropValue !== undefined) {
-    return basePropValue
+    return resolveBaseValue(basePropValue, defaultVal)
   }
 
   return defaultVal
@@ -0,0 +1,136 @@
+/**
+ * Scene input events
+ *
+ * User input that nodes can react to. The Viewport reports pointer and wheel
+ * activity on scene layers, and keyboard events are picked up from the window
+ * while anything is listening, so nodes never touch the DOM themselves.
+ * Listeners run outside the frame loop; nodes queue what they receive and
+ * handle it on their next tick.
+ */
+
+type KeyModifiers = {
+  ctrlKey: boolean
+  shiftKey: boolean
+  altKey: boolean
+  metaKey: boolean
+}
+
+export type SceneInputEvent =
+  | ({ type: 'keydown' | 'keyup'; key: string; repeat: boolean; timeStamp: number } & KeyModifiers)
+  | {
+      type: 'click' | 'pointerenter' | 'pointerleave'
+      layerId: string
+      layerName: string
+      x: number // canvas pixels
+      y: number
+      timeStamp: number
+    }
+  | { type: 'wheel'; deltaY: number; timeStamp: number } // positive = scrolling down
+
+export type SceneInputListener = (event: SceneInputEvent) => void
+
+const listeners = new Set<SceneInputListener>()
+
+// Typing in the editor's text fields is not scene input
+function isEditingText(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable)
+}
+
+function handleKey(e: KeyboardEvent) {
+  if (isEditingText(e.target)) return
+  emitSceneInput({
+    type: e.type === 'keydown' ? 'keydown' : 'keyup',
+    key: e.key,
+    repeat: e.repeat,
+    ctrlKey: e.ctrlKey,
+    shiftKey: e.shiftKey,
+    altKey: e.altKey,
+    metaKey: e.metaKey,
+    timeStamp: e.timeStamp,
+  })
+}
+
+/**
+ * Sends an event to every listener (the Viewport calls this for layer input)
+ */
+export function emitSceneInput(event: SceneInputEvent) {
+  listeners.forEach((listener) => listener(event))
+}
+
+/**
+ * Listens to scene input. Window key listeners are attached while there is at
+ * least one subscriber. Returns an unsubscribe function.
+ */
+export function subscribeSceneInput(listener: SceneInputListener): () => void {
+  if (listeners.size === 0) {
+    window.addEventListener('keydown', handleKey)
+    window.addEventListener('keyup', handleKey)
+  }
+  listeners.add(listener)
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) {
+      window.removeEventListener('keydown', handleKey)
+      window.removeEventListener('keyup', handleKey)
+    }
+  }
+}
+
+// ============================================================================
+// KEY COMBOS
+// ============================================================================
+
+export type KeyCombo = KeyModifiers & { key: string }
+
+const MODIFIER_ALIASES: Record<string, keyof KeyModifiers> = {
+  ctrl: 'ctrlKey',
+  control: 'ctrlKey',
+  shift: 'shiftKey',
+  alt: 'altKey',
+  option: 'altKey',
+  meta: 'metaKey',
+  cmd: 'metaKey',
+}
+
+// KeyboardEvent.key, lower-cased, with the space bar spelled out
+function normalizeKey(key: string): string {
+  return key === ' ' ? 'space' : key.toLowerCase()
+}
+
+/**
+ * Parses a comma-separated list of combos such as `space, ctrl+shift+k, ArrowUp`.
+ * Unparseable entries (e.g. a modifier on its own) are dropped.
+ */
+export function parseKeyCombos(value: string): KeyCombo[] {
+  return String(value ?? '')
+    .split(',')
+    .map((entry) => {
+      const parts = entry.split('+').map((part) => part.trim().toLowerCase()).filter(Boolean)
+      const combo: KeyCombo = { key: '', ctrlKey: false, shiftKey: false, altKey: false, metaKey: false }
+      parts.forEach((part) => {
+        const modifier = MODIFIER_ALIASES[part]
+        if (modifier) combo[modifier] = true
+        else combo.key = part
+      })
+      return combo
+    })
+    .filter((combo) => combo.key !== '')
+}
+
+/**
+ * Whether a key event matches a combo: same key and exactly the same modifiers.
+ * Shift is not compared for single characters, so `?` matches with or without it.
+ */
+export function matchesKeyCombo(event: KeyModifiers & { key: string }, combo: KeyCombo): boolean {
+  const key = normalizeKey(event.key)
+  if (key !== combo.key) return false
+  const checkShift = key.length > 1 || combo.shiftKey
+  return (
+    event.ctrlKey === combo.ctrlKey &&
+    event.altKey === combo.altKey &&
+    event.metaKey === combo.metaKey &&
+    (!checkShift || event.shiftKey === combo.shiftKey)
+  )
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { aninodeStore, storeActions } from './store'
+import { frameScheduler, type FrameContext } from './scheduler'
+import { transport } from './transport'
+import { addTestNode, resetTestStore } from './testNodes'
+
+let unregisters: (() => void)[] = []
+
+function register(nodeId: string, callback: (ctx: FrameContext) => void, priority = 0) {
+  unregisters.push(frameScheduler.register(nodeId, callback, priority))
+}
+
+beforeEach(() => {
+  resetTestStore()
+})
+
+afterEach(() => {
+  unregisters.forEach((unregister) => unregister())
+  unregisters = []
+})
+
+describe('frameScheduler', () => {
+  it('ticks sources before their targets and propagates within the frame', () => {
+    addTestNode('source', 'LFONode')
+    addTestNode('target', 'ScaleNode')
+    storeActions.addConnection({ id: 'wire', sourceNodeId: 'source', sourceOutput: 'value', targetNodeId: 'target', targetInput: 'input' })
+
+    const seen: string[] = []
+    register('target', (ctx) => {
+      seen.push(`target read ${aninodeStore.nodes.target.overrides.input} in frame ${ctx.frame}`)
+    })
+    register('source', (ctx) => {
+      aninodeStore.nodes.source.outputs.value = ctx.frame
+      seen.push(`source wrote ${ctx.frame}`)
+    })
+
+    frameScheduler.step()
+    const frame = frameScheduler.getFrame()
+
+    expect(seen).toEqual([`source wrote ${frame}`, `target read ${frame} in frame ${frame}`])
+  })
+
+  it('reorders nodes when a connection is added between frames', () => {
+    addTestNode('source', 'LFONode')
+    addTestNode('target', 'ScaleNode')
+    const seen: string[] = []
+    register('target', () => seen.push('target'))
+    register('source', () => seen.push('source'))
+
+    frameScheduler.step()
+    storeActions.addConnection({ id: 'wire', sourceNodeId: 'source', sourceOutput: 'value', targetNodeId: 'target', targetInput: 'input' })
+    frameScheduler.step()
+
+    expect(seen).toEqual(['target', 'source', 'source', 'target'])
+  })
+
+  it('runs higher-priority nodes first when neither depends on the other', () => {
+    const seen: string[] = []
+    register('low', () => seen.push('low'))
+    register('high', () => seen.push('high'), 10)
+
+    frameScheduler.step()
+
+    expect(seen).toEqual(['high', 'low'])
+  })
+
+  it('moves a playing timeline by 1 / fps, scaled by the playback rate', () => {
+    const contexts: FrameContext[] = []
+    register('node', (ctx) => contexts.push(ctx))
+    storeActions.setCurrentTime(0)
+    transport.setRate(2)
+    transport.play()
+
+    frameScheduler.step()
+    frameScheduler.step()
+    transport.pause()
+    transport.setRate(1)
+
+    const [first, second] = contexts
+    expect(first.dt).toBeCloseTo(2 / aninodeStore.timeline.default.fps)
+    expect(second.time - first.time).toBeCloseTo(first.dt)
+    expect(second.frame).toBe(first.frame + 1)
+  })
+
+  it('holds the timeline while it is not playing', () => {
+    const contexts: FrameContext[] = []
+    register('node', (ctx) => contexts.push(ctx))
+    storeActions.setCurrentTime(1)
+
+    frameScheduler.step()
+
+    expect(contexts).toEqual([{ time: 1, dt: 0, frame: frameScheduler.getFrame() }])
+  })
+
+  it('evaluates nodes at timeline time', () => {
+    const times: number[] = []
+    register('node', (ctx) => times.push(ctx.time))
+    storeActions.setCurrentTime(2)
+
+    frameScheduler.evaluate()
+    frameScheduler.evaluate()
+    storeActions.setCurrentTime(1)
+    frameScheduler.evaluate()
+
+    expect(times).toEqual([2, 2, 1])
+  })
+
+  it('stops ticking a node once unregistered', () => {
+    let ticks = 0
+    const unregister = frameScheduler.register('node', () => ticks++)
+
+    frameScheduler.step()
+    unregister()
+    frameScheduler.step()
+
+    expect(ticks).toBe(1)
+  })
+})
@@ -0,0 +1,207 @@
+import { getVersion } from 'valtio'
+import { aninodeStore } from './store'
+import { propagateFeedback, propagateFrom } from './propagation'
+import { topologicalSort } from './graph'
+import { advanceTransport, dispatchTransportEvents } from './transport'
+import { beginEventFrame, deliverEventsFrom, deliverFeedbackEvents } from './events'
+
+/**
+ * Shared frame scheduler
+ *
+ * One requestAnimationFrame loop drives every node. While the default timeline
+ * is playing, each frame moves it through the transport by a fixed `dt`
+ * (1 / timeline fps, scaled by the playback rate); while it is held, nodes are re-evaluated at the current time, so scrubbing and
+ * seeking reproduce the exact same frame. Nodes are ticked in topological order of
+ * `aninodeStore.connections`, and each node's outgoing connections are
+ * propagated right after it ticks, so downstream nodes see the new value in
+ * the same frame. Feedback connections are propagated once all nodes have
+ * ticked, so their targets read the value one frame later. Events a node emits
+ * are delivered the same way, right after its tick.
+ */
+
+export type FrameContext = {
+  time: number // timeline time in seconds; nodes must evaluate as a function of this
+  dt: number // timeline distance moved this frame in seconds (0 while the timeline is held)
+  frame: number // scheduler frame counter
+}
+
+export type FrameCallback = (ctx: FrameContext) => void
+
+type Registration = {
+  callback: FrameCallback
+  priority: number
+}
+
+// Real time skipped beyond this many steps is dropped instead of replayed
+const MAX_STEPS_PER_FRAME = 4
+
+const nodeCallbacks = new Map<string, Registration[]>()
+const frameListeners = new Set<FrameCallback>()
+
+// Evaluation order, rebuilt only when callbacks (un)register or the connections change
+const orderCache = {
+  order: [] as string[],
+  stale: true,
+  connections: null as object | null,
+  version: undefined as number | undefined,
+}
+
+const clock = {
+  frame: 0,
+  accumulator: 0,
+  lastTimestamp: null as number | null,
+  rafId: null as number | null,
+  paused: false,
+}
+
+function getStep(): number {
+  const fps = aninodeStore.timeline.default?.fps || 60
+  return 1 / fps
+}
+
+// Highest priority of a node's callbacks decides its place among ready nodes
+function nodePriority(nodeId: string): number {
+  const registrations = nodeCallbacks.get(nodeId) ?? []
+  return registrations.reduce((max, r) => Math.max(max, r.priority), -Infinity)
+}
+
+function getOrder(): string[] {
+  const connections = aninodeStore.connections
+  const version = getVersion(connections)
+  if (orderCache.stale || orderCache.connections !== connections || orderCache.version !== version) {
+    orderCache.order = topologicalSort([...nodeCallbacks.keys()], connections, nodePriority).order
+    orderCache.stale = false
+    orderCache.connections = connections
+    orderCache.version = version
+  }
+  return orderCache.order
+}
+
+function isTimelinePlaying(): boolean {
+  return aninodeStore.timeline.default?.isPlaying ?? false
+}
+
+function runFrame(step: number) {
+  clock.frame += 1
+
+  const timeline = aninodeStore.timeline.default
+  const previousTime = timeline?.currentTime ?? 0
+  const events = advanceTransport(step)
+  const time = timeline?.currentTime ?? 0
+  const dt = time !== previousTime ? step * (timeline?.rate ?? 1) : 0
+  const ctx: FrameContext = { time, dt, frame: clock.frame }
+  beginEventFrame(clock.frame, time)
+
+  // Boundary events go out before nodes tick, so they can react this frame
+  dispatchTransportEvents(events)
+
+  for (const nodeId of getOrder()) {
+    nodeCallbacks.get(nodeId)?.forEach((registration) => registration.callback(ctx))
+    propagateFrom(nodeId)
+    deliverEventsFrom(nodeId)
+  }
+  propagateFeedback()
+  deliverFeedbackEvents()
+
+  frameListeners.forEach((listener) => listener(ctx))
+}
+
+function loop(timestamp: number) {
+  if (clock.lastTimestamp !== null && !clock.paused) {
+    if (isTimelinePlaying()) {
+      const dt = getStep()
+      clock.accumulator += (timestamp - clock.lastTimestamp) / 1000
+
+      let steps = 0
+      while (clock.accumulator >= dt && steps < MAX_STEPS_PER_FRAME) {
+        runFrame(dt)
+        clock.accumulator -= dt
+        steps++
+      }
+      if (steps === MAX_STEPS_PER_FRAME) {
+        clock.accumulator = 0
+      }
+    } else {
+      // Held: re-evaluate at the current timeline time (picks up scrubbing and edits)
+      clock.accumulator = 0
+      runFrame(0)
+    }
+  }
+
+  clock.lastTimestamp = timestamp
+  clock.rafId = requestAnimationFrame(loop)
+}
+
+export const frameScheduler = {
+  /**
+   * Registers a per-frame callback for a node.
+   * Returns an unregister function.
+   */
+  register: (nodeId: string, callback: FrameCallback, priority = 0): (() => void) => {
+    const registration: Registration = { callback, priority }
+    nodeCallbacks.set(nodeId, [...(nodeCallbacks.get(nodeId) ?? []), registration].sort(
+      (a, b) => b.priority - a.priority
+    ))
+    orderCache.stale = true
+
+    return () => {
+      const remaining = (nodeCallbacks.get(nodeId) ?? []).filter((r) => r !== registration)
+      if (remaining.length > 0) {
+        nodeCallbacks.set(nodeId, remaining)
+      } else {
+        nodeCallbacks.delete(nodeId)
+      }
+      orderCache.stale = true
+    }
+  },
+
+  /**
+   * Registers a listener that runs after all nodes have ticked (e.g. UI readouts)
+   */
+  onFrame: (listener: FrameCallback): (() => void) => {
+    frameListeners.add(listener)
+    return () => {
+      frameListeners.delete(listener)
+    }
+  },
+
+  start: (): (() => void) => {
+    if (clock.rafId === null) {
+      clock.lastTimestamp = null
+      clock.rafId = requestAnimationFrame(loop)
+    }
+    return frameScheduler.stop
+  },
+
+  stop: () => {
+    if (clock.rafId !== null) {
+      cancelAnimationFrame(clock.rafId)
+      clock.rafId = null
+    }
+  },
+
+  pause: () => {
+    clock.paused = true
+    clock.accumulator = 0
+  },
+
+  resume: () => {
+    clock.paused = false
+  },
+
+  // Evaluates the next frame (the timeline only moves while it is playing)
+  step: () => {
+    runFrame(getStep())
+  },
+
+  // Evaluates all nodes at the current timeline time without advancing it
+  evaluate: () => {
+    runFrame(0)
+  },
+
+  isPaused: () => clock.paused,
+
+  getTime: () => aninodeStore.timeline.default?.currentTime ?? 0,
+
+  getFrame: () => clock.frame,
+}
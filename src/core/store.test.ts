@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { aninodeStore, storeActions, undoHistory } from './store'
+import { loadProject } from './project'
+import { DuplicateConnectionError } from './errors'
+import { addTestNode } from './testNodes'
+import '@nodes/LFONode'
+import '@nodes/NoiseNode'
+
+beforeEach(() => {
+  loadProject(JSON.stringify({ nodes: [], connections: [] }))
+  addTestNode('lfo', 'LFONode')
+  addTestNode('noise', 'NoiseNode')
+})
+
+describe('addConnection', () => {
+  it('rejects a connection id that is already taken', () => {
+    storeActions.addConnection({ id: 'wire', sourceNodeId: 'lfo', sourceOutput: 'value', targetNodeId: 'noise', targetInput: 'x' })
+
+    expect(() =>
+      storeActions.addConnection({ id: 'wire', sourceNodeId: 'lfo', sourceOutput: 'value', targetNodeId: 'noise', targetInput: 'y' })
+    ).toThrow(DuplicateConnectionError)
+    expect(aninodeStore.connections.map((connection) => connection.targetInput)).toEqual(['x'])
+    expect(Object.keys(aninodeStore.nodes.noise.connectedInputs)).toEqual(['x'])
+  })
+})
+
+describe('undo', () => {
+  const scene = {
+    project: 'test',
+    canvas: { width: 100, height: 100 },
+    assets: [{ id: 'layer', name: 'layer', file: 'layer.png', x: 0, y: 0, width: 10, height: 10, opacity: 1, blendMode: 'normal', zIndex: 0 }],
+  }
+
+  beforeEach(() => {
+    undoHistory.clear()
+  })
+
+  it('restores edited props and keeps runtime outputs', () => {
+    storeActions.updateNodeProps('lfo', { frequency: 2 })
+    aninodeStore.nodes.lfo.outputs.value = 0.5
+
+    undoHistory.undo()
+
+    expect(aninodeStore.nodes.lfo.baseProps).toEqual({})
+    expect(aninodeStore.nodes.lfo.outputs).toEqual({ value: 0.5 })
+  })
+
+  it('restores the scene without dropping loaded images', () => {
+    storeActions.loadScene(scene, { 'layer.png': 'blob:layer' })
+    storeActions.updateLayer('layer', { opacity: 0.5 })
+
+    undoHistory.undo()
+    expect(aninodeStore.scene?.assets[0].opacity).toBe(1)
+
+    undoHistory.undo()
+    expect(aninodeStore.scene).toBeNull()
+    expect(aninodeStore.loadedImages).toEqual({ 'layer.png': 'blob:layer' })
+  })
+
+  it('records nothing for an edit that changes nothing', () => {
+    storeActions.updateNodePosition('lfo', { x: 0, y: 0 })
+
+    expect(undoHistory.state.canUndo).toBe(false)
+  })
+})
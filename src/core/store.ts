@@ -1,5 +1,10 @@
-import { proxy } from 'valtio'
-import type { NodeState, Connection, TimelineState, PresetData, SceneData } from '../types'
+import { proxy, snapshot } from 'valtio'
+import type { NodeState, Connection, TimelineState, PresetData, SceneData, SceneAsset, Keyframe } from '../types'
+import { DuplicateConnectionError, GraphCycleError, PortTypeError } from './errors'
+import { findCycleFor } from './graph'
+import { getPort, validatePortConnection } from './ports'
+import { sortKeyframes } from './keyframes'
+import { createHistory } from './history'
 
 export type AninodeStore = {
   // Node graph
@@ -19,16 +24,30 @@ export type AninodeStore = {
   // UI State
   ui: {
     selectedNodeIds: string[]
-    selectedLayerId: string | null
+    selectedLayerIds: string[]
     toolMode: 'SELECT' | 'DRAW' | 'PAN'
     isPlaying: boolean
     sidebarOpen: boolean
     propertiesPanelOpen: boolean
     timelinePanelOpen: boolean
+    centerView: 'viewport' | 'graph'
     zoom: number
   }
 }
 
+export const DEFAULT_TIMELINE: TimelineState = {
+  id: 'default',
+  isPlaying: false,
+  currentTime: 0,
+  duration: 30,
+  fps: 60,
+  playbackMode: 'loop',
+  rate: 1,
+  inPoint: 0,
+  outPoint: 30,
+  direction: 1,
+}
+
 export const aninodeStore = proxy<AninodeStore>({
   nodes: {},
   connections: [],
@@ -37,95 +56,332 @@ export const aninodeStore = proxy<AninodeStore>({
   loadedImages: {},
 
   timeline: {
-    default: {
-      id: 'default',
-      isPlaying: false,
-      currentTime: 0,
-      duration: 30,
-      fps: 60,
-    },
+    default: { ...DEFAULT_TIMELINE },
   },
 
   presets: {},
 
   ui: {
     selectedNodeIds: [],
-    selectedLayerId: null,
+    selectedLayerIds: [],
     toolMode: 'SELECT',
     isPlaying: false,
     sidebarOpen: true,
     propertiesPanelOpen: true,
     timelinePanelOpen: true,
+    centerView: 'viewport',
     zoom: 1,
   },
 })
 
-// Helper functions for store manipulation
-export const storeActions = {
-  // Node operations
-  addNode: (node: NodeState) => {
-    aninodeStore.nodes[node.id] = node
-  },
+// ============================================================================
+// UNDO HISTORY
+// ============================================================================
 
-  removeNode: (nodeId: string) => {
-    delete aninodeStore.nodes[nodeId]
-    // Remove connections involving this node
-    aninodeStore.connections = aninodeStore.connections.filter(
-      (conn) => conn.sourceNodeId !== nodeId && conn.targetNodeId !== nodeId
-    )
-  },
+// The undoable document: the node graph, presets and scene. Runtime state
+// (outputs, overrides, playback), UI state and the loaded images are not part of
+// it; blob URLs stay valid until clearScene, which also clears the history.
+type DocumentNode = Pick<NodeState, 'id' | 'type' | 'name' | 'position' | 'baseProps' | 'keyframes'>
+
+type UndoDocument = {
+  nodes: Record<string, DocumentNode>
+  connections: Connection[]
+  presets: AninodeStore['presets']
+  scene: SceneData | null
+}
+
+const DOCUMENT_NODE_KEYS = ['id', 'type', 'name', 'position', 'baseProps', 'keyframes'] as const
 
-  updateNodePosition: (nodeId: string, position: { x: number; y: number }) => {
-    if (aninodeStore.nodes[nodeId]) {
-      aninodeStore.nodes[nodeId].position = position
+// Valtio keeps a snapshot until something in it changes, so capturing reuses
+// everything an edit didn't touch and only changed slices are ever serialized
+function captureDocument(): UndoDocument {
+  const snap = snapshot(aninodeStore) as AninodeStore
+  const nodes: Record<string, DocumentNode> = {}
+  Object.values(snap.nodes).forEach((node) => {
+    nodes[node.id] = {
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      position: node.position,
+      baseProps: node.baseProps,
+      keyframes: node.keyframes,
     }
-  },
+  })
+  return { nodes, connections: snap.connections, presets: snap.presets, scene: snap.scene }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+function isSameDocument(a: UndoDocument, b: UndoDocument): boolean {
+  const ids = Object.keys(a.nodes)
+  return (
+    sameValue(a.connections, b.connections) &&
+    sameValue(a.presets, b.presets) &&
+    sameValue(a.scene, b.scene) &&
+    ids.length === Object.keys(b.nodes).length &&
+    ids.every((id) => {
+      const other = b.nodes[id]
+      return other !== undefined && DOCUMENT_NODE_KEYS.every((key) => sameValue(a.nodes[id][key], other[key]))
+    })
+  )
+}
+
+// Snapshots are frozen; the store gets its own copy
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
 
-  updateNodeProps: (nodeId: string, props: Partial<NodeState['baseProps']>) => {
-    if (aninodeStore.nodes[nodeId]) {
-      Object.assign(aninodeStore.nodes[nodeId].baseProps, props)
+function restoreDocument(document: UndoDocument) {
+  const current = snapshot(aninodeStore) as AninodeStore
+  const nodes: Record<string, NodeState> = {}
+
+  clone(Object.values(document.nodes)).forEach((savedNode) => {
+    const node = aninodeStore.nodes[savedNode.id]
+    nodes[savedNode.id] = {
+      ...savedNode,
+      overrides: node?.overrides ?? {},
+      outputs: node?.outputs ?? {},
+      connectedInputs: {},
     }
-  },
+  })
 
-  // Connection operations
-  addConnection: (connection: Connection) => {
-    aninodeStore.connections.push(connection)
+  const connections = clone(document.connections)
 
-    // Update target node's connectedInputs
-    const targetNode = aninodeStore.nodes[connection.targetNodeId]
-    if (targetNode) {
-      targetNode.connectedInputs[connection.targetInput] = {
-        sourceNodeId: connection.sourceNodeId,
-        sourceOutputName: connection.sourceOutput,
+  // connectedInputs follow the restored connections; inputs no longer wired lose their override
+  connections.forEach((conn) => {
+    const target = nodes[conn.targetNodeId]
+    if (target) {
+      target.connectedInputs[conn.targetInput] = {
+        sourceNodeId: conn.sourceNodeId,
+        sourceOutputName: conn.sourceOutput,
       }
     }
-  },
+  })
+  Object.values(nodes).forEach((node) => {
+    Object.keys(node.overrides).forEach((input) => {
+      if (!node.connectedInputs[input]) {
+        delete node.overrides[input]
+      }
+    })
+  })
+
+  aninodeStore.nodes = nodes
+  aninodeStore.connections = connections
+  // The scene can be large; leave it alone unless this step changed it
+  if (!sameValue(current.presets, document.presets)) {
+    aninodeStore.presets = clone(document.presets)
+  }
+  if (!sameValue(current.scene, document.scene)) {
+    aninodeStore.scene = clone(document.scene)
+  }
+}
+
+export const undoHistory = createHistory({
+  capture: captureDocument,
+  restore: restoreDocument,
+  isEqual: isSameDocument,
+  limit: 100,
+})
+
+/**
+ * Removes `input` from a node's per-item overrides (`overrides[itemId][input]`),
+ * dropping items left empty. Items listed in `keep` are left untouched.
+ */
+export function clearItemOverrides(node: NodeState, input: string, keep: Record<string, any> = {}) {
+  Object.entries(node.overrides).forEach(([itemId, itemOverrides]) => {
+    if (itemId in keep || typeof itemOverrides !== 'object' || itemOverrides === null) return
+    // Object values on declared inputs (vector2, lists) are node-wide overrides, not items
+    if (Array.isArray(itemOverrides) || getPort(node.type, 'input', itemId)) return
+    if (!(input in itemOverrides)) return
+
+    delete itemOverrides[input]
+    if (Object.keys(itemOverrides).length === 0) {
+      delete node.overrides[itemId]
+    }
+  })
+}
+
+// Helper functions for store manipulation
+// (document edits are recorded in undoHistory; use undoHistory.ignore for runtime changes)
+export const storeActions = {
+  // Node operations
+  addNode: (node: NodeState) =>
+    undoHistory.transaction('Add node', () => {
+      aninodeStore.nodes[node.id] = node
+    }),
+
+  removeNode: (nodeId: string) =>
+    undoHistory.transaction('Delete node', () => {
+      delete aninodeStore.nodes[nodeId]
+      aninodeStore.ui.selectedNodeIds = aninodeStore.ui.selectedNodeIds.filter((id) => id !== nodeId)
+      // Remove connections involving this node (clearing overrides it was driving)
+      aninodeStore.connections
+        .filter((conn) => conn.sourceNodeId === nodeId || conn.targetNodeId === nodeId)
+        .forEach((conn) => storeActions.removeConnection(conn.id))
+    }),
+
+  updateNodePosition: (nodeId: string, position: { x: number; y: number }) =>
+    undoHistory.transaction('Move node', () => {
+      if (aninodeStore.nodes[nodeId]) {
+        aninodeStore.nodes[nodeId].position = position
+      }
+    }, { coalesceKey: `position:${nodeId}` }),
+
+  updateNodeProps: (nodeId: string, props: Partial<NodeState['baseProps']>) =>
+    undoHistory.transaction('Edit properties', () => {
+      if (aninodeStore.nodes[nodeId]) {
+        Object.assign(aninodeStore.nodes[nodeId].baseProps, props)
+      }
+    }, { coalesceKey: `props:${nodeId}:${Object.keys(props).join(',')}` }),
+
+  // Keyframe operations (tracks are kept sorted by time; empty tracks are removed)
+  addKeyframe: (nodeId: string, propName: string, keyframe: Keyframe) =>
+    undoHistory.transaction('Add keyframe', () => {
+      const node = aninodeStore.nodes[nodeId]
+      if (!node) return
+      if (!node.keyframes) {
+        node.keyframes = {}
+      }
+      node.keyframes[propName] = sortKeyframes([...(node.keyframes[propName] ?? []), keyframe])
+    }),
 
-  removeConnection: (connectionId: string) => {
-    const connection = aninodeStore.connections.find((c) => c.id === connectionId)
-    if (connection) {
-      // Clear target node's connectedInput
+  updateKeyframe: (
+    nodeId: string,
+    propName: string,
+    keyframeId: string,
+    changes: Partial<Omit<Keyframe, 'id'>>
+  ) =>
+    undoHistory.transaction('Edit keyframe', () => {
+      const track = aninodeStore.nodes[nodeId]?.keyframes?.[propName]
+      const keyframe = track?.find((k) => k.id === keyframeId)
+      if (!track || !keyframe) return
+
+      Object.assign(keyframe, changes)
+      if (changes.time !== undefined) {
+        aninodeStore.nodes[nodeId].keyframes![propName] = sortKeyframes(track)
+      }
+    }, { coalesceKey: `keyframe:${nodeId}:${propName}:${keyframeId}` }),
+
+  removeKeyframe: (nodeId: string, propName: string, keyframeId: string) =>
+    undoHistory.transaction('Delete keyframe', () => {
+      const keyframes = aninodeStore.nodes[nodeId]?.keyframes
+      if (!keyframes?.[propName]) return
+
+      keyframes[propName] = keyframes[propName].filter((k) => k.id !== keyframeId)
+      if (keyframes[propName].length === 0) {
+        delete keyframes[propName]
+      }
+    }),
+
+  removeKeyframeTrack: (nodeId: string, propName: string) =>
+    undoHistory.transaction('Delete keyframe track', () => {
+      const keyframes = aninodeStore.nodes[nodeId]?.keyframes
+      if (keyframes) {
+        delete keyframes[propName]
+      }
+    }),
+
+  // Connection operations
+  // Throws DuplicateConnectionError if the id is already taken, PortTypeError for
+  // unknown/incompatible ports and GraphCycleError if the connection would close
+  // a loop (unless marked as feedback)
+  addConnection: (connection: Connection) =>
+    undoHistory.transaction('Connect', () => {
+      if (aninodeStore.connections.some((c) => c.id === connection.id)) {
+        throw new DuplicateConnectionError(connection)
+      }
+
+      const sourceNode = aninodeStore.nodes[connection.sourceNodeId]
       const targetNode = aninodeStore.nodes[connection.targetNodeId]
+      if (sourceNode && targetNode) {
+        const reason = validatePortConnection(
+          sourceNode.type,
+          connection.sourceOutput,
+          targetNode.type,
+          connection.targetInput
+        )
+        if (reason) {
+          throw new PortTypeError(connection, reason)
+        }
+      }
+
+      const cycle = findCycleFor(aninodeStore.connections, connection)
+      if (cycle) {
+        throw new GraphCycleError(connection, cycle)
+      }
+
+      // Connections into event inputs queue events instead of sampling a value
+      const targetPort = targetNode && getPort(targetNode.type, 'input', connection.targetInput)
+      aninodeStore.connections.push(
+        targetPort?.type === 'event' ? { ...connection, kind: 'event' } : connection
+      )
+
+      // Update target node's connectedInputs
       if (targetNode) {
+        targetNode.connectedInputs[connection.targetInput] = {
+          sourceNodeId: connection.sourceNodeId,
+          sourceOutputName: connection.sourceOutput,
+        }
+      }
+    }),
+
+  removeConnection: (connectionId: string) =>
+    undoHistory.transaction('Disconnect', () => {
+      const connection = aninodeStore.connections.find((c) => c.id === connectionId)
+      aninodeStore.connections = aninodeStore.connections.filter((c) => c.id !== connectionId)
+      if (!connection) return
+
+      const targetNode = aninodeStore.nodes[connection.targetNodeId]
+      if (!targetNode) return
+
+      // Another wire may still feed the same input; hand the input over to it
+      const remaining = aninodeStore.connections.filter(
+        (c) =>
+          c.targetNodeId === connection.targetNodeId && c.targetInput === connection.targetInput
+      )
+      const fallback = remaining[remaining.length - 1]
+
+      if (fallback) {
+        targetNode.connectedInputs[connection.targetInput] = {
+          sourceNodeId: fallback.sourceNodeId,
+          sourceOutputName: fallback.sourceOutput,
+        }
+      } else {
+        // Clear target node's connectedInput and the Level 3 override it was receiving
         targetNode.connectedInputs[connection.targetInput] = null
+        delete targetNode.overrides[connection.targetInput]
+
+        clearItemOverrides(targetNode, connection.targetInput)
       }
-    }
-    aninodeStore.connections = aninodeStore.connections.filter((c) => c.id !== connectionId)
-  },
+    }),
 
   // Scene operations
-  loadScene: (scene: SceneData, images: Record<string, string>) => {
-    aninodeStore.scene = scene
-    aninodeStore.loadedImages = images
-  },
+  loadScene: (scene: SceneData, images: Record<string, string>) =>
+    undoHistory.transaction('Load scene', () => {
+      aninodeStore.scene = scene
+      aninodeStore.loadedImages = images
+    }),
+
+  updateLayer: (layerId: string, changes: Partial<Omit<SceneAsset, 'id'>>) =>
+    undoHistory.transaction('Edit layer', () => {
+      const asset = aninodeStore.scene?.assets.find((a) => a.id === layerId)
+      if (asset) {
+        Object.assign(asset, changes)
+      }
+    }, { coalesceKey: `layer:${layerId}:${Object.keys(changes).join(',')}` }),
 
+  // Not undoable: the scene's images are released
   clearScene: () => {
+    undoHistory.clear()
     // Revoke blob URLs
     Object.values(aninodeStore.loadedImages).forEach((url) => {
       URL.revokeObjectURL(url)
     })
     aninodeStore.scene = null
     aninodeStore.loadedImages = {}
+    aninodeStore.ui.selectedLayerIds = []
   },
 
   // Timeline operations
@@ -142,7 +398,23 @@ export const storeActions = {
     }
   },
 
-  // UI operations
+  // Preset operations
+  setPreset: (preset: PresetData) =>
+    undoHistory.transaction('Edit preset', () => {
+      if (!aninodeStore.presets[preset.type]) {
+        aninodeStore.presets[preset.type] = {}
+      }
+      aninodeStore.presets[preset.type][preset.id] = preset
+    }, { coalesceKey: `preset:${preset.id}` }),
+
+  removePreset: (presetId: string) =>
+    undoHistory.transaction('Delete preset', () => {
+      Object.values(aninodeStore.presets).forEach((presetsOfType) => {
+        delete presetsOfType[presetId]
+      })
+    }),
+
+  // UI operations (not recorded in the undo history)
   selectNode: (nodeId: string, multi = false) => {
     if (multi) {
       if (aninodeStore.ui.selectedNodeIds.includes(nodeId)) {
@@ -157,14 +429,40 @@ export const storeActions = {
     }
   },
 
+  setSelectedNodes: (nodeIds: string[]) => {
+    aninodeStore.ui.selectedNodeIds = nodeIds
+  },
+
   deselectAll: () => {
     aninodeStore.ui.selectedNodeIds = []
   },
 
+  selectLayer: (layerId: string, multi = false) => {
+    if (multi) {
+      if (aninodeStore.ui.selectedLayerIds.includes(layerId)) {
+        aninodeStore.ui.selectedLayerIds = aninodeStore.ui.selectedLayerIds.filter(
+          (id) => id !== layerId
+        )
+      } else {
+        aninodeStore.ui.selectedLayerIds.push(layerId)
+      }
+    } else {
+      aninodeStore.ui.selectedLayerIds = [layerId]
+    }
+  },
+
+  deselectLayers: () => {
+    aninodeStore.ui.selectedLayerIds = []
+  },
+
   setToolMode: (mode: AninodeStore['ui']['toolMode']) => {
     aninodeStore.ui.toolMode = mode
   },
 
+  setCenterView: (view: AninodeStore['ui']['centerView']) => {
+    aninodeStore.ui.centerView = view
+  },
+
   toggleSidebar: () => {
     aninodeStore.ui.sidebarOpen = !aninodeStore.ui.sidebarOpen
   },
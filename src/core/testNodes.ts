@@ -0,0 +1,32 @@
+import { aninodeStore, storeActions } from './store'
+import type { NodeState, NodeType } from '../types'
+
+/**
+ * Test fixtures
+ *
+ * Nodes are added the way the editor adds them: props only, with no outputs,
+ * overrides or connections until the graph or the scheduler produces them.
+ * Connections are checked against the ports node modules register, so a test
+ * that wires real node types imports their modules.
+ */
+
+export function addTestNode(id: string, type: NodeType, baseProps: Partial<NodeState['baseProps']> = {}) {
+  storeActions.addNode({
+    id,
+    type,
+    name: id,
+    position: { x: 0, y: 0 },
+    baseProps,
+    overrides: {},
+    outputs: {},
+    connectedInputs: {},
+  })
+}
+
+/**
+ * Empties the node graph
+ */
+export function resetTestStore() {
+  aninodeStore.nodes = {}
+  aninodeStore.connections = []
+}
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { aninodeStore, storeActions } from './store'
+import { loadProject } from './project'
+import { registerNodeSampler, sampleInputAt } from './timeSampling'
+import { addTestNode } from './testNodes'
+import '@nodes/LFONode'
+import '@nodes/PhysicsNode'
+import '@nodes/StaggerNode'
+
+function connect(id: string, sourceNodeId: string, sourceOutput: string) {
+  storeActions.addConnection({ id, sourceNodeId, sourceOutput, targetNodeId: 'stagger', targetInput: 'value' })
+}
+
+beforeEach(() => {
+  loadProject(JSON.stringify({ nodes: [], connections: [] }))
+  addTestNode('stagger', 'StaggerNode', { value: 5 })
+})
+
+describe('sampleInputAt', () => {
+  it('reads a connected source at the requested time', () => {
+    addTestNode('lfo', 'LFONode')
+    const unregister = registerNodeSampler('lfo', (time) => ({ value: time * 10 }))
+    connect('lfo-stagger', 'lfo', 'value')
+
+    expect(sampleInputAt('stagger', 'value', 0.5)).toBe(5)
+    expect(sampleInputAt('stagger', 'value', 2)).toBe(20)
+    unregister()
+  })
+
+  it('is undefined when the source has no sampler', () => {
+    addTestNode('physics', 'PhysicsNode')
+    connect('physics-stagger', 'physics', 'y')
+
+    expect(sampleInputAt('stagger', 'value', 1)).toBeUndefined()
+  })
+
+  it('reads an unconnected input from its keyframe track', () => {
+    aninodeStore.nodes.stagger.keyframes = {
+      value: [
+        { id: 'a', time: 0, value: 0, easing: 'linear' },
+        { id: 'b', time: 2, value: 10, easing: 'linear' },
+      ],
+    }
+
+    expect(sampleInputAt('stagger', 'value', 1)).toBe(5)
+    expect(sampleInputAt('stagger', 'value', 3)).toBe(10)
+  })
+
+  it('holds a static input at its current value', () => {
+    expect(sampleInputAt('stagger', 'value', 1)).toBe(5)
+    expect(sampleInputAt('stagger', 'value', 10)).toBe(5)
+  })
+})
@@ -0,0 +1,68 @@
+import { aninodeStore } from './store'
+import { coerceValue, getPort } from './ports'
+import { isEventConnection } from './events'
+import { evaluateKeyframes } from './keyframes'
+import { resolveProperty } from './resolveProperty'
+
+/**
+ * Time sampling
+ *
+ * Outputs are normally read as they are on the current frame. Nodes whose
+ * outputs are a pure function of timeline time (LFO, Curve, Noise, Random)
+ * also register a sampler, so other nodes can read them at any other time:
+ * StaggerNode reads its driver as it was `offset` seconds ago, and gets the
+ * same answer on every frame, seek and scrub. Samplers use the node's current
+ * settings; only time changes.
+ */
+
+export type NodeSampler = (time: number) => Record<string, any> | undefined
+
+const samplers = new Map<string, NodeSampler>()
+
+/**
+ * Makes a node's outputs readable at any timeline time. Returns an unregister function.
+ */
+export function registerNodeSampler(nodeId: string, sampler: NodeSampler): () => void {
+  samplers.set(nodeId, sampler)
+  return () => {
+    if (samplers.get(nodeId) === sampler) samplers.delete(nodeId)
+  }
+}
+
+/**
+ * Output of a node at `time`, or undefined when the node has no sampler
+ */
+export function sampleNodeOutput(nodeId: string, output: string, time: number): any {
+  return samplers.get(nodeId)?.(time)?.[output]
+}
+
+/**
+ * Value a node input has at `time`: sampled from the connected source (the
+ * last wire into the input wins, as in propagation), read from the input's
+ * keyframe track, or the input's current value when nothing about it changes
+ * with time. Undefined when the source can't be read at another time (e.g.
+ * physics, which only exists as simulated).
+ */
+export function sampleInputAt(nodeId: string, input: string, time: number): any {
+  const node = aninodeStore.nodes[nodeId]
+  if (!node) return undefined
+
+  const connection = aninodeStore.connections
+    .filter((c) => c.targetNodeId === nodeId && c.targetInput === input && !c.feedback && !isEventConnection(c))
+    .pop()
+
+  if (connection) {
+    const source = aninodeStore.nodes[connection.sourceNodeId]
+    const value = source && sampleNodeOutput(source.id, connection.sourceOutput, time)
+    if (value === undefined) return undefined
+
+    const from = getPort(source.type, 'output', connection.sourceOutput)?.type ?? 'any'
+    const to = getPort(node.type, 'input', input)?.type ?? 'any'
+    return coerceValue(value, from, to)
+  }
+
+  const track = node.keyframes?.[input]
+  if (track && track.length > 0) return evaluateKeyframes(track, time)
+
+  return resolveProperty(nodeId, input, undefined)
+}
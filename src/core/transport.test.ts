@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { aninodeStore } from './store'
+import { advanceTransport, transport, type TransportEvent } from './transport'
+import type { PlaybackMode } from '../types'
+
+const timeline = () => aninodeStore.timeline.default
+
+// Playing from `time` over a 1-3 s range of a 10 s timeline
+function playFrom(time: number, playbackMode: PlaybackMode) {
+  Object.assign(timeline(), { duration: 10, inPoint: 1, outPoint: 3, rate: 1, direction: 1, playbackMode })
+  transport.play()
+  timeline().currentTime = time
+}
+
+beforeEach(() => {
+  transport.pause()
+})
+
+afterEach(() => {
+  transport.pause()
+})
+
+describe('advanceTransport', () => {
+  it('does not move a paused timeline', () => {
+    playFrom(2, 'loop')
+    transport.pause()
+
+    expect(advanceTransport(0.5)).toEqual([])
+    expect(timeline().currentTime).toBe(2)
+  })
+
+  it('moves by dt scaled by the playback rate', () => {
+    playFrom(1, 'loop')
+    transport.setRate(2)
+
+    advanceTransport(0.25)
+
+    expect(timeline().currentTime).toBeCloseTo(1.5)
+  })
+
+  it('wraps from the out point to the in point in loop mode', () => {
+    playFrom(2.75, 'loop')
+
+    const events = advanceTransport(0.5)
+
+    expect(timeline().currentTime).toBeCloseTo(1.25)
+    expect(timeline().isPlaying).toBe(true)
+    expect(events).toEqual<TransportEvent[]>([{ type: 'loop', timelineId: 'default', time: timeline().currentTime, boundary: 'out' }])
+  })
+
+  it('stops at the out point in once mode', () => {
+    playFrom(2.75, 'once')
+
+    const events = advanceTransport(0.5)
+
+    expect(timeline().currentTime).toBe(3)
+    expect(timeline().isPlaying).toBe(false)
+    expect(events).toEqual<TransportEvent[]>([{ type: 'end', timelineId: 'default', time: 3, boundary: 'out' }])
+  })
+
+  it('bounces off both markers in ping-pong mode', () => {
+    playFrom(2.75, 'pingPong')
+
+    const out = advanceTransport(0.5)
+    expect(timeline().currentTime).toBeCloseTo(2.75)
+    expect(timeline().direction).toBe(-1)
+    expect(out.map((event) => event.boundary)).toEqual(['out'])
+
+    timeline().currentTime = 1.25
+    const back = advanceTransport(0.5)
+    expect(timeline().currentTime).toBeCloseTo(1.25)
+    expect(timeline().direction).toBe(1)
+    expect(back.map((event) => [event.type, event.boundary])).toEqual([['bounce', 'in']])
+  })
+
+  it('plays from the in point when the playhead is outside the range', () => {
+    playFrom(0, 'loop')
+    transport.pause()
+    transport.play()
+
+    expect(timeline().currentTime).toBe(1)
+  })
+})
+
+describe('transport', () => {
+  it('keeps the playback rate within its limits', () => {
+    transport.setRate(10)
+    expect(timeline().rate).toBe(4)
+    transport.setRate(0)
+    expect(timeline().rate).toBe(0.25)
+    transport.setRate(1)
+  })
+
+  it('keeps the in point before the out point', () => {
+    Object.assign(timeline(), { duration: 10, inPoint: 1, outPoint: 3 })
+
+    transport.setInPoint(5)
+    expect(timeline().inPoint).toBe(3)
+    transport.setOutPoint(0)
+    expect(timeline().outPoint).toBe(3)
+
+    transport.clearRange()
+    expect([timeline().inPoint, timeline().outPoint]).toEqual([0, 10])
+  })
+})
@@ -0,0 +1,202 @@
+import { aninodeStore, storeActions } from './store'
+import type { PlaybackMode, TimelineState } from '../types'
+
+/**
+ * Timeline transport
+ *
+ * Owns how timeline time moves while playing: playback range (in/out markers),
+ * loop / once / ping-pong modes and playback rate. The frame scheduler calls
+ * `advanceTransport` once per fixed step; UI code drives playback through the
+ * `transport` actions, and nodes can subscribe to range boundary events.
+ */
+
+export const MIN_PLAYBACK_RATE = 0.25
+export const MAX_PLAYBACK_RATE = 4
+
+export type TransportEventType =
+  | 'loop' // wrapped from the out point back to the in point
+  | 'bounce' // ping-pong turned around at the in or out point
+  | 'end' // once mode reached the out point and stopped
+
+export type TransportEvent = {
+  type: TransportEventType
+  timelineId: string
+  time: number // timeline time right after the boundary
+  boundary: 'in' | 'out'
+}
+
+export type TransportListener = (event: TransportEvent) => void
+
+const listeners = new Set<TransportListener>()
+
+function getTimeline(timelineId: string): TimelineState | undefined {
+  return aninodeStore.timeline[timelineId]
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+// Playback range, kept inside [0, duration] and never inverted
+function getRange(timeline: TimelineState): { start: number; end: number } {
+  const start = clamp(timeline.inPoint, 0, timeline.duration)
+  const end = clamp(timeline.outPoint, start, timeline.duration)
+  return { start, end }
+}
+
+/**
+ * Moves a playing timeline forward by `dt` seconds of real time (scaled by its
+ * rate), applying the playback mode at the range boundaries. Returns the
+ * boundary events crossed during this step; they are not dispatched yet.
+ */
+export function advanceTransport(dt: number, timelineId = 'default'): TransportEvent[] {
+  const timeline = getTimeline(timelineId)
+  if (!timeline || !timeline.isPlaying || dt <= 0) return []
+
+  const { start, end } = getRange(timeline)
+  const length = end - start
+  if (length <= 0) {
+    timeline.currentTime = start
+    return []
+  }
+
+  const events: TransportEvent[] = []
+  const delta = dt * timeline.rate * timeline.direction
+  let next = timeline.currentTime + delta
+
+  switch (timeline.playbackMode) {
+    case 'once':
+      if (next >= end) {
+        next = end
+        storeActions.setPlaying(false, timelineId)
+        events.push({ type: 'end', timelineId, time: end, boundary: 'out' })
+      }
+      break
+
+    case 'pingPong':
+      // Reflect off the markers (a single step never spans the whole range at 4x)
+      if (next >= end) {
+        next = end - (next - end)
+        timeline.direction = -1
+        events.push({ type: 'bounce', timelineId, time: next, boundary: 'out' })
+      } else if (next <= start && timeline.direction === -1) {
+        next = start + (start - next)
+        timeline.direction = 1
+        events.push({ type: 'bounce', timelineId, time: next, boundary: 'in' })
+      }
+      next = clamp(next, start, end)
+      break
+
+    default:
+      if (next >= end) {
+        next = start + ((next - start) % length)
+        events.push({ type: 'loop', timelineId, time: next, boundary: 'out' })
+      }
+  }
+
+  timeline.currentTime = next
+  return events
+}
+
+/**
+ * Notifies subscribers of boundary events returned by `advanceTransport`
+ */
+export function dispatchTransportEvents(events: TransportEvent[]) {
+  events.forEach((event) => listeners.forEach((listener) => listener(event)))
+}
+
+export const transport = {
+  play: (timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline) return
+
+    // Finished once-playback (or a playhead past the range) restarts from the in point
+    const { start, end } = getRange(timeline)
+    if (timeline.currentTime >= end || timeline.currentTime < start) {
+      timeline.currentTime = start
+    }
+    timeline.direction = 1
+    storeActions.setPlaying(true, timelineId)
+  },
+
+  pause: (timelineId = 'default') => {
+    storeActions.setPlaying(false, timelineId)
+  },
+
+  toggle: (timelineId = 'default') => {
+    if (getTimeline(timelineId)?.isPlaying) {
+      transport.pause(timelineId)
+    } else {
+      transport.play(timelineId)
+    }
+  },
+
+  seek: (time: number, timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline) return
+    storeActions.setCurrentTime(clamp(time, 0, timeline.duration), timelineId)
+  },
+
+  // Moves the playhead by whole frames (negative steps backwards), for frame-by-frame review
+  stepFrames: (count: number, timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline) return
+    const frame = Math.round(timeline.currentTime * timeline.fps) + count
+    transport.seek(frame / timeline.fps, timelineId)
+  },
+
+  // Jumps to the in point, or the start of the timeline when already there
+  rewind: (timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline) return
+    const { start } = getRange(timeline)
+    transport.seek(timeline.currentTime > start ? start : 0, timelineId)
+    timeline.direction = 1
+  },
+
+  setRate: (rate: number, timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline || !Number.isFinite(rate)) return
+    timeline.rate = clamp(rate, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE)
+  },
+
+  setPlaybackMode: (mode: PlaybackMode, timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline) return
+    timeline.playbackMode = mode
+    timeline.direction = 1
+  },
+
+  setInPoint: (time: number, timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline) return
+    timeline.inPoint = clamp(time, 0, timeline.outPoint)
+  },
+
+  setOutPoint: (time: number, timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline) return
+    timeline.outPoint = clamp(time, timeline.inPoint, timeline.duration)
+  },
+
+  // Resets the playback range to the whole timeline
+  clearRange: (timelineId = 'default') => {
+    const timeline = getTimeline(timelineId)
+    if (!timeline) return
+    timeline.inPoint = 0
+    timeline.outPoint = timeline.duration
+  },
+
+  /**
+   * Subscribes to range boundary events (loop wrap, ping-pong bounce, end of once).
+   * Events are dispatched right after the timeline moves and before nodes tick,
+   * so a node can react to a boundary in the same frame.
+   * Returns an unsubscribe function.
+   */
+  on: (listener: TransportListener): (() => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+}
@@ -0,0 +1,94 @@
+import type { PortDefinition, PropertyDefinition } from '../types'
+
+/**
+ * Triggered tweens
+ *
+ * Animated nodes run their tween on timeline time. With a trigger action they
+ * keep their own playhead instead, which a `trigger` event starts, restarts
+ * or sends back the way it came (e.g. hover in / hover out). The playhead
+ * still moves with the timeline, so it only advances while playing and
+ * scrubbing before the trigger puts the tween back to waiting.
+ */
+
+export type TweenTriggerAction = 'None' | 'Start' | 'Restart' | 'Reverse'
+
+export type TweenPlayhead = {
+  anchorTime: number | null // timeline time of the last trigger, null until triggered
+  anchorPosition: number // tween time at that trigger
+  direction: 1 | -1
+}
+
+export const TWEEN_TRIGGER_PROP = 'triggerAction'
+
+// Shared port and inspector entry for nodes with a triggerable tween
+export const TWEEN_TRIGGER_PORT: PortDefinition = { name: 'trigger', type: 'event', label: 'Trigger', default: false }
+
+export const TWEEN_TRIGGER_PROPERTY: PropertyDefinition = {
+  name: TWEEN_TRIGGER_PROP,
+  label: 'On Trigger',
+  control: 'enum',
+  group: 'Animation',
+  default: 'None',
+  visibleWhen: { mode: ['Animated'] },
+  options: [
+    { value: 'None', label: 'None (timeline)' },
+    { value: 'Start', label: 'Start' },
+    { value: 'Restart', label: 'Restart' },
+    { value: 'Reverse', label: 'Reverse' },
+  ],
+}
+
+export function createTweenPlayhead(): TweenPlayhead {
+  return { anchorTime: null, anchorPosition: 0, direction: 1 }
+}
+
+// Tween time at timeline `time`, held between 0 and `span`
+function playheadPosition(playhead: TweenPlayhead, time: number, span: number): number {
+  if (playhead.anchorTime === null) return 0
+  const position = playhead.anchorPosition + playhead.direction * (time - playhead.anchorTime)
+  return Math.min(span, Math.max(0, position))
+}
+
+/**
+ * Tween time to evaluate at timeline `time`, updating the playhead when a
+ * trigger event arrived this frame (`fired`). `span` is the tween's length in
+ * seconds (Infinity when it loops). Action 'None' returns `time` untouched.
+ */
+export function advanceTweenPlayhead(
+  playhead: TweenPlayhead,
+  action: TweenTriggerAction,
+  fired: boolean,
+  time: number,
+  span: number
+): number {
+  if (action === 'None') return time
+
+  // Rewinding past the trigger (loop wrap, seek back) waits for a new one
+  if (playhead.anchorTime !== null && time < playhead.anchorTime) {
+    Object.assign(playhead, createTweenPlayhead())
+  }
+
+  if (fired) {
+    const position = playheadPosition(playhead, time, span)
+    const running = playhead.anchorTime !== null && playhead.direction === 1 && position < span
+    const startFromBeginning = () => Object.assign(playhead, { anchorTime: time, anchorPosition: 0, direction: 1 })
+
+    switch (action) {
+      case 'Start':
+        if (!running) startFromBeginning()
+        break
+      case 'Restart':
+        startFromBeginning()
+        break
+      case 'Reverse':
+        if (playhead.anchorTime === null) {
+          startFromBeginning()
+        } else {
+          Object.assign(playhead, { anchorTime: time, anchorPosition: position, direction: -playhead.direction })
+        }
+        break
+    }
+  }
+
+  return playheadPosition(playhead, time, span)
+}
@@ -0,0 +1,44 @@
+import { useEffect } from 'react'
+import { storeActions, undoHistory } from './store'
+import { DuplicateConnectionError, GraphCycleError, PortTypeError } from './errors'
+
+/**
+ * Hook to wire a node input from props (e.g. `inputNodeId` / `inputProperty`)
+ * as a regular connection, so the value arrives through the propagation engine
+ * as a Level 3 override instead of being polled by the node itself.
+ */
+export function useInputConnection(
+  nodeId: string | null | undefined,
+  inputName: string,
+  sourceNodeId: string | null | undefined,
+  sourceOutput: string | null | undefined
+) {
+  useEffect(() => {
+    if (!nodeId || !sourceNodeId || !sourceOutput) return
+
+    const connectionId = `${sourceNodeId}.${sourceOutput}->${nodeId}.${inputName}`
+    try {
+      // Driven by props, not an edit: keep it out of the undo history
+      undoHistory.ignore(() =>
+        storeActions.addConnection({
+          id: connectionId,
+          sourceNodeId,
+          sourceOutput,
+          targetNodeId: nodeId,
+          targetInput: inputName,
+        })
+      )
+    } catch (err) {
+      if (err instanceof GraphCycleError || err instanceof PortTypeError) {
+        console.warn(err.message)
+        return
+      }
+      // The id names both ends, so a taken id means the wire is already in place (e.g. loaded with the project)
+      if (!(err instanceof DuplicateConnectionError)) throw err
+    }
+
+    return () => {
+      undoHistory.ignore(() => storeActions.removeConnection(connectionId))
+    }
+  }, [nodeId, inputName, sourceNodeId, sourceOutput])
+}
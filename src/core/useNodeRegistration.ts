@@ -1,22 +1,37 @@
 import { useEffect, useRef } from 'react'
-import { aninodeStore, storeActions } from './store'
+import { aninodeStore, storeActions, undoHistory } from './store'
 import type { NodeState, NodeType } from '../types'
 
+// Shared default so the registration effect doesn't re-run on every render
+const DEFAULT_POSITION = { x: 0, y: 0 }
+
 /**
  * Hook to register and unregister a node in the global store
+ * (mounting is not an edit, so it is kept out of the undo history).
+ *
+ * A node that is already in the store when the component mounts belongs to the
+ * document (created in the editor or loaded from a project): the component only
+ * runs it, and leaves its state, baseProps and lifetime to the document.
  */
 export function useNodeRegistration(
   nodeId: string | null | undefined,
   nodeType: NodeType,
   baseProps: any,
-  initialPosition = { x: 0, y: 0 }
+  initialPosition = DEFAULT_POSITION
 ) {
   const propsRef = useRef(baseProps)
   propsRef.current = baseProps
+  const ownsNodeRef = useRef(false)
 
   useEffect(() => {
     if (!nodeId) return
 
+    if (aninodeStore.nodes[nodeId]) {
+      ownsNodeRef.current = false
+      return
+    }
+    ownsNodeRef.current = true
+
     // Register node on mount
     const newNode: NodeState = {
       id: nodeId,
@@ -29,19 +44,19 @@ export function useNodeRegistration(
       connectedInputs: {},
     }
 
-    storeActions.addNode(newNode)
+    undoHistory.ignore(() => storeActions.addNode(newNode))
     console.log(`[Aninode] Node registered: ${nodeId} (Type: ${nodeType})`)
 
     // Cleanup on unmount
     return () => {
-      storeActions.removeNode(nodeId)
+      undoHistory.ignore(() => storeActions.removeNode(nodeId))
       console.log(`[Aninode] Node unregistered: ${nodeId}`)
     }
   }, [nodeId, nodeType, initialPosition])
 
   // Update baseProps when they change
   useEffect(() => {
-    if (nodeId && aninodeStore.nodes[nodeId]) {
+    if (nodeId && ownsNodeRef.current && aninodeStore.nodes[nodeId]) {
       aninodeStore.nodes[nodeId].baseProps = { ...propsRef.current }
     }
   }, [nodeId, baseProps])
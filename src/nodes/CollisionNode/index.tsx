@@ -9,7 +9,12 @@
  */
 
 import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { emitNodeEvent } from '@core/events'
 import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import type { NodePorts, NodePropertySchema } from '../../types'
 import { useCallback, useEffect, useRef } from 'react'
 
 // ============================================================================
@@ -83,6 +88,78 @@ const AUTO_MAPPING_PRESET = {
   bounciness: 'bounciness',
 }
 
+// Port schema
+export const COLLISION_PORTS: NodePorts = {
+  inputs: [
+    { name: 'friction', type: 'number', label: 'Friction', min: 0, max: 1, default: 0.5 },
+    { name: 'bounciness', type: 'number', label: 'Bounciness', min: 0, max: 1, default: 0.3 },
+    { name: 'adhesion', type: 'number', label: 'Adhesion', min: 0, max: 1, default: 0 },
+  ],
+  outputs: [
+    { name: 'collision', type: 'event', label: 'Collision', default: false },
+    { name: 'isColliding', type: 'boolean', label: 'Is Colliding', default: false },
+    { name: 'collisionCount', type: 'number', label: 'Collision Count', min: 0, default: 0 },
+    { name: 'lastCollisionId', type: 'string', label: 'Last Collision', default: null },
+    { name: 'overlappingIds', type: 'any', label: 'Overlapping', default: [] },
+    { name: 'friction', type: 'number', label: 'Friction', min: 0, max: 1, default: 0.5 },
+    { name: 'bounciness', type: 'number', label: 'Bounciness', min: 0, max: 1, default: 0.3 },
+    { name: 'adhesion', type: 'number', label: 'Adhesion', min: 0, max: 1, default: 0 },
+    { name: 'surfaceType', type: 'string', label: 'Surface Type', default: 'Solid' },
+  ],
+}
+
+registerNodePorts('CollisionNode', COLLISION_PORTS)
+
+// Inspector schema
+export const COLLISION_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'shape', label: 'Shape', control: 'enum', group: 'Collision Shape', default: 'Box',
+    options: [
+      { value: 'Box', label: 'Box' },
+      { value: 'Circle', label: 'Circle' },
+      { value: 'Capsule', label: 'Capsule' },
+      { value: 'Polygon', label: 'Polygon' },
+    ],
+  },
+  { name: 'autoShape', label: 'Auto-detect Size', control: 'toggle', group: 'Collision Shape', default: true },
+  { name: 'shapeWidth', label: 'Width', control: 'number', group: 'Collision Shape', default: 100, min: 0, step: 1, visibleWhen: { autoShape: [false] } },
+  { name: 'shapeHeight', label: 'Height', control: 'number', group: 'Collision Shape', default: 100, min: 0, step: 1, visibleWhen: { autoShape: [false] } },
+  {
+    name: 'surfaceType', label: 'Surface', control: 'enum', group: 'Surface', default: 'Solid',
+    options: [
+      { value: 'Solid', label: 'Solid' },
+      { value: 'Trigger', label: 'Trigger (detect only)' },
+      { value: 'Platform', label: 'Platform (one-way)' },
+    ],
+  },
+  {
+    name: 'platformDirection', label: 'Direction', control: 'enum', group: 'Surface', default: 'Up', visibleWhen: { surfaceType: ['Platform'] },
+    options: [
+      { value: 'Up', label: 'Up' },
+      { value: 'Down', label: 'Down' },
+      { value: 'Left', label: 'Left' },
+      { value: 'Right', label: 'Right' },
+    ],
+  },
+  { name: 'friction', label: 'Friction', control: 'slider', group: 'Surface', default: 0.5, min: 0, max: 1, step: 0.1 },
+  { name: 'bounciness', label: 'Bounciness', control: 'slider', group: 'Surface', default: 0.3, min: 0, max: 1, step: 0.1 },
+  { name: 'adhesion', label: 'Adhesion', control: 'slider', group: 'Surface', default: 0, min: 0, max: 1, step: 0.1 },
+  {
+    name: 'onCollisionResponse', label: 'Response', control: 'enum', group: 'Collision Response', default: 'Bounce',
+    options: [
+      { value: 'Bounce', label: 'Bounce' },
+      { value: 'Stick', label: 'Stick' },
+      { value: 'Stop', label: 'Stop' },
+      { value: 'Pass', label: 'Pass Through' },
+    ],
+  },
+  { name: 'collisionGroup', label: 'Group', control: 'number', group: 'Collision Groups', default: 1, min: 0, max: 15, step: 1 },
+  { name: 'outputCollisions', label: 'Output Collisions', control: 'toggle', group: 'Collision Groups', default: true },
+  { name: 'outputOverlaps', label: 'Output Overlaps', control: 'toggle', group: 'Collision Groups', default: false },
+]
+
+registerPropertySchema('CollisionNode', COLLISION_PROPERTIES)
+
 // ============================================================================
 // COLLISION NODE COMPONENT
 // ============================================================================
@@ -138,6 +215,11 @@ export function CollisionNode(props: CollisionNodeProps) {
         state.isColliding !== lastPublished.current.isColliding ||
         state.collisionCount !== lastPublished.current.collisionCount
       ) {
+        // Every new contact is an event, even if isColliding never went false in between
+        if (state.collisionCount > lastPublished.current.collisionCount) {
+          emitNodeEvent(id, 'collision', { otherId: state.lastCollisionId, count: state.collisionCount })
+        }
+
         node.outputs.isColliding = state.isColliding
         node.outputs.collisionCount = state.collisionCount
         node.outputs.lastCollisionId = state.lastCollisionId
@@ -240,10 +322,8 @@ export function CollisionNode(props: CollisionNodeProps) {
     // Initial check
     checkCollisions()
 
-    // Periodic update (would be replaced by event-driven in full impl)
-    const interval = setInterval(checkCollisions, 100)
-
-    return () => clearInterval(interval)
+    // Per-frame update on the shared scheduler (would be event-driven in full impl)
+    return frameScheduler.register(id, checkCollisions)
   }, [id, publishCollisionState])
 
   // Headless node
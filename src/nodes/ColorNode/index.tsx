@@ -0,0 +1,325 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps, resolveProperty } from '@core/resolveProperty'
+import { getEase, tweenProgress, type EaseSpec } from '@core/easing'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { TARGET_LAYERS_PROPERTY, type LayerColorEffect } from '@core/layerBindings'
+import { mixColors, normalizeGradient, parseColor, rgbToHsl, sampleGradient, type ColorSpace, type GradientStop } from '@core/color'
+import type { NodePorts, NodePropertySchema } from '../../types'
+import { useInputConnection } from '@core/useInputConnection'
+
+export type ColorApplyMode = 'None' | 'Tint' | 'Filter' | 'Overlay'
+
+export type ColorNodeProps = {
+  id: string
+  name?: string
+
+  // Mode
+  mode: 'Static' | 'Animated' | 'Controlled'
+
+  // Animated/Controlled colors come from a start-end range or a gradient
+  palette: 'Range' | 'Gradient'
+  colorSpace: ColorSpace
+
+  // Static mode
+  staticColor: string
+
+  // Palette
+  startColor: string
+  endColor: string
+  gradient: string | GradientStop[] | string[] // gradient preset reference, stop list or color list
+
+  // Animated mode
+  animationEnabled: boolean
+  duration: number // seconds
+  loop: boolean
+  yoyo: boolean
+  easing: EaseSpec // easing name, easing preset or custom curve
+
+  // Controlled mode (input 0-1 picks the position in the palette)
+  inputNodeId?: string
+  inputProperty?: string
+  multiplier: number
+  offset: number
+
+  // Layer application
+  applyAs: ColorApplyMode
+  amount: number // 0-1 strength
+}
+
+// Auto-mapping presets; only Filter application drives numeric layer properties
+const FILTER_MAPPING_PRESET = {
+  hueRotate: 'hueRotate',
+  saturate: 'saturate',
+  brightness: 'brightness',
+}
+
+const NO_MAPPING_PRESET = {}
+
+// Port schema
+export const COLOR_PORTS: NodePorts = {
+  inputs: [
+    { name: 'input', type: 'number', label: 'Position (0-1)', min: 0, max: 1, default: 0 },
+    { name: 'staticColor', type: 'color', label: 'Color', default: '#ffffff' },
+    { name: 'startColor', type: 'color', label: 'Start Color', default: '#ff6b6b' },
+    { name: 'endColor', type: 'color', label: 'End Color', default: '#4d96ff' },
+    { name: 'multiplier', type: 'number', label: 'Multiplier', default: 1 },
+    { name: 'offset', type: 'number', label: 'Offset', default: 0 },
+    { name: 'amount', type: 'number', label: 'Amount', min: 0, max: 1, default: 1 },
+  ],
+  outputs: [
+    { name: 'color', type: 'color', label: 'Color', default: '#ffffff' },
+    { name: 'hue', type: 'number', label: 'Hue (°)', min: 0, max: 360, default: 0 },
+    { name: 'saturation', type: 'number', label: 'Saturation', min: 0, max: 1, default: 0 },
+    { name: 'lightness', type: 'number', label: 'Lightness', min: 0, max: 1, default: 1 },
+    { name: 'position', type: 'number', label: 'Position', min: 0, max: 1, default: 0 },
+    { name: 'hueRotate', type: 'number', label: 'Filter Hue (°)', default: 0 },
+    { name: 'saturate', type: 'number', label: 'Filter Saturate', min: 0, default: 1 },
+    { name: 'brightness', type: 'number', label: 'Filter Brightness', min: 0, default: 1 },
+  ],
+}
+
+registerNodePorts('ColorNode', COLOR_PORTS)
+
+// Defaults, shared by the inspector schema and the component
+const COLOR_DEFAULTS: Omit<ColorNodeProps, 'id' | 'name' | 'inputNodeId' | 'inputProperty'> = {
+  mode: 'Animated',
+  palette: 'Range',
+  colorSpace: 'oklch',
+  staticColor: '#ffffff',
+  startColor: '#ff6b6b',
+  endColor: '#4d96ff',
+  gradient: ['#ff6b6b', '#ffd93d', '#6bcb77', '#4d96ff'],
+  animationEnabled: true,
+  duration: 2,
+  loop: true,
+  yoyo: true,
+  easing: 'easeInOut',
+  multiplier: 1,
+  offset: 0,
+  applyAs: 'Tint',
+  amount: 1,
+}
+
+// Inspector schema
+export const COLOR_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Mode', default: COLOR_DEFAULTS.mode,
+    options: [
+      { value: 'Static', label: 'Static' },
+      { value: 'Animated', label: 'Animated' },
+      { value: 'Controlled', label: 'Controlled' },
+    ],
+  },
+  { name: 'staticColor', label: 'Color', control: 'color', group: 'Static', default: COLOR_DEFAULTS.staticColor, visibleWhen: { mode: ['Static'] } },
+  {
+    name: 'palette', label: 'Palette', control: 'enum', group: 'Palette', default: COLOR_DEFAULTS.palette, visibleWhen: { mode: ['Animated', 'Controlled'] },
+    options: [
+      { value: 'Range', label: 'Start → End' },
+      { value: 'Gradient', label: 'Gradient' },
+    ],
+  },
+  { name: 'startColor', label: 'Start', control: 'color', group: 'Palette', default: COLOR_DEFAULTS.startColor, visibleWhen: { mode: ['Animated', 'Controlled'], palette: ['Range'] } },
+  { name: 'endColor', label: 'End', control: 'color', group: 'Palette', default: COLOR_DEFAULTS.endColor, visibleWhen: { mode: ['Animated', 'Controlled'], palette: ['Range'] } },
+  { name: 'gradient', label: 'Gradient', control: 'gradient', group: 'Palette', default: COLOR_DEFAULTS.gradient, visibleWhen: { mode: ['Animated', 'Controlled'], palette: ['Gradient'] } },
+  {
+    name: 'colorSpace', label: 'Interpolate In', control: 'enum', group: 'Palette', default: COLOR_DEFAULTS.colorSpace, visibleWhen: { mode: ['Animated', 'Controlled'] },
+    options: [
+      { value: 'rgb', label: 'RGB' },
+      { value: 'hsl', label: 'HSL' },
+      { value: 'oklch', label: 'OKLCH' },
+    ],
+  },
+  { name: 'animationEnabled', label: 'Enabled', control: 'toggle', group: 'Animation', default: COLOR_DEFAULTS.animationEnabled, visibleWhen: { mode: ['Animated'] } },
+  { name: 'duration', label: 'Duration', control: 'slider', group: 'Animation', default: COLOR_DEFAULTS.duration, min: 0.1, max: 10, step: 0.1, unit: 's', visibleWhen: { mode: ['Animated'] } },
+  { name: 'loop', label: 'Loop', control: 'toggle', group: 'Animation', default: COLOR_DEFAULTS.loop, visibleWhen: { mode: ['Animated'] } },
+  { name: 'yoyo', label: 'Yoyo', control: 'toggle', group: 'Animation', default: COLOR_DEFAULTS.yoyo, visibleWhen: { mode: ['Animated'] } },
+  { name: 'easing', label: 'Easing', control: 'easing', group: 'Animation', default: COLOR_DEFAULTS.easing, visibleWhen: { mode: ['Animated'] } },
+  { name: 'multiplier', label: 'Multiplier', control: 'number', group: 'Input', default: COLOR_DEFAULTS.multiplier, step: 0.1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'offset', label: 'Offset', control: 'number', group: 'Input', default: COLOR_DEFAULTS.offset, step: 0.1, visibleWhen: { mode: ['Controlled'] } },
+  {
+    name: 'applyAs', label: 'Apply As', control: 'enum', group: 'Layers', default: COLOR_DEFAULTS.applyAs,
+    options: [
+      { value: 'None', label: 'Output only' },
+      { value: 'Tint', label: 'Tint' },
+      { value: 'Filter', label: 'Filter (hue, saturation, brightness)' },
+      { value: 'Overlay', label: 'Overlay' },
+    ],
+  },
+  { name: 'amount', label: 'Amount', control: 'slider', group: 'Layers', default: COLOR_DEFAULTS.amount, min: 0, max: 1, step: 0.01 },
+  TARGET_LAYERS_PROPERTY,
+]
+
+registerPropertySchema('ColorNode', COLOR_PROPERTIES)
+
+export type ColorOutput = {
+  color: string
+  position: number // 0-1 position in the palette (0 in Static mode)
+}
+
+/**
+ * Color at `time` seconds of timeline time.
+ * Pure: the same props, time and input always give the same color.
+ */
+export function evaluateColor(props: ColorNodeProps, time: number, input = 0): ColorOutput {
+  let position: number
+  switch (props.mode) {
+    case 'Animated':
+      if (!props.animationEnabled) {
+        position = 0
+        break
+      }
+      position = getEase(props.easing)(tweenProgress(time, props.duration, props.loop, props.yoyo))
+      break
+
+    case 'Controlled':
+      // Formula: (input * multiplier) + offset, clamped to the palette
+      position = Math.min(1, Math.max(0, input * props.multiplier + props.offset))
+      break
+
+    default:
+      return { color: mixColors(props.staticColor, props.staticColor, 0), position: 0 }
+  }
+
+  if (props.palette === 'Gradient') {
+    return { color: sampleGradient(normalizeGradient(props.gradient), position, props.colorSpace), position }
+  }
+  return { color: mixColors(props.startColor, props.endColor, position, props.colorSpace), position }
+}
+
+/**
+ * CSS filter amounts that shift a layer towards a color: the hue rotates the
+ * layer's hues, and saturation/lightness above or below 50% raise or lower the
+ * layer's own. A 50%-saturation, 50%-lightness color only rotates hue.
+ */
+export function colorToFilter(color: string, amount: number) {
+  const hsl = rgbToHsl(parseColor(color) ?? { r: 0, g: 0, b: 0 })
+  return {
+    hueRotate: hsl.h * amount,
+    saturate: 1 + (hsl.s * 2 - 1) * amount,
+    brightness: 1 + (hsl.l * 2 - 1) * amount,
+  }
+}
+
+const round = (value: number, precision = 1000) => Math.round(value * precision) / precision
+
+export function ColorNode({
+  id,
+  name = 'Color',
+  mode = COLOR_DEFAULTS.mode,
+  palette = COLOR_DEFAULTS.palette,
+  colorSpace = COLOR_DEFAULTS.colorSpace,
+  staticColor = COLOR_DEFAULTS.staticColor,
+  startColor = COLOR_DEFAULTS.startColor,
+  endColor = COLOR_DEFAULTS.endColor,
+  gradient = COLOR_DEFAULTS.gradient,
+  animationEnabled = COLOR_DEFAULTS.animationEnabled,
+  duration = COLOR_DEFAULTS.duration,
+  loop = COLOR_DEFAULTS.loop,
+  yoyo = COLOR_DEFAULTS.yoyo,
+  easing = COLOR_DEFAULTS.easing,
+  inputNodeId,
+  inputProperty,
+  multiplier = COLOR_DEFAULTS.multiplier,
+  offset = COLOR_DEFAULTS.offset,
+  applyAs = COLOR_DEFAULTS.applyAs,
+  amount = COLOR_DEFAULTS.amount,
+}: ColorNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    mode,
+    palette,
+    colorSpace,
+    staticColor,
+    startColor,
+    endColor,
+    gradient,
+    animationEnabled,
+    duration,
+    loop,
+    yoyo,
+    easing,
+    inputNodeId,
+    inputProperty,
+    multiplier,
+    offset,
+    applyAs,
+    amount,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'ColorNode', baseProps)
+
+  // Legacy input props become a connection into the 'input' port
+  useInputConnection(id, 'input', inputNodeId, inputProperty)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Remove the published layer bindings on unmount
+  useEffect(() => {
+    if (!id) return
+
+    return () => {
+      const outputs = aninodeStore.nodes[id]?.outputs
+      if (outputs) {
+        delete outputs.__autoMappingPreset
+        delete outputs.__layerColor
+      }
+    }
+  }, [id])
+
+  // Evaluate every frame at timeline time, after upstream nodes have ticked
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const input = resolveProperty(id, 'input', 0)
+      const { color, position } = evaluateColor(props, ctx.time, input)
+      const hsl = rgbToHsl(parseColor(color) ?? { r: 0, g: 0, b: 0 })
+      const strength = Math.min(1, Math.max(0, props.amount))
+
+      // Only write changed values
+      if (node.outputs.color !== color) node.outputs.color = color
+      if (node.outputs.hue !== round(hsl.h, 10)) node.outputs.hue = round(hsl.h, 10)
+      if (node.outputs.saturation !== round(hsl.s)) node.outputs.saturation = round(hsl.s)
+      if (node.outputs.lightness !== round(hsl.l)) node.outputs.lightness = round(hsl.l)
+      if (node.outputs.position !== round(position)) node.outputs.position = round(position)
+
+      // Filter amounts, published for the auto-mapping preset
+      const filter = colorToFilter(color, props.applyAs === 'Filter' ? strength : 0)
+      if (node.outputs.hueRotate !== round(filter.hueRotate, 10)) node.outputs.hueRotate = round(filter.hueRotate, 10)
+      if (node.outputs.saturate !== round(filter.saturate)) node.outputs.saturate = round(filter.saturate)
+      if (node.outputs.brightness !== round(filter.brightness)) node.outputs.brightness = round(filter.brightness)
+
+      const preset = props.applyAs === 'Filter' ? FILTER_MAPPING_PRESET : NO_MAPPING_PRESET
+      if (JSON.stringify(node.outputs.__autoMappingPreset) !== JSON.stringify(preset)) {
+        node.outputs.__autoMappingPreset = preset
+      }
+
+      // Tint and overlay are drawn over the layer rather than composed
+      const effect: LayerColorEffect | undefined =
+        props.applyAs === 'Tint' || props.applyAs === 'Overlay'
+          ? { color, blend: props.applyAs === 'Tint' ? 'tint' : 'overlay', amount: strength }
+          : undefined
+      if (JSON.stringify(node.outputs.__layerColor) !== JSON.stringify(effect)) {
+        if (effect) {
+          node.outputs.__layerColor = effect
+        } else {
+          delete node.outputs.__layerColor
+        }
+      }
+    })
+  }, [id])
+
+  return null
+}
@@ -0,0 +1,172 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps, resolveProperty } from '@core/resolveProperty'
+import { tweenProgress } from '@core/easing'
+import { createCurve, DEFAULT_CURVE, isCurveDefinition, type CurveDefinition } from '@core/curves'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import type { NodePorts, NodePropertySchema } from '../../types'
+import { useInputConnection } from '@core/useInputConnection'
+import { registerNodeSampler, sampleInputAt } from '@core/timeSampling'
+
+export type CurveNodeProps = {
+  id: string
+  name?: string
+
+  // Curve shape (bezier handles, spline points or a built-in shape)
+  curve: CurveDefinition
+
+  // Where x comes from
+  source: 'Input' | 'Time'
+
+  // Input source
+  inputNodeId?: string
+  inputProperty?: string
+
+  // Time source
+  duration: number // seconds per pass
+  loop: boolean
+  yoyo: boolean
+
+  // Output
+  reverse: boolean // read the curve from right to left: f(1 - x)
+  outMin: number // value at curve 0
+  outMax: number // value at curve 1
+}
+
+// Port schema
+export const CURVE_PORTS: NodePorts = {
+  inputs: [
+    { name: 'input', type: 'number', label: 'Input', min: 0, max: 1, default: 0 },
+    { name: 'outMin', type: 'number', label: 'Out Min', default: 0 },
+    { name: 'outMax', type: 'number', label: 'Out Max', default: 1 },
+    { name: 'duration', type: 'number', label: 'Duration', min: 0.1, default: 1 },
+  ],
+  outputs: [
+    { name: 'value', type: 'number', label: 'Value', default: 0 },
+    { name: 'normalized', type: 'number', label: 'Normalized', default: 0 },
+  ],
+}
+
+registerNodePorts('CurveNode', CURVE_PORTS)
+
+// Inspector schema
+export const CURVE_PROPERTIES: NodePropertySchema = [
+  { name: 'curve', label: 'Curve', control: 'curve', group: 'Curve', default: DEFAULT_CURVE },
+  {
+    name: 'source', label: 'Source', control: 'enum', group: 'Source', default: 'Input',
+    options: [
+      { value: 'Input', label: 'Input (0-1)' },
+      { value: 'Time', label: 'Time' },
+    ],
+  },
+  { name: 'duration', label: 'Duration', control: 'slider', group: 'Source', default: 1, min: 0.1, max: 10, step: 0.1, unit: 's', visibleWhen: { source: ['Time'] } },
+  { name: 'loop', label: 'Loop', control: 'toggle', group: 'Source', default: true, visibleWhen: { source: ['Time'] } },
+  { name: 'yoyo', label: 'Yoyo', control: 'toggle', group: 'Source', default: false, visibleWhen: { source: ['Time'] } },
+  { name: 'reverse', label: 'Reverse', control: 'toggle', group: 'Output', default: false },
+  { name: 'outMin', label: 'Out Min', control: 'number', group: 'Output', default: 0, step: 0.1 },
+  { name: 'outMax', label: 'Out Max', control: 'number', group: 'Output', default: 1, step: 0.1 },
+]
+
+registerPropertySchema('CurveNode', CURVE_PROPERTIES)
+
+/**
+ * Curve output at `time` seconds of timeline time (Time source) or for the
+ * 0-1 `input` (Input source). `normalized` is the raw curve value, `value` is
+ * it mapped onto outMin-outMax. Pure: the same props, time and input always
+ * give the same result.
+ */
+export function evaluateCurve(
+  props: CurveNodeProps,
+  time: number,
+  input = 0
+): { value: number; normalized: number } {
+  const x =
+    props.source === 'Time'
+      ? tweenProgress(time, props.duration, props.loop, props.yoyo)
+      : Math.min(1, Math.max(0, Number(input) || 0))
+
+  const curve = isCurveDefinition(props.curve) ? props.curve : DEFAULT_CURVE
+  const normalized = createCurve(curve)(props.reverse ? 1 - x : x)
+
+  return {
+    value: props.outMin + (props.outMax - props.outMin) * normalized,
+    normalized,
+  }
+}
+
+export function CurveNode({
+  id,
+  name = 'Curve',
+  curve = DEFAULT_CURVE,
+  source = 'Input',
+  inputNodeId,
+  inputProperty,
+  duration = 1,
+  loop = true,
+  yoyo = false,
+  reverse = false,
+  outMin = 0,
+  outMax = 1,
+}: CurveNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    curve,
+    source,
+    inputNodeId,
+    inputProperty,
+    duration,
+    loop,
+    yoyo,
+    reverse,
+    outMin,
+    outMax,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'CurveNode', baseProps)
+
+  // Legacy input props become a connection into the 'input' port
+  useInputConnection(id, 'input', inputNodeId, inputProperty)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Readable at any timeline time, as long as the input can be too
+  useEffect(() => {
+    if (!id) return
+
+    return registerNodeSampler(id, (time) => {
+      const props = resolveNodeProps(id, propsRef.current)
+      if (props.source === 'Time') return evaluateCurve(props, time)
+      const input = sampleInputAt(id, 'input', time)
+      return input === undefined ? undefined : evaluateCurve(props, time, input)
+    })
+  }, [id])
+
+  // Evaluate every frame at timeline time, after upstream nodes have ticked
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const input = resolveProperty(id, 'input', 0)
+      const result = evaluateCurve(props, ctx.time, input)
+      const value = Math.round(result.value * 1000) / 1000
+      const normalized = Math.round(result.normalized * 1000) / 1000
+
+      // Anti-jitter: values are rounded and only written when they change
+      if (node.outputs.value !== value) node.outputs.value = value
+      if (node.outputs.normalized !== normalized) node.outputs.normalized = normalized
+    })
+  }, [id])
+
+  return null
+}
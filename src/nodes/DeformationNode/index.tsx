@@ -0,0 +1,304 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps } from '@core/resolveProperty'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { TARGET_LAYERS_PROPERTY } from '@core/layerBindings'
+import type { NodePorts, NodePropertySchema } from '../../types'
+
+export type DeformationMode = 'Squash' | 'Stretch' | 'Bounce' | 'Custom'
+
+export type DeformationNodeProps = {
+  id: string
+  name?: string
+
+  // Mode
+  // Stretch: elongates along the axis with speed
+  // Squash: flattens along the axis on impact, then springs back
+  // Bounce: both
+  // Custom: `amount` (-1 squash … 1 stretch) drives it directly
+  mode: DeformationMode
+  squashAxis: 'X' | 'Y' | 'Motion' // Motion follows the velocity direction
+
+  // Inputs (usually connected)
+  velocityX: number // px/s, e.g. PhysicsNode velocityX
+  velocityY: number
+  impact: boolean // rising edge starts a squash, e.g. CollisionNode isColliding
+  amount: number // Custom mode
+
+  // Response
+  stretchAmount: number // deformation reached at referenceSpeed (0.3 = 30% longer)
+  referenceSpeed: number // px/s
+  impactStrength: number // squash on impact (0.3 = 30% shorter)
+  elasticity: number // 0 = settles without overshoot, 1 = wobbly
+  decay: number // seconds for the impact wobble to fall to ~37%
+
+  // Inverse compensation: the cross axis scales by 1/s so the area is preserved
+  preserveVolume: boolean
+
+  // Transform origin (e.g. 50/100 squashes onto the floor)
+  anchorX: number // 0-100 (percentage)
+  anchorY: number // 0-100 (percentage)
+}
+
+// Auto-mapping preset for ObjectPicker
+const AUTO_MAPPING_PRESET = {
+  scaleX: 'scaleX',
+  scaleY: 'scaleY',
+  anchorX: 'scaleAnchorX',
+  anchorY: 'scaleAnchorY',
+}
+
+// Port schema
+export const DEFORMATION_PORTS: NodePorts = {
+  inputs: [
+    { name: 'velocityX', type: 'number', label: 'Velocity X', default: 0 },
+    { name: 'velocityY', type: 'number', label: 'Velocity Y', default: 0 },
+    { name: 'impact', type: 'boolean', label: 'Impact', default: false },
+    { name: 'amount', type: 'number', label: 'Amount', min: -1, max: 1, default: 0 },
+    { name: 'stretchAmount', type: 'number', label: 'Stretch Amount', min: 0, default: 0.3 },
+    { name: 'impactStrength', type: 'number', label: 'Impact Strength', min: 0, max: 1, default: 0.3 },
+    { name: 'elasticity', type: 'number', label: 'Elasticity', min: 0, max: 1, default: 0.5 },
+  ],
+  outputs: [
+    { name: 'scaleX', type: 'number', label: 'Scale X', default: 1 },
+    { name: 'scaleY', type: 'number', label: 'Scale Y', default: 1 },
+    { name: 'deformation', type: 'number', label: 'Deformation', default: 0 },
+    { name: 'angle', type: 'number', label: 'Axis Angle (°)', default: 0 },
+    { name: 'anchorX', type: 'number', label: 'Anchor X', min: 0, max: 100, default: 50 },
+    { name: 'anchorY', type: 'number', label: 'Anchor Y', min: 0, max: 100, default: 100 },
+  ],
+}
+
+registerNodePorts('DeformationNode', DEFORMATION_PORTS)
+
+// Inspector schema
+export const DEFORMATION_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Mode', default: 'Bounce',
+    options: [
+      { value: 'Squash', label: 'Squash (impact)' },
+      { value: 'Stretch', label: 'Stretch (speed)' },
+      { value: 'Bounce', label: 'Bounce (both)' },
+      { value: 'Custom', label: 'Custom (amount input)' },
+    ],
+  },
+  {
+    name: 'squashAxis', label: 'Axis', control: 'enum', group: 'Mode', default: 'Motion',
+    options: [
+      { value: 'X', label: 'X' },
+      { value: 'Y', label: 'Y' },
+      { value: 'Motion', label: 'Follow motion' },
+    ],
+  },
+  { name: 'preserveVolume', label: 'Preserve Volume', control: 'toggle', group: 'Mode', default: true },
+  { name: 'stretchAmount', label: 'Stretch', control: 'slider', group: 'Stretch', default: 0.3, min: 0, max: 1, step: 0.01, visibleWhen: { mode: ['Stretch', 'Bounce', 'Custom'] } },
+  { name: 'referenceSpeed', label: 'At Speed', control: 'number', group: 'Stretch', default: 1000, min: 1, step: 10, unit: ' px/s', visibleWhen: { mode: ['Stretch', 'Bounce'] } },
+  { name: 'amount', label: 'Amount', control: 'slider', group: 'Stretch', default: 0, min: -1, max: 1, step: 0.01, visibleWhen: { mode: ['Custom'] } },
+  { name: 'impactStrength', label: 'Squash', control: 'slider', group: 'Impact', default: 0.3, min: 0, max: 0.9, step: 0.01, visibleWhen: { mode: ['Squash', 'Bounce'] } },
+  { name: 'elasticity', label: 'Elasticity', control: 'slider', group: 'Impact', default: 0.5, min: 0, max: 1, step: 0.01, visibleWhen: { mode: ['Squash', 'Bounce'] } },
+  { name: 'decay', label: 'Decay', control: 'slider', group: 'Impact', default: 0.3, min: 0.05, max: 2, step: 0.05, unit: 's', visibleWhen: { mode: ['Squash', 'Bounce'] } },
+  { name: 'anchorX', label: 'Anchor X', control: 'slider', group: 'Anchor Point', default: 50, min: 0, max: 100, step: 1, unit: '%' },
+  { name: 'anchorY', label: 'Anchor Y', control: 'slider', group: 'Anchor Point', default: 100, min: 0, max: 100, step: 1, unit: '%' },
+  TARGET_LAYERS_PROPERTY,
+]
+
+registerPropertySchema('DeformationNode', DEFORMATION_PROPERTIES)
+
+// Oscillations per second of the impact wobble at full elasticity
+const MAX_WOBBLE_FREQUENCY = 4
+
+// Keeps the along-axis scale positive
+const MIN_AXIS_SCALE = 0.1
+
+/**
+ * Signed deformation `sinceImpact` seconds after an impact (negative = squash).
+ * A damped spring: decays exponentially and oscillates with elasticity.
+ */
+export function impactResponse(
+  sinceImpact: number,
+  props: Pick<DeformationNodeProps, 'impactStrength' | 'elasticity' | 'decay'>
+): number {
+  if (sinceImpact < 0) return 0
+  const envelope = Math.exp(-sinceImpact / Math.max(props.decay, 0.001))
+  const wobble = Math.cos(2 * Math.PI * MAX_WOBBLE_FREQUENCY * props.elasticity * sinceImpact)
+  return -props.impactStrength * envelope * wobble
+}
+
+export type DeformationOutput = {
+  scaleX: number
+  scaleY: number
+  deformation: number // signed: > 0 stretches along the axis, < 0 squashes
+  angle: number // axis direction in degrees (0 = x)
+}
+
+/**
+ * Scale for a deformation along an axis. The along-axis scale is 1 + deformation;
+ * with volume preservation the cross axis scales by its inverse. A motion axis
+ * at an angle is projected onto x/y and renormalized so the area still holds;
+ * the effect fades towards 45°, where x/y scale can't express it (rotate the
+ * layer by the `angle` output to stretch exactly along the motion).
+ */
+export function deformationScale(deformation: number, angle: number, preserveVolume: boolean) {
+  const along = Math.max(MIN_AXIS_SCALE, 1 + deformation)
+  const cross = preserveVolume ? 1 / along : 1
+
+  const radians = (angle * Math.PI) / 180
+  const cos2 = Math.cos(radians) ** 2
+  const sin2 = 1 - cos2
+  let scaleX = along * cos2 + cross * sin2
+  let scaleY = along * sin2 + cross * cos2
+
+  if (preserveVolume) {
+    const area = Math.sqrt(scaleX * scaleY)
+    scaleX /= area
+    scaleY /= area
+  }
+  return { scaleX, scaleY }
+}
+
+/**
+ * Deformation for the current inputs. `sinceImpact` is the seconds since the
+ * last impact, or null when there hasn't been one.
+ */
+export function evaluateDeformation(props: DeformationNodeProps, sinceImpact: number | null): DeformationOutput {
+  const speed = Math.hypot(props.velocityX, props.velocityY)
+  const angle =
+    props.squashAxis === 'X'
+      ? 0
+      : props.squashAxis === 'Y'
+        ? 90
+        : speed > 0
+          ? (Math.atan2(props.velocityY, props.velocityX) * 180) / Math.PI
+          : 90 // At rest, squash vertically (onto the floor)
+
+  const stretch = props.stretchAmount * Math.min(1, speed / Math.max(props.referenceSpeed, 1))
+  const impact = sinceImpact === null ? 0 : impactResponse(sinceImpact, props)
+
+  let deformation: number
+  switch (props.mode) {
+    case 'Stretch':
+      deformation = stretch
+      break
+    case 'Squash':
+      deformation = impact
+      break
+    case 'Custom':
+      deformation = Math.max(-1, Math.min(1, props.amount)) * props.stretchAmount
+      break
+    default:
+      deformation = stretch + impact
+  }
+
+  return { ...deformationScale(deformation, angle, props.preserveVolume), deformation, angle }
+}
+
+export function DeformationNode({
+  id,
+  name = 'Deformation',
+  mode = 'Bounce',
+  squashAxis = 'Motion',
+  velocityX = 0,
+  velocityY = 0,
+  impact = false,
+  amount = 0,
+  stretchAmount = 0.3,
+  referenceSpeed = 1000,
+  impactStrength = 0.3,
+  elasticity = 0.5,
+  decay = 0.3,
+  preserveVolume = true,
+  anchorX = 50,
+  anchorY = 100,
+}: DeformationNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    mode,
+    squashAxis,
+    velocityX,
+    velocityY,
+    impact,
+    amount,
+    stretchAmount,
+    referenceSpeed,
+    impactStrength,
+    elasticity,
+    decay,
+    preserveVolume,
+    anchorX,
+    anchorY,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'DeformationNode', baseProps)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Impact edge detection: when the last impact started and whether the input is still held
+  const impactRef = useRef({ time: null as number | null, wasActive: false })
+
+  // Publish auto-mapping preset
+  useEffect(() => {
+    if (!id) return
+
+    const registerPreset = () => {
+      if (aninodeStore.nodes[id]) {
+        aninodeStore.nodes[id].outputs.__autoMappingPreset = AUTO_MAPPING_PRESET
+      } else {
+        setTimeout(registerPreset, 10)
+      }
+    }
+
+    registerPreset()
+
+    return () => {
+      if (aninodeStore.nodes[id]?.outputs) {
+        delete aninodeStore.nodes[id].outputs.__autoMappingPreset
+      }
+    }
+  }, [id])
+
+  // Evaluate every frame, after the velocity/impact sources have ticked
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const state = impactRef.current
+
+      // Seeking back before the last impact forgets it
+      if (state.time !== null && ctx.time < state.time) {
+        state.time = null
+      }
+      const active = Boolean(props.impact)
+      if (active && !state.wasActive) {
+        state.time = ctx.time
+      }
+      state.wasActive = active
+
+      const output = evaluateDeformation(props, state.time === null ? null : ctx.time - state.time)
+      const scaleX = Math.round(output.scaleX * 1000) / 1000
+      const scaleY = Math.round(output.scaleY * 1000) / 1000
+      const deformation = Math.round(output.deformation * 1000) / 1000
+      const angle = Math.round(output.angle * 10) / 10
+
+      // Anti-jitter: values are rounded and only written when they change
+      if (node.outputs.scaleX !== scaleX) node.outputs.scaleX = scaleX
+      if (node.outputs.scaleY !== scaleY) node.outputs.scaleY = scaleY
+      if (node.outputs.deformation !== deformation) node.outputs.deformation = deformation
+      if (node.outputs.angle !== angle) node.outputs.angle = angle
+      if (node.outputs.anchorX !== props.anchorX) node.outputs.anchorX = props.anchorX
+      if (node.outputs.anchorY !== props.anchorY) node.outputs.anchorY = props.anchorY
+    })
+  }, [id])
+
+  return null
+}
@@ -1,47 +1,164 @@
 import { useEffect, useRef } from 'react'
 import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps } from '@core/resolveProperty'
+import { takeNodeEvents } from '@core/events'
+import { registerNodeSampler } from '@core/timeSampling'
 import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { seededRandom, smoothstep } from '@core/random'
+import { registerPropertySchema } from '@core/propertySchemas'
+import type { NodePorts, NodePropertySchema } from '../../types'
 
 export type LFONodeProps = {
   id: string
   name?: string
 
   // Waveform
-  waveform: 'sine' | 'triangle' | 'square' | 'sawtooth' | 'noise'
+  waveform: 'sine' | 'triangle' | 'square' | 'sawtooth' | 'noise' | 'custom' | 'harmonics'
+  pulseWidth: number // square: share of the cycle spent high (0-1)
+  skew: number // triangle: where in the cycle the peak sits (0 = ramp down, 1 = ramp up)
+  customTable: number[] // custom: drawn 0-1 values spread over one cycle
+  harmonics: number[] // harmonics: amplitude of each partial (fundamental first)
 
   // Timing
+  rate: 'Hz' | 'Tempo'
   frequency: number // Hz (cycles per second)
+  bpm: number // Tempo: beats (quarter notes) per minute
+  division: string // Tempo: note length of one cycle, e.g. '1/4', '1/8.' (dotted), '1/8t' (triplet)
   phase: number // 0-360 degrees offset
 
   // Output range
   min: number // minimum output value
   max: number // maximum output value
+  amplitude: number // wave depth around the middle of the range (1 = min to max)
+  offset: number // shift, as a share of the range
 
   // Controls
   enabled: boolean
-  syncToTimeline: boolean // sync to global timeline
+  syncToTimeline: boolean // deprecated: the LFO always runs on timeline time
 }
 
-// Seeded random for reproducible noise
-const seededRandom = (seed: number): number => {
-  const x = Math.sin(seed * 12.9898 + 78.233) * 43758.5453
-  return x - Math.floor(x)
+// Port schema
+export const LFO_PORTS: NodePorts = {
+  inputs: [
+    { name: 'frequency', type: 'number', label: 'Frequency (Hz)', min: 0, default: 1 },
+    { name: 'bpm', type: 'number', label: 'BPM', min: 1, default: 120 },
+    { name: 'phase', type: 'number', label: 'Phase (°)', min: 0, max: 360, default: 0 },
+    { name: 'pulseWidth', type: 'number', label: 'Pulse Width', min: 0, max: 1, default: 0.5 },
+    { name: 'skew', type: 'number', label: 'Skew', min: 0, max: 1, default: 0.5 },
+    { name: 'min', type: 'number', label: 'Min', default: 0 },
+    { name: 'max', type: 'number', label: 'Max', default: 1 },
+    { name: 'amplitude', type: 'number', label: 'Amplitude', min: 0, default: 1 },
+    { name: 'offset', type: 'number', label: 'Offset', default: 0 },
+    { name: 'enabled', type: 'boolean', label: 'Enabled', default: true },
+    { name: 'retrigger', type: 'event', label: 'Retrigger', default: false },
+  ],
+  outputs: [
+    { name: 'value', type: 'number', label: 'Value', default: 0 },
+    { name: 'normalized', type: 'number', label: 'Normalized', min: 0, max: 1, default: 0 },
+    { name: 'phase', type: 'number', label: 'Phase (°)', min: 0, max: 360, default: 0 },
+  ],
 }
 
-// Smooth interpolation (ease in-out)
-const smoothstep = (t: number): number => t * t * (3 - 2 * t)
+registerNodePorts('LFONode', LFO_PORTS)
 
-// Waveform functions (input: 0-1 normalized time, output: 0-1)
-const waveforms = {
-  sine: (t: number) => (Math.sin(t * Math.PI * 2) + 1) / 2,
-  triangle: (t: number) => {
-    const period = t % 1
-    return period < 0.5 ? period * 2 : 2 - period * 2
+// A rising ramp with a dip, so the custom shape is visibly not a preset waveform
+const DEFAULT_CUSTOM_TABLE = [0, 0.2, 0.45, 0.7, 0.9, 1, 0.6, 0.3]
+
+// Odd partials at 1/n: a softened square
+const DEFAULT_HARMONICS = [1, 0, 0.33, 0, 0.2, 0, 0.14]
+
+// Note lengths for tempo sync; '.' = dotted, 't' = triplet
+export const NOTE_DIVISIONS = [
+  '4/1', '2/1', '1/1', '1/2', '1/2.', '1/2t', '1/4', '1/4.', '1/4t', '1/8', '1/8.', '1/8t', '1/16', '1/16.', '1/16t', '1/32',
+]
+
+function formatDivision(division: string): string {
+  if (division.endsWith('.')) return `${division.slice(0, -1)} dotted`
+  if (division.endsWith('t')) return `${division.slice(0, -1)} triplet`
+  return division
+}
+
+/**
+ * Length of a note division in beats (quarter notes): '1/4' = 1, '1/8.' = 0.75,
+ * '1/8t' = 1/3. Unparseable divisions count as one beat.
+ */
+export function divisionBeats(division: string): number {
+  const match = String(division).trim().match(/^(\d+)\/(\d+)(\.|t)?$/)
+  if (!match || Number(match[2]) === 0) return 1
+  const beats = (4 * Number(match[1])) / Number(match[2])
+  return match[3] === '.' ? beats * 1.5 : match[3] === 't' ? (beats * 2) / 3 : beats
+}
+
+/**
+ * Cycles per second: `frequency` in Hz mode, one cycle per note division at `bpm` in Tempo mode
+ */
+export function lfoFrequency(props: Pick<LFONodeProps, 'rate' | 'frequency' | 'bpm' | 'division'>): number {
+  if (props.rate !== 'Tempo') return props.frequency
+  return props.bpm / 60 / divisionBeats(props.division)
+}
+
+// Inspector schema
+export const LFO_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'waveform', label: 'Waveform', control: 'enum', group: 'Waveform', default: 'sine',
+    options: [
+      { value: 'sine', label: 'Sine' },
+      { value: 'triangle', label: 'Triangle' },
+      { value: 'square', label: 'Square' },
+      { value: 'sawtooth', label: 'Sawtooth' },
+      { value: 'noise', label: 'Noise' },
+      { value: 'custom', label: 'Custom (drawn)' },
+      { value: 'harmonics', label: 'Harmonics' },
+    ],
+  },
+  { name: 'pulseWidth', label: 'Pulse Width', control: 'slider', group: 'Waveform', default: 0.5, min: 0.01, max: 0.99, step: 0.01, visibleWhen: { waveform: ['square'] } },
+  { name: 'skew', label: 'Skew', control: 'slider', group: 'Waveform', default: 0.5, min: 0, max: 1, step: 0.01, visibleWhen: { waveform: ['triangle'] } },
+  { name: 'customTable', label: 'Shape', control: 'bars', group: 'Waveform', default: DEFAULT_CUSTOM_TABLE, visibleWhen: { waveform: ['custom'] } },
+  { name: 'harmonics', label: 'Partials', control: 'bars', group: 'Waveform', default: DEFAULT_HARMONICS, visibleWhen: { waveform: ['harmonics'] } },
+  { name: 'enabled', label: 'Enabled', control: 'toggle', group: 'Waveform', default: true },
+  {
+    name: 'rate', label: 'Rate', control: 'enum', group: 'Timing', default: 'Hz',
+    options: [
+      { value: 'Hz', label: 'Hz' },
+      { value: 'Tempo', label: 'Tempo (BPM)' },
+    ],
   },
-  square: (t: number) => (t % 1 < 0.5 ? 1 : 0),
-  sawtooth: (t: number) => t % 1,
+  { name: 'frequency', label: 'Frequency', control: 'slider', group: 'Timing', default: 1, min: 0.1, max: 10, step: 0.1, unit: ' Hz', visibleWhen: { rate: ['Hz'] } },
+  { name: 'bpm', label: 'BPM', control: 'number', group: 'Timing', default: 120, min: 1, step: 1, visibleWhen: { rate: ['Tempo'] } },
+  {
+    name: 'division', label: 'Division', control: 'enum', group: 'Timing', default: '1/4', visibleWhen: { rate: ['Tempo'] },
+    options: NOTE_DIVISIONS.map((division) => ({ value: division, label: formatDivision(division) })),
+  },
+  { name: 'phase', label: 'Phase', control: 'angle', group: 'Timing', default: 0 },
+  { name: 'min', label: 'Min', control: 'number', group: 'Output Range', default: 0, step: 0.1 },
+  { name: 'max', label: 'Max', control: 'number', group: 'Output Range', default: 1, step: 0.1 },
+  { name: 'amplitude', label: 'Amplitude', control: 'slider', group: 'Output Range', default: 1, min: 0, max: 2, step: 0.01 },
+  { name: 'offset', label: 'Offset', control: 'slider', group: 'Output Range', default: 0, min: -1, max: 1, step: 0.01 },
+]
+
+registerPropertySchema('LFONode', LFO_PROPERTIES)
+
+// Waveform shape settings
+type WaveShape = Pick<LFONodeProps, 'pulseWidth' | 'skew' | 'customTable' | 'harmonics'>
+
+const fraction = (t: number) => t - Math.floor(t)
+
+// Waveform functions (input: normalized time, one cycle per unit; output: 0-1)
+const waveforms: Record<LFONodeProps['waveform'], (t: number, shape: WaveShape) => number> = {
+  sine: (t) => (Math.sin(t * Math.PI * 2) + 1) / 2,
+  // Rises until `skew`, then falls
+  triangle: (t, { skew }) => {
+    const period = fraction(t)
+    const peak = Math.min(1, Math.max(0, skew))
+    if (period < peak) return period / peak
+    return peak >= 1 ? 1 : 1 - (period - peak) / (1 - peak)
+  },
+  square: (t, { pulseWidth }) => (fraction(t) < pulseWidth ? 1 : 0),
+  sawtooth: (t) => fraction(t),
   // Noise that respects frequency: interpolates between random values per cycle
-  noise: (t: number) => {
+  noise: (t) => {
     const cycleIndex = Math.floor(t)
     const cycleProgress = t - cycleIndex
     // Get two consecutive random values based on cycle index
@@ -50,16 +167,87 @@ const waveforms = {
     // Smooth interpolation between them
     return value1 + (value2 - value1) * smoothstep(cycleProgress)
   },
+  // Linear between the drawn values, wrapping from the last back to the first
+  custom: (t, { customTable }) => {
+    const table = Array.isArray(customTable) && customTable.length > 0 ? customTable : DEFAULT_CUSTOM_TABLE
+    const position = fraction(t) * table.length
+    const index = Math.floor(position)
+    const from = Number(table[index]) || 0
+    const to = Number(table[(index + 1) % table.length]) || 0
+    return from + (to - from) * (position - index)
+  },
+  // Sum of sine partials, scaled so the loudest possible peak stays in 0-1
+  harmonics: (t, { harmonics }) => {
+    const partials = Array.isArray(harmonics) ? harmonics : DEFAULT_HARMONICS
+    const total = partials.reduce((sum, amplitude) => sum + Math.abs(Number(amplitude) || 0), 0)
+    if (total === 0) return 0.5
+    const sum = partials.reduce(
+      (acc, amplitude, index) => acc + (Number(amplitude) || 0) * Math.sin(2 * Math.PI * (index + 1) * t),
+      0
+    )
+    return 0.5 + (0.5 * sum) / total
+  },
+}
+
+export type LFOOutput = {
+  value: number
+  normalized: number // position in the min-max range (0-1 unless amplitude/offset push it out)
+  phase: number // 0-360 degrees
+}
+
+/**
+ * LFO output at `time` seconds of timeline time (since the last retrigger, if any).
+ * Pure: the same props and time always give the same value.
+ */
+export function evaluateLFO(
+  props: Pick<LFONodeProps, 'waveform' | 'frequency' | 'phase' | 'min' | 'max' | 'enabled'> &
+    Partial<Omit<LFONodeProps, 'id' | 'name'>>,
+  time: number
+): LFOOutput {
+  if (!props.enabled) {
+    return { value: props.min, normalized: 0, phase: 0 }
+  }
+
+  // Calculate time with phase offset
+  const frequency = lfoFrequency({ rate: 'Hz', bpm: 120, division: '1/4', ...props })
+  const t = time * frequency + props.phase / 360
+
+  // Get waveform value (0-1)
+  const waveformFn = waveforms[props.waveform] || waveforms.sine
+  const wave = waveformFn(t, {
+    pulseWidth: props.pulseWidth ?? 0.5,
+    skew: props.skew ?? 0.5,
+    customTable: props.customTable ?? DEFAULT_CUSTOM_TABLE,
+    harmonics: props.harmonics ?? DEFAULT_HARMONICS,
+  })
+
+  // Amplitude scales the wave around the middle of the range, offset moves it
+  const normalized = 0.5 + (wave - 0.5) * (props.amplitude ?? 1) + (props.offset ?? 0)
+
+  return {
+    value: props.min + normalized * (props.max - props.min),
+    normalized,
+    phase: (t - Math.floor(t)) * 360,
+  }
 }
 
 export function LFONode({
   id,
   name = 'LFO',
   waveform = 'sine',
+  pulseWidth = 0.5,
+  skew = 0.5,
+  customTable = DEFAULT_CUSTOM_TABLE,
+  harmonics = DEFAULT_HARMONICS,
+  rate = 'Hz',
   frequency = 1,
+  bpm = 120,
+  division = '1/4',
   phase = 0,
   min = 0,
   max = 1,
+  amplitude = 1,
+  offset = 0,
   enabled = true,
   syncToTimeline = false,
 }: LFONodeProps) {
@@ -68,10 +256,19 @@ export function LFONode({
     id,
     name,
     waveform,
+    pulseWidth,
+    skew,
+    customTable,
+    harmonics,
+    rate,
     frequency,
+    bpm,
+    division,
     phase,
     min,
     max,
+    amplitude,
+    offset,
     enabled,
     syncToTimeline,
   }
@@ -79,62 +276,50 @@ export function LFONode({
   // Register node
   useNodeRegistration(id, 'LFONode' as any, baseProps)
 
-  // Refs for animation loop
-  const startTimeRef = useRef<number>(0)
-  const lastPublishedRef = useRef<number>(0)
-  const rafIdRef = useRef<number>()
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
 
-  // Main LFO logic
-  useEffect(() => {
-    if (!id || !enabled) {
-      // Publish 0 when disabled
-      if (aninodeStore.nodes[id]) {
-        aninodeStore.nodes[id].outputs.value = min
-        aninodeStore.nodes[id].outputs.normalized = 0
-      }
-      return
-    }
-
-    startTimeRef.current = performance.now()
+  // Timeline time of the last retrigger; the wave restarts from its phase there
+  const retriggerRef = useRef<number | null>(null)
 
-    const update = () => {
-      const now = performance.now()
-      const elapsed = (now - startTimeRef.current) / 1000 // seconds
-
-      // Calculate time with phase offset
-      const phaseOffset = phase / 360
-      const t = elapsed * frequency + phaseOffset
+  // Readable at any timeline time, e.g. by a StaggerNode delaying this LFO
+  useEffect(() => {
+    if (!id) return
 
-      // Get waveform value (0-1)
-      const waveformFn = waveforms[waveform] || waveforms.sine
-      const normalized = waveformFn(t)
+    return registerNodeSampler(id, (time) => {
+      const retrigger = retriggerRef.current
+      const since = retrigger !== null && time >= retrigger ? time - retrigger : time
+      return evaluateLFO(resolveNodeProps(id, propsRef.current), since)
+    })
+  }, [id])
 
-      // Map to output range
-      const value = min + normalized * (max - min)
-      const rounded = Math.round(value * 1000) / 1000
+  // Evaluate every frame at timeline time
+  useEffect(() => {
+    if (!id) return
 
-      // Publish (always for LFO - it's a signal generator)
-      if (rounded !== lastPublishedRef.current || waveform === 'noise') {
-        lastPublishedRef.current = rounded
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
 
-        if (aninodeStore.nodes[id]) {
-          aninodeStore.nodes[id].outputs.value = rounded
-          aninodeStore.nodes[id].outputs.normalized = Math.round(normalized * 1000) / 1000
-          aninodeStore.nodes[id].outputs.phase = (t % 1) * 360
-        }
+      // Seeking back before the retrigger forgets it
+      if (retriggerRef.current !== null && ctx.time < retriggerRef.current) {
+        retriggerRef.current = null
+      }
+      if (takeNodeEvents(id, 'retrigger').length > 0) {
+        retriggerRef.current = ctx.time
       }
 
-      rafIdRef.current = requestAnimationFrame(update)
-    }
-
-    rafIdRef.current = requestAnimationFrame(update)
+      const time = ctx.time - (retriggerRef.current ?? 0)
+      const output = evaluateLFO(resolveNodeProps(id, propsRef.current), time)
+      const value = Math.round(output.value * 1000) / 1000
+      const normalized = Math.round(output.normalized * 1000) / 1000
 
-    return () => {
-      if (rafIdRef.current) {
-        cancelAnimationFrame(rafIdRef.current)
-      }
-    }
-  }, [id, waveform, frequency, phase, min, max, enabled, syncToTimeline])
+      // Only write changed values
+      if (node.outputs.value !== value) node.outputs.value = value
+      if (node.outputs.normalized !== normalized) node.outputs.normalized = normalized
+      if (node.outputs.phase !== output.phase) node.outputs.phase = output.phase
+    })
+  }, [id])
 
   return null
 }
@@ -0,0 +1,263 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps } from '@core/resolveProperty'
+import { fractalNoise, type NoiseDimensions, type NoiseType } from '@core/noise'
+import { registerNodeSampler } from '@core/timeSampling'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { TARGET_LAYERS_PROPERTY, getNodeTargetLayers, type LayerTransform } from '@core/layerBindings'
+import type { NodePorts, NodePropertySchema, SceneAsset } from '../../types'
+
+export type NoiseNodeProps = {
+  id: string
+  name?: string
+
+  // Noise field
+  noiseType: NoiseType
+  dimensions: '1D' | '2D' | '3D'
+  seed: number
+
+  // Sampling
+  mode: 'Single' | 'Per Layer'
+  x: number // sample position (Per Layer: added to each layer's position)
+  y: number
+  scale: number // noise units per unit of x/y (per px in Per Layer mode)
+  speed: number // noise units per second the field moves through
+
+  // Fractal detail
+  octaves: number
+  persistence: number
+  lacunarity: number
+
+  // Output
+  min: number // value at noise -1
+  max: number // value at noise 1
+  enabled: boolean
+
+  // Per Layer mode: what the noise drives on each target layer
+  layerProperty: 'Position' | 'Rotation' | 'Scale' | 'Opacity'
+}
+
+// Port schema
+export const NOISE_PORTS: NodePorts = {
+  inputs: [
+    { name: 'x', type: 'number', label: 'X', default: 0 },
+    { name: 'y', type: 'number', label: 'Y', default: 0 },
+    { name: 'seed', type: 'number', label: 'Seed', default: 1 },
+    { name: 'scale', type: 'number', label: 'Scale', min: 0, default: 0.01 },
+    { name: 'speed', type: 'number', label: 'Speed', default: 1 },
+    { name: 'min', type: 'number', label: 'Min', default: 0 },
+    { name: 'max', type: 'number', label: 'Max', default: 1 },
+    { name: 'enabled', type: 'boolean', label: 'Enabled', default: true },
+  ],
+  outputs: [
+    { name: 'value', type: 'number', label: 'Value', default: 0 },
+    { name: 'normalized', type: 'number', label: 'Normalized', min: 0, max: 1, default: 0.5 },
+  ],
+}
+
+registerNodePorts('NoiseNode', NOISE_PORTS)
+
+// Inspector schema
+export const NOISE_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'noiseType', label: 'Type', control: 'enum', group: 'Noise', default: 'Perlin',
+    options: [
+      { value: 'Perlin', label: 'Perlin' },
+      { value: 'Simplex', label: 'Simplex' },
+      { value: 'Value', label: 'Value' },
+    ],
+  },
+  {
+    name: 'dimensions', label: 'Dimensions', control: 'enum', group: 'Noise', default: '1D',
+    options: [
+      { value: '1D', label: '1D (time)' },
+      { value: '2D', label: '2D (x + time, y)' },
+      { value: '3D', label: '3D (x, y, time)' },
+    ],
+  },
+  { name: 'seed', label: 'Seed', control: 'number', group: 'Noise', default: 1, step: 1 },
+  { name: 'enabled', label: 'Enabled', control: 'toggle', group: 'Noise', default: true },
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Sampling', default: 'Single',
+    options: [
+      { value: 'Single', label: 'Single value' },
+      { value: 'Per Layer', label: 'Per layer (at each layer position)' },
+    ],
+  },
+  { name: 'x', label: 'X', control: 'number', group: 'Sampling', default: 0, step: 1 },
+  { name: 'y', label: 'Y', control: 'number', group: 'Sampling', default: 0, step: 1 },
+  { name: 'scale', label: 'Scale', control: 'number', group: 'Sampling', default: 0.01, min: 0, step: 0.001 },
+  { name: 'speed', label: 'Speed', control: 'slider', group: 'Sampling', default: 1, min: 0, max: 5, step: 0.05, unit: '/s' },
+  { name: 'octaves', label: 'Octaves', control: 'slider', group: 'Detail', default: 1, min: 1, max: 8, step: 1 },
+  { name: 'persistence', label: 'Persistence', control: 'slider', group: 'Detail', default: 0.5, min: 0, max: 1, step: 0.01 },
+  { name: 'lacunarity', label: 'Lacunarity', control: 'slider', group: 'Detail', default: 2, min: 1, max: 4, step: 0.1 },
+  { name: 'min', label: 'Min', control: 'number', group: 'Output Range', default: 0, step: 0.1 },
+  { name: 'max', label: 'Max', control: 'number', group: 'Output Range', default: 1, step: 0.1 },
+  {
+    name: 'layerProperty', label: 'Drives', control: 'enum', group: 'Targets', default: 'Position', visibleWhen: { mode: ['Per Layer'] },
+    options: [
+      { value: 'Position', label: 'Position (x and y drift)' },
+      { value: 'Rotation', label: 'Rotation' },
+      { value: 'Scale', label: 'Scale' },
+      { value: 'Opacity', label: 'Opacity' },
+    ],
+  },
+  { ...TARGET_LAYERS_PROPERTY, visibleWhen: { mode: ['Per Layer'] } },
+]
+
+registerPropertySchema('NoiseNode', NOISE_PROPERTIES)
+
+const DIMENSIONS: Record<NoiseNodeProps['dimensions'], NoiseDimensions> = { '1D': 1, '2D': 2, '3D': 3 }
+
+export type NoiseOutput = {
+  value: number
+  normalized: number // 0-1
+}
+
+/**
+ * Noise at sample position (x, y) and `time` seconds of timeline time. Time
+ * moves along x in 1D and 2D, and is the third axis in 3D, so a 3D field
+ * evolves in place instead of scrolling. `seedOffset` reads an independent
+ * field (a second channel). Pure: the same props, position and time always
+ * give the same value.
+ */
+export function evaluateNoise(props: NoiseNodeProps, time: number, x = props.x, y = props.y, seedOffset = 0): NoiseOutput {
+  if (!props.enabled) {
+    return { value: props.min + (props.max - props.min) / 2, normalized: 0.5 }
+  }
+
+  const dimensions = DIMENSIONS[props.dimensions] ?? 1
+  const drift = time * props.speed
+  const point: [number, number, number] =
+    dimensions === 3 ? [x * props.scale, y * props.scale, drift] : [x * props.scale + drift, y * props.scale, 0]
+
+  const noise = fractalNoise(props.noiseType, props.seed + seedOffset, dimensions, point, props)
+  const normalized = (noise + 1) / 2
+
+  return {
+    value: props.min + normalized * (props.max - props.min),
+    normalized,
+  }
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+/**
+ * Values for one layer in Per Layer mode, sampled at the layer's center.
+ * Position drifts on two independent fields, one per axis.
+ */
+export function noiseLayerValues(props: NoiseNodeProps, layer: SceneAsset, time: number): Partial<LayerTransform> {
+  const cx = props.x + layer.x + layer.width / 2
+  const cy = props.y + layer.y + layer.height / 2
+  const value = round(evaluateNoise(props, time, cx, cy).value)
+
+  switch (props.layerProperty) {
+    case 'Rotation':
+      return { rotation: value }
+    case 'Scale':
+      return { scaleX: value, scaleY: value }
+    case 'Opacity':
+      return { opacity: value }
+    default:
+      return { x: value, y: round(evaluateNoise(props, time, cx, cy, 1).value) }
+  }
+}
+
+export function NoiseNode({
+  id,
+  name = 'Noise',
+  noiseType = 'Perlin',
+  dimensions = '1D',
+  seed = 1,
+  mode = 'Single',
+  x = 0,
+  y = 0,
+  scale = 0.01,
+  speed = 1,
+  octaves = 1,
+  persistence = 0.5,
+  lacunarity = 2,
+  min = 0,
+  max = 1,
+  enabled = true,
+  layerProperty = 'Position',
+}: NoiseNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    noiseType,
+    dimensions,
+    seed,
+    mode,
+    x,
+    y,
+    scale,
+    speed,
+    octaves,
+    persistence,
+    lacunarity,
+    min,
+    max,
+    enabled,
+    layerProperty,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'NoiseNode', baseProps)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Remove the per-layer values on unmount
+  useEffect(() => {
+    if (!id) return
+
+    return () => {
+      const outputs = aninodeStore.nodes[id]?.outputs
+      if (outputs) delete outputs.__layerValues
+    }
+  }, [id])
+
+  // Readable at any timeline time, e.g. by a StaggerNode delaying this noise
+  useEffect(() => {
+    if (!id) return
+
+    return registerNodeSampler(id, (time) => evaluateNoise(resolveNodeProps(id, propsRef.current), time))
+  }, [id])
+
+  // Evaluate every frame at timeline time, after upstream nodes have ticked
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const output = evaluateNoise(props, ctx.time)
+      const value = round(output.value)
+      const normalized = round(output.normalized)
+
+      // Anti-jitter: values are rounded and only written when they change
+      if (node.outputs.value !== value) node.outputs.value = value
+      if (node.outputs.normalized !== normalized) node.outputs.normalized = normalized
+
+      // Per Layer mode: every target layer reads the field at its own position
+      const layerValues: Record<string, Partial<LayerTransform>> = {}
+      if (props.mode === 'Per Layer') {
+        getNodeTargetLayers(node, aninodeStore.scene?.assets ?? []).forEach((layer) => {
+          layerValues[layer.id] = noiseLayerValues(props, layer, ctx.time)
+        })
+      }
+      if (JSON.stringify(node.outputs.__layerValues ?? {}) !== JSON.stringify(layerValues)) {
+        node.outputs.__layerValues = layerValues
+      }
+    })
+  }, [id])
+
+  return null
+}
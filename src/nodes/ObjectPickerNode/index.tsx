@@ -0,0 +1,211 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveItemProperty, resolveNodeProps } from '@core/resolveProperty'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { IDENTITY_LAYER_TRANSFORM, matchesLayer, type LayerTransform } from '@core/layerBindings'
+import type { NodePorts, NodePropertySchema, SceneAsset } from '../../types'
+
+export type PickMode = 'Ids' | 'Name' | 'ZIndex'
+
+export type ObjectPickerNodeProps = {
+  id: string
+  name?: string
+
+  // Selection
+  pickMode: PickMode
+  layerIds: string[] // Ids mode: layer ids (or exact names)
+  namePattern: string // Name mode: matched against SceneAsset.name
+  patternType: 'glob' | 'regex'
+  zIndexMin: number // ZIndex mode: inclusive range
+  zIndexMax: number
+}
+
+// Transform inputs routed onto every picked layer, named after the layer properties they drive
+const ROUTED_INPUTS = Object.keys(IDENTITY_LAYER_TRANSFORM) as (keyof LayerTransform)[]
+
+const ROUTED_INPUT_LABELS: Record<keyof LayerTransform, string> = {
+  x: 'X Offset',
+  y: 'Y Offset',
+  rotation: 'Rotation (°)',
+  rotationAnchorX: 'Rotation Anchor X',
+  rotationAnchorY: 'Rotation Anchor Y',
+  scaleX: 'Scale X',
+  scaleY: 'Scale Y',
+  scaleAnchorX: 'Scale Anchor X',
+  scaleAnchorY: 'Scale Anchor Y',
+  opacity: 'Opacity',
+  hueRotate: 'Hue Rotate (°)',
+  saturate: 'Saturate',
+  brightness: 'Brightness',
+}
+
+// Port schema
+export const OBJECT_PICKER_PORTS: NodePorts = {
+  inputs: ROUTED_INPUTS.map((name) => ({
+    name,
+    type: 'number',
+    label: ROUTED_INPUT_LABELS[name],
+    default: IDENTITY_LAYER_TRANSFORM[name],
+  })),
+  outputs: [
+    { name: 'picked', type: 'any', label: 'Picked Layers', default: [] },
+    { name: 'count', type: 'number', label: 'Count', min: 0, default: 0 },
+  ],
+}
+
+registerNodePorts('ObjectPickerNode', OBJECT_PICKER_PORTS)
+
+// Inspector schema
+export const OBJECT_PICKER_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'pickMode', label: 'Pick By', control: 'enum', group: 'Selection', default: 'Name',
+    options: [
+      { value: 'Ids', label: 'Layer list' },
+      { value: 'Name', label: 'Name pattern' },
+      { value: 'ZIndex', label: 'Z-index range' },
+    ],
+  },
+  { name: 'layerIds', label: 'Layers', control: 'layers', group: 'Selection', default: [], visibleWhen: { pickMode: ['Ids'] } },
+  { name: 'namePattern', label: 'Pattern', control: 'text', group: 'Selection', default: '*', visibleWhen: { pickMode: ['Name'] } },
+  {
+    name: 'patternType', label: 'Syntax', control: 'enum', group: 'Selection', default: 'glob', visibleWhen: { pickMode: ['Name'] },
+    options: [
+      { value: 'glob', label: 'Glob (bird_*)' },
+      { value: 'regex', label: 'Regex (^bird_\\d+$)' },
+    ],
+  },
+  { name: 'zIndexMin', label: 'Z Min', control: 'number', group: 'Selection', default: 0, step: 1, visibleWhen: { pickMode: ['ZIndex'] } },
+  { name: 'zIndexMax', label: 'Z Max', control: 'number', group: 'Selection', default: 100, step: 1, visibleWhen: { pickMode: ['ZIndex'] } },
+]
+
+registerPropertySchema('ObjectPickerNode', OBJECT_PICKER_PROPERTIES)
+
+// Invalid patterns are reported once, not on every frame
+const reportedPatterns = new Set<string>()
+
+/**
+ * Case-insensitive matcher for a whole layer name. Glob supports `*` and `?`.
+ * Returns null for an invalid regex.
+ */
+export function compileNamePattern(pattern: string, type: 'glob' | 'regex'): RegExp | null {
+  if (type === 'regex') {
+    try {
+      return new RegExp(pattern, 'i')
+    } catch {
+      if (!reportedPatterns.has(pattern)) {
+        reportedPatterns.add(pattern)
+        console.warn(`[Aninode] ObjectPicker: invalid name pattern /${pattern}/`)
+      }
+      return null
+    }
+  }
+
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * Layers picked by the current selection. Ids mode keeps the listed order;
+ * the other modes keep scene order, so item indices stay stable.
+ */
+export function pickLayers(
+  props: Pick<ObjectPickerNodeProps, 'pickMode' | 'layerIds' | 'namePattern' | 'patternType' | 'zIndexMin' | 'zIndexMax'>,
+  assets: readonly SceneAsset[]
+): SceneAsset[] {
+  switch (props.pickMode) {
+    case 'Ids':
+      return (props.layerIds ?? [])
+        .map((target) => assets.find((asset) => matchesLayer(asset, target)))
+        .filter((asset, index, picked): asset is SceneAsset => !!asset && picked.indexOf(asset) === index)
+
+    case 'ZIndex': {
+      const min = Math.min(props.zIndexMin, props.zIndexMax)
+      const max = Math.max(props.zIndexMin, props.zIndexMax)
+      return assets.filter((asset) => asset.zIndex >= min && asset.zIndex <= max)
+    }
+
+    default: {
+      const matcher = compileNamePattern(props.namePattern ?? '', props.patternType)
+      return matcher ? assets.filter((asset) => matcher.test(asset.name)) : []
+    }
+  }
+}
+
+// Item id used for per-item overrides, by position in the picked set
+export function pickedItemId(index: number): string {
+  return `item_${index}`
+}
+
+export function ObjectPickerNode({
+  id,
+  name = 'Object Picker',
+  pickMode = 'Name',
+  layerIds = [],
+  namePattern = '*',
+  patternType = 'glob',
+  zIndexMin = 0,
+  zIndexMax = 100,
+}: ObjectPickerNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    pickMode,
+    layerIds,
+    namePattern,
+    patternType,
+    zIndexMin,
+    zIndexMax,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'ObjectPickerNode', baseProps)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Pick layers and route inputs every frame, after the connected nodes have ticked
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, () => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const picked = pickLayers(resolveNodeProps(id, propsRef.current), aninodeStore.scene?.assets ?? [])
+      const pickedIds = picked.map((layer) => layer.id)
+
+      // Only write a changed selection
+      if (!Array.isArray(node.outputs.picked) || node.outputs.picked.join(',') !== pickedIds.join(',')) {
+        node.outputs.picked = pickedIds
+        node.outputs.count = pickedIds.length
+      }
+
+      // Per-layer values: an item_N override wins over the shared connected input
+      const layerValues: Record<string, Partial<LayerTransform>> = {}
+      picked.forEach((layer, index) => {
+        const values: Partial<LayerTransform> = {}
+        ROUTED_INPUTS.forEach((input) => {
+          const value = resolveItemProperty(id, pickedItemId(index), input, undefined)
+          if (typeof value === 'number' && Number.isFinite(value)) {
+            values[input] = value
+          }
+        })
+        layerValues[layer.id] = values
+      })
+
+      if (JSON.stringify(node.outputs.__layerValues) !== JSON.stringify(layerValues)) {
+        node.outputs.__layerValues = layerValues
+      }
+    })
+  }, [id])
+
+  // Invisible component (headless node)
+  return null
+}
@@ -1,7 +1,22 @@
 import { useEffect, useRef } from 'react'
-import gsap from 'gsap'
 import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps, resolveProperty } from '@core/resolveProperty'
+import { tweenValue, type EaseSpec } from '@core/easing'
 import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { TARGET_LAYERS_PROPERTY } from '@core/layerBindings'
+import {
+  advanceTweenPlayhead,
+  createTweenPlayhead,
+  TWEEN_TRIGGER_PORT,
+  TWEEN_TRIGGER_PROPERTY,
+  type TweenTriggerAction,
+} from '@core/tweenTrigger'
+import { takeNodeEvents } from '@core/events'
+import type { NodePorts, NodePropertySchema } from '../../types'
+import { useInputConnection } from '@core/useInputConnection'
 
 export type OpacityNodeProps = {
   id: string
@@ -20,7 +35,8 @@ export type OpacityNodeProps = {
   duration: number // seconds
   loop: boolean
   yoyo: boolean
-  easing: 'linear' | 'easeIn' | 'easeOut' | 'easeInOut'
+  easing: EaseSpec // easing name, easing preset or custom curve
+  triggerAction: TweenTriggerAction // what a trigger event does to the tween
 
   // Preset effects
   effect: 'none' | 'fadeIn' | 'fadeOut' | 'pulse' | 'blink'
@@ -40,34 +56,152 @@ const AUTO_MAPPING_PRESET = {
   opacity: 'opacity',
 }
 
-// Map easing names to GSAP equivalents
-const GSAP_EASING_MAP: Record<string, string> = {
-  linear: 'none',
-  easeIn: 'power2.in',
-  easeOut: 'power2.out',
-  easeInOut: 'power2.inOut',
+// Port schema
+export const OPACITY_PORTS: NodePorts = {
+  inputs: [
+    { name: 'input', type: 'number', label: 'Input', default: 0 },
+    TWEEN_TRIGGER_PORT,
+    { name: 'staticOpacity', type: 'number', label: 'Opacity', min: 0, max: 1, default: 1 },
+    { name: 'baseOpacity', type: 'number', label: 'Base Opacity', min: 0, max: 1, default: 0.5 },
+    { name: 'multiplier', type: 'number', label: 'Multiplier', default: 1 },
+    { name: 'offset', type: 'number', label: 'Offset', default: 0 },
+  ],
+  outputs: [
+    { name: 'opacity', type: 'number', label: 'Opacity', min: 0, max: 1, default: 1 },
+  ],
+}
+
+registerNodePorts('OpacityNode', OPACITY_PORTS)
+
+// Defaults, shared by the inspector schema and the component
+const OPACITY_DEFAULTS: Omit<OpacityNodeProps, 'id' | 'name' | 'triggerAction' | 'inputNodeId' | 'inputProperty'> = {
+  mode: 'Animated',
+  staticOpacity: 1,
+  animationEnabled: true,
+  startOpacity: 0.3,
+  endOpacity: 1,
+  duration: 1,
+  loop: true,
+  yoyo: true,
+  easing: 'easeInOut',
+  effect: 'none',
+  blinkSpeed: 2,
+  baseOpacity: 0.5,
+  multiplier: 0.5,
+  offset: 0,
+  clamp: true,
+}
+
+// Inspector schema
+export const OPACITY_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Mode', default: OPACITY_DEFAULTS.mode,
+    options: [
+      { value: 'Static', label: 'Static' },
+      { value: 'Animated', label: 'Animated' },
+      { value: 'Controlled', label: 'Controlled' },
+    ],
+  },
+  { name: 'staticOpacity', label: 'Opacity', control: 'slider', group: 'Static', default: OPACITY_DEFAULTS.staticOpacity, min: 0, max: 1, step: 0.01, visibleWhen: { mode: ['Static'] } },
+  { name: 'animationEnabled', label: 'Enabled', control: 'toggle', group: 'Animation', default: OPACITY_DEFAULTS.animationEnabled, visibleWhen: { mode: ['Animated'] } },
+  {
+    name: 'effect', label: 'Effect', control: 'enum', group: 'Animation', default: OPACITY_DEFAULTS.effect, visibleWhen: { mode: ['Animated'] },
+    options: [
+      { value: 'none', label: 'None (Custom)' },
+      { value: 'fadeIn', label: 'Fade In' },
+      { value: 'fadeOut', label: 'Fade Out' },
+      { value: 'pulse', label: 'Pulse' },
+      { value: 'blink', label: 'Blink' },
+    ],
+  },
+  { name: 'startOpacity', label: 'Start', control: 'slider', group: 'Animation', default: OPACITY_DEFAULTS.startOpacity, min: 0, max: 1, step: 0.01, visibleWhen: { mode: ['Animated'], effect: ['none'] } },
+  { name: 'endOpacity', label: 'End', control: 'slider', group: 'Animation', default: OPACITY_DEFAULTS.endOpacity, min: 0, max: 1, step: 0.01, visibleWhen: { mode: ['Animated'], effect: ['none'] } },
+  { name: 'blinkSpeed', label: 'Blink Speed', control: 'slider', group: 'Animation', default: OPACITY_DEFAULTS.blinkSpeed, min: 0.5, max: 10, step: 0.5, unit: '/s', visibleWhen: { mode: ['Animated'], effect: ['blink'] } },
+  { name: 'duration', label: 'Duration', control: 'slider', group: 'Animation', default: OPACITY_DEFAULTS.duration, min: 0.1, max: 5, step: 0.1, unit: 's', visibleWhen: { mode: ['Animated'] } },
+  { name: 'loop', label: 'Loop', control: 'toggle', group: 'Animation', default: OPACITY_DEFAULTS.loop, visibleWhen: { mode: ['Animated'] } },
+  { name: 'yoyo', label: 'Yoyo', control: 'toggle', group: 'Animation', default: OPACITY_DEFAULTS.yoyo, visibleWhen: { mode: ['Animated'] } },
+  { name: 'easing', label: 'Easing', control: 'easing', group: 'Animation', default: OPACITY_DEFAULTS.easing, visibleWhen: { mode: ['Animated'], effect: ['none'] } },
+  TWEEN_TRIGGER_PROPERTY,
+  { name: 'baseOpacity', label: 'Base Opacity', control: 'slider', group: 'Input', default: OPACITY_DEFAULTS.baseOpacity, min: 0, max: 1, step: 0.01, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'multiplier', label: 'Multiplier', control: 'slider', group: 'Input', default: OPACITY_DEFAULTS.multiplier, min: 0, max: 1, step: 0.01, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'offset', label: 'Offset', control: 'number', group: 'Input', default: OPACITY_DEFAULTS.offset, step: 0.01, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'clamp', label: 'Clamp 0-1', control: 'toggle', group: 'Input', default: OPACITY_DEFAULTS.clamp, visibleWhen: { mode: ['Controlled'] } },
+  TARGET_LAYERS_PROPERTY,
+]
+
+registerPropertySchema('OpacityNode', OPACITY_PROPERTIES)
+
+// Preset effects replace the animated range and timing
+function getEffectTiming(props: OpacityNodeProps) {
+  const timing = {
+    start: props.startOpacity,
+    end: props.endOpacity,
+    duration: props.duration,
+    loop: props.loop,
+    yoyo: props.yoyo,
+  }
+
+  switch (props.effect) {
+    case 'fadeIn':
+      return { ...timing, start: 0, end: 1, loop: false, yoyo: false }
+    case 'fadeOut':
+      return { ...timing, start: 1, end: 0, loop: false, yoyo: false }
+    case 'pulse':
+      return { ...timing, start: 0.3, end: 1, loop: true, yoyo: true }
+    case 'blink':
+      return { ...timing, start: 0, end: 1, duration: 1 / props.blinkSpeed / 2, loop: true, yoyo: true }
+    default:
+      return timing
+  }
+}
+
+/**
+ * Opacity at `time` seconds of timeline time (before clamping).
+ * Pure: the same props, time and input always give the same opacity.
+ */
+export function evaluateOpacity(props: OpacityNodeProps, time: number, input = 0): number {
+  switch (props.mode) {
+    case 'Animated': {
+      const timing = getEffectTiming(props)
+      if (!props.animationEnabled) return timing.start
+
+      return tweenValue(timing.start, timing.end, time, timing.duration, {
+        loop: timing.loop,
+        yoyo: timing.yoyo,
+        ease: props.easing,
+      })
+    }
+
+    case 'Controlled':
+      // Formula: baseOpacity + (input * multiplier) + offset
+      return props.baseOpacity + input * props.multiplier + props.offset
+
+    default:
+      return props.staticOpacity
+  }
 }
 
 export function OpacityNode({
   id,
   name = 'Opacity',
-  mode = 'Static',
-  staticOpacity = 1,
-  animationEnabled = true,
-  startOpacity = 0,
-  endOpacity = 1,
-  duration = 1,
-  loop = false,
-  yoyo = false,
-  easing = 'easeInOut',
-  effect = 'none',
-  blinkSpeed = 2,
+  mode = OPACITY_DEFAULTS.mode,
+  staticOpacity = OPACITY_DEFAULTS.staticOpacity,
+  animationEnabled = OPACITY_DEFAULTS.animationEnabled,
+  startOpacity = OPACITY_DEFAULTS.startOpacity,
+  endOpacity = OPACITY_DEFAULTS.endOpacity,
+  duration = OPACITY_DEFAULTS.duration,
+  loop = OPACITY_DEFAULTS.loop,
+  yoyo = OPACITY_DEFAULTS.yoyo,
+  easing = OPACITY_DEFAULTS.easing,
+  triggerAction = 'None',
+  effect = OPACITY_DEFAULTS.effect,
+  blinkSpeed = OPACITY_DEFAULTS.blinkSpeed,
   inputNodeId,
   inputProperty,
-  baseOpacity = 0.5,
-  multiplier = 1,
-  offset = 0,
-  clamp = true,
+  baseOpacity = OPACITY_DEFAULTS.baseOpacity,
+  multiplier = OPACITY_DEFAULTS.multiplier,
+  offset = OPACITY_DEFAULTS.offset,
+  clamp = OPACITY_DEFAULTS.clamp,
 }: OpacityNodeProps) {
   // Reconstruct props for registration
   const baseProps = {
@@ -82,6 +216,7 @@ export function OpacityNode({
     loop,
     yoyo,
     easing,
+    triggerAction,
     effect,
     blinkSpeed,
     inputNodeId,
@@ -95,10 +230,14 @@ export function OpacityNode({
   // Register node
   useNodeRegistration(id, 'OpacityNode' as any, baseProps)
 
-  // Animation state - plain object for GSAP
-  const stateRef = useRef({ opacity: staticOpacity })
-  const tweenRef = useRef<gsap.core.Tween | null>(null)
-  const lastPublished = useRef<number>(staticOpacity)
+  // Legacy input props become a connection into the 'input' port
+  useInputConnection(id, 'input', inputNodeId, inputProperty)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Own tween playhead, used when a trigger drives the animation
+  const playheadRef = useRef(createTweenPlayhead())
 
   // Publish auto-mapping preset
   useEffect(() => {
@@ -121,149 +260,29 @@ export function OpacityNode({
     }
   }, [id])
 
-  // Main opacity logic
+  // Evaluate every frame at timeline time, after upstream nodes have ticked
   useEffect(() => {
     if (!id) return
 
-    // Kill any existing tween
-    if (tweenRef.current) {
-      tweenRef.current.kill()
-      tweenRef.current = null
-    }
-
-    // Helper: Publish opacity value
-    const publishOpacity = (value: number) => {
-      let finalValue = Math.round(value * 1000) / 1000
-      if (clamp) {
-        finalValue = Math.max(0, Math.min(1, finalValue))
-      }
-
-      if (finalValue !== lastPublished.current) {
-        lastPublished.current = finalValue
-        if (aninodeStore.nodes[id]) {
-          aninodeStore.nodes[id].outputs.opacity = finalValue
-        }
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const input = resolveProperty(id, 'input', 0)
+      const fired = takeNodeEvents(id, 'trigger').length > 0
+      const timing = getEffectTiming(props)
+      const span = timing.loop ? Infinity : timing.duration
+      const time = advanceTweenPlayhead(playheadRef.current, props.triggerAction, fired, ctx.time, span)
+      let opacity = Math.round(evaluateOpacity(props, time, input) * 1000) / 1000
+      if (props.clamp) {
+        opacity = Math.max(0, Math.min(1, opacity))
       }
-    }
-
-    // MODE 1: Static
-    if (mode === 'Static') {
-      stateRef.current.opacity = staticOpacity
-      publishOpacity(staticOpacity)
-      return
-    }
-
-    // MODE 2: Animated
-    if (mode === 'Animated' && animationEnabled) {
-      // Handle preset effects
-      let effectStart = startOpacity
-      let effectEnd = endOpacity
-      let effectDuration = duration
-      let effectLoop = loop
-      let effectYoyo = yoyo
-
-      switch (effect) {
-        case 'fadeIn':
-          effectStart = 0
-          effectEnd = 1
-          effectLoop = false
-          effectYoyo = false
-          break
-        case 'fadeOut':
-          effectStart = 1
-          effectEnd = 0
-          effectLoop = false
-          effectYoyo = false
-          break
-        case 'pulse':
-          effectStart = 0.3
-          effectEnd = 1
-          effectLoop = true
-          effectYoyo = true
-          break
-        case 'blink':
-          effectStart = 0
-          effectEnd = 1
-          effectDuration = 1 / blinkSpeed / 2
-          effectLoop = true
-          effectYoyo = true
-          break
-      }
-
-      stateRef.current.opacity = effectStart
-      const gsapEasing = GSAP_EASING_MAP[easing] || 'power2.inOut'
-
-      tweenRef.current = gsap.to(stateRef.current, {
-        opacity: effectEnd,
-        duration: effectDuration,
-        ease: gsapEasing,
-        repeat: effectLoop ? -1 : 0,
-        yoyo: effectYoyo,
-        onUpdate: () => publishOpacity(stateRef.current.opacity),
-      })
-
-      return () => {
-        if (tweenRef.current) {
-          tweenRef.current.kill()
-          tweenRef.current = null
-        }
-      }
-    }
 
-    // MODE 3: Controlled
-    if (mode === 'Controlled' && inputNodeId && inputProperty) {
-      const updateFromInput = () => {
-        const inputNode = aninodeStore.nodes[inputNodeId]
-        if (!inputNode) return
-
-        const inputValue = inputNode.outputs[inputProperty]
-        if (inputValue !== undefined) {
-          // Formula: baseOpacity + (inputValue * multiplier) + offset
-          const result = baseOpacity + (inputValue * multiplier) + offset
-          stateRef.current.opacity = result
-          publishOpacity(result)
-        }
-      }
-
-      updateFromInput()
-      const interval = setInterval(updateFromInput, 16)
-
-      return () => {
-        clearInterval(interval)
-      }
-    }
-
-    // Fallback
-    publishOpacity(stateRef.current.opacity)
-  }, [
-    id,
-    mode,
-    staticOpacity,
-    animationEnabled,
-    startOpacity,
-    endOpacity,
-    duration,
-    loop,
-    yoyo,
-    easing,
-    effect,
-    blinkSpeed,
-    inputNodeId,
-    inputProperty,
-    baseOpacity,
-    multiplier,
-    offset,
-    clamp,
-  ])
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (tweenRef.current) {
-        tweenRef.current.kill()
-      }
-    }
-  }, [])
+      // Anti-jitter: values are rounded and only written when they change
+      if (node.outputs.opacity !== opacity) node.outputs.opacity = opacity
+    })
+  }, [id])
 
   return null
 }
@@ -5,12 +5,19 @@
  * 1. PhysicsNode - For use within React Three Fiber + Rapier context
  * 2. PhysicsNodeFallback - For use in DOM/testing environments (NodeTester)
  * 
- * The Fallback version runs a simple 2D physics simulation using requestAnimationFrame,
+ * The Fallback version runs a simple 2D physics simulation on the shared frame scheduler,
+ * stepped deterministically up to the current timeline time,
  * while the main PhysicsNode leverages Rapier's WASM-based physics engine.
  */
 
 import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { takeNodeEvents } from '@core/events'
 import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { TARGET_LAYERS_PROPERTY } from '@core/layerBindings'
+import type { NodePorts, NodePropertySchema } from '../../types'
 import { useCallback, useEffect, useRef } from 'react'
 
 // ============================================================================
@@ -34,7 +41,7 @@ export type ForceMode =
   | 'Attractor'    // Pulls objects toward a point
   | 'Repulsor'     // Pushes objects away
   | 'Directional'  // Constant force in a direction
-  | 'Impulse'      // One-time force application
+  | 'Impulse'      // Velocity kick on each `impulse` event
 
 export type PhysicsNodeProps = {
   id: string
@@ -179,6 +186,88 @@ const AUTO_MAPPING_PRESET = {
   rotationZ: 'rotationZ',
 }
 
+// Port schema
+export const PHYSICS_PORTS: NodePorts = {
+  inputs: [
+    { name: 'impulse', type: 'event', label: 'Impulse', default: false },
+    { name: 'mass', type: 'number', label: 'Mass', min: 0, default: 1 },
+    { name: 'gravityScale', type: 'number', label: 'Gravity Scale', default: 1 },
+    { name: 'forceStrength', type: 'number', label: 'Force Strength', default: 10 },
+    { name: 'forceDirectionX', type: 'number', label: 'Force Dir X', min: -1, max: 1, default: 0 },
+    { name: 'forceDirectionY', type: 'number', label: 'Force Dir Y', min: -1, max: 1, default: -1 },
+    { name: 'attractorTargetX', type: 'number', label: 'Attractor X', default: 0 },
+    { name: 'attractorTargetY', type: 'number', label: 'Attractor Y', default: 0 },
+  ],
+  outputs: [
+    { name: 'x', type: 'number', label: 'X', default: 0 },
+    { name: 'y', type: 'number', label: 'Y', default: 0 },
+    { name: 'positionX', type: 'number', label: 'Position X', default: 0 },
+    { name: 'positionY', type: 'number', label: 'Position Y', default: 0 },
+    { name: 'velocityX', type: 'number', label: 'Velocity X', default: 0 },
+    { name: 'velocityY', type: 'number', label: 'Velocity Y', default: 0 },
+    { name: 'speed', type: 'number', label: 'Speed', min: 0, default: 0 },
+    { name: 'rotation', type: 'number', label: 'Rotation (°)', default: 0 },
+    { name: 'rotationZ', type: 'number', label: 'Rotation Z (°)', default: 0 },
+  ],
+}
+
+registerNodePorts('PhysicsNode', PHYSICS_PORTS)
+
+// Inspector schema
+export const PHYSICS_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Body', default: 'Dynamic',
+    options: [
+      { value: 'Dynamic', label: 'Dynamic' },
+      { value: 'Kinematic', label: 'Kinematic' },
+      { value: 'Static', label: 'Static' },
+      { value: 'Sensor', label: 'Sensor' },
+    ],
+  },
+  { name: 'mass', label: 'Mass', control: 'slider', group: 'Body', default: 1, min: 0.1, max: 10, step: 0.1 },
+  { name: 'friction', label: 'Friction', control: 'slider', group: 'Body', default: 0.5, min: 0, max: 1, step: 0.01 },
+  { name: 'restitution', label: 'Bounciness', control: 'slider', group: 'Body', default: 0.5, min: 0, max: 1, step: 0.01 },
+  { name: 'linearDamping', label: 'Air Resistance', control: 'slider', group: 'Body', default: 0.1, min: 0, max: 1, step: 0.01 },
+  {
+    name: 'forceMode', label: 'Force', control: 'enum', group: 'Forces', default: 'Gravity',
+    options: [
+      { value: 'None', label: 'None' },
+      { value: 'Gravity', label: 'Gravity' },
+      { value: 'Attractor', label: 'Attractor' },
+      { value: 'Repulsor', label: 'Repulsor' },
+      { value: 'Directional', label: 'Directional' },
+      { value: 'Impulse', label: 'Impulse' },
+    ],
+  },
+  { name: 'gravityScale', label: 'Gravity Scale', control: 'slider', group: 'Forces', default: 1, min: 0, max: 3, step: 0.1, visibleWhen: { forceMode: ['Gravity'] } },
+  { name: 'forceStrength', label: 'Strength', control: 'number', group: 'Forces', default: 10, step: 1, visibleWhen: { forceMode: ['Attractor', 'Repulsor', 'Directional', 'Impulse'] } },
+  { name: 'forceDirectionX', label: 'Direction X', control: 'slider', group: 'Forces', default: 0, min: -1, max: 1, step: 0.01, visibleWhen: { forceMode: ['Directional', 'Impulse'] } },
+  { name: 'forceDirectionY', label: 'Direction Y', control: 'slider', group: 'Forces', default: -1, min: -1, max: 1, step: 0.01, visibleWhen: { forceMode: ['Directional', 'Impulse'] } },
+  { name: 'attractorTargetX', label: 'Target X', control: 'number', group: 'Forces', default: 0, step: 1, visibleWhen: { forceMode: ['Attractor', 'Repulsor'] } },
+  { name: 'attractorTargetY', label: 'Target Y', control: 'number', group: 'Forces', default: 0, step: 1, visibleWhen: { forceMode: ['Attractor', 'Repulsor'] } },
+  { name: 'attractorRadius', label: 'Radius', control: 'number', group: 'Forces', default: 10, min: 0, step: 1, visibleWhen: { forceMode: ['Attractor', 'Repulsor'] } },
+  {
+    name: 'attractorFalloff', label: 'Falloff', control: 'enum', group: 'Forces', default: 'Quadratic', visibleWhen: { forceMode: ['Attractor', 'Repulsor'] },
+    options: [
+      { value: 'Linear', label: 'Linear' },
+      { value: 'Quadratic', label: 'Quadratic' },
+      { value: 'Constant', label: 'Constant' },
+    ],
+  },
+  { name: 'initialPositionX', label: 'Position X', control: 'number', group: 'Initial State', default: 0, step: 1 },
+  { name: 'initialPositionY', label: 'Position Y', control: 'number', group: 'Initial State', default: 0, step: 1 },
+  { name: 'initialVelocityX', label: 'Velocity X', control: 'number', group: 'Initial State', default: 50, step: 1 },
+  { name: 'initialVelocityY', label: 'Velocity Y', control: 'number', group: 'Initial State', default: -100, step: 1 },
+  { name: 'initialRotation', label: 'Rotation', control: 'angle', group: 'Initial State', default: 0 },
+  { name: 'pixelScale', label: 'Pixel Scale', control: 'number', group: 'Output', default: 1, min: 0, step: 0.1 },
+  TARGET_LAYERS_PROPERTY,
+]
+
+registerPropertySchema('PhysicsNode', PHYSICS_PROPERTIES)
+
+// Fixed simulation step, independent of the timeline fps, so every seek replays identically
+const PHYSICS_STEP = 1 / 120
+
 // ============================================================================
 // MAIN PHYSICS NODE (For R3F + Rapier context)
 // ============================================================================
@@ -234,7 +323,10 @@ export function PhysicsNode(props: PhysicsNodeProps) {
 /**
  * PhysicsNodeFallback - Simple 2D physics for DOM testing
  * 
- * Uses requestAnimationFrame for basic physics simulation.
+ * Steps a basic physics simulation on the shared frame scheduler.
+ * The simulation always starts from the initial state at time 0 and advances in
+ * fixed steps up to the timeline time, so seeking backwards re-simulates from
+ * the start and any time reproduces the same state.
  * Perfect for NodeTester and DOM-based animations.
  */
 export function PhysicsNodeFallback(props: PhysicsNodeProps) {
@@ -275,6 +367,10 @@ export function PhysicsNodeFallback(props: PhysicsNodeProps) {
     vy: initialVelocityY,
     rotation: 0,
   })
+  const stepsRef = useRef(0)
+  // Impulse events per simulation step, replayed on every re-simulation; seeking
+  // back drops the ones after the new time, so this never outgrows the timeline
+  const impulseStepsRef = useRef(new Map<number, number>())
 
   const lastPublished = useRef({
     x: 0,
@@ -284,8 +380,6 @@ export function PhysicsNodeFallback(props: PhysicsNodeProps) {
     rotation: 0,
   })
 
-  const animationFrameRef = useRef<number | null>(null)
-
   // Register auto-mapping preset
   useEffect(() => {
     if (!id) return
@@ -354,7 +448,7 @@ export function PhysicsNodeFallback(props: PhysicsNodeProps) {
   }, [id, outputPosition, outputVelocity, outputRotation])
 
   // Physics simulation
-  const simulate = useCallback((deltaTime: number) => {
+  const simulate = useCallback((deltaTime: number, impulses = 0) => {
     if (mode !== 'Dynamic') return
 
     const state = stateRef.current
@@ -403,6 +497,12 @@ export function PhysicsNodeFallback(props: PhysicsNodeProps) {
       }
     }
 
+    // Impulse: an instant velocity change per event, in force direction
+    if (forceMode === 'Impulse' && impulses > 0) {
+      state.vx += (forceDirectionX * forceStrength * pixelScale * impulses) / mass
+      state.vy += (forceDirectionY * forceStrength * pixelScale * impulses) / mass
+    }
+
     // Apply acceleration
     state.vx += (ax / mass) * dt
     state.vy += (ay / mass) * dt
@@ -438,8 +538,6 @@ export function PhysicsNodeFallback(props: PhysicsNodeProps) {
     if (Math.abs(state.vx) > 0.1 || Math.abs(state.vy) > 0.1) {
       state.rotation = Math.atan2(state.vy, state.vx) * (180 / Math.PI)
     }
-
-    publishValues()
   }, [
     mode,
     mass,
@@ -455,42 +553,52 @@ export function PhysicsNodeFallback(props: PhysicsNodeProps) {
     attractorRadius,
     attractorFalloff,
     pixelScale,
-    publishValues,
   ])
 
-  // Animation loop
+  // Back to the state at timeline time 0
+  const resetState = useCallback(() => {
+    stateRef.current = {
+      x: initialPositionX,
+      y: initialPositionY,
+      vx: initialVelocityX,
+      vy: initialVelocityY,
+      rotation: 0,
+    }
+    stepsRef.current = 0
+  }, [initialPositionX, initialPositionY, initialVelocityX, initialVelocityY])
+
+  // Simulate up to the timeline time; any prop change replays from time 0
   useEffect(() => {
     if (!id) return
 
-    let lastTime = performance.now()
-
-    const animate = (currentTime: number) => {
-      const deltaTime = currentTime - lastTime
-      lastTime = currentTime
-
-      if (deltaTime < 100) {
-        simulate(deltaTime)
+    resetState()
+
+    return frameScheduler.register(id, (ctx) => {
+      const targetSteps = Math.floor(ctx.time / PHYSICS_STEP + 1e-6)
+      const impulseSteps = impulseStepsRef.current
+      if (targetSteps < stepsRef.current) {
+        resetState()
+        // Impulses after the new time have not happened yet
+        impulseSteps.forEach((_, step) => {
+          if (step >= targetSteps) impulseSteps.delete(step)
+        })
       }
 
-      animationFrameRef.current = requestAnimationFrame(animate)
-    }
-
-    animationFrameRef.current = requestAnimationFrame(animate)
-
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current)
+      // New impulses land on the next step simulated (the last one of this frame
+      // when catching up after a seek, so they don't move back in time)
+      const impulses = takeNodeEvents(id, 'impulse').length
+      if (impulses > 0) {
+        const step = Math.max(stepsRef.current, targetSteps - 1)
+        impulseSteps.set(step, (impulseSteps.get(step) ?? 0) + impulses)
       }
-    }
-  }, [id, simulate])
 
-  // Reset on initial value change
-  useEffect(() => {
-    stateRef.current.x = initialPositionX
-    stateRef.current.y = initialPositionY
-    stateRef.current.vx = initialVelocityX
-    stateRef.current.vy = initialVelocityY
-  }, [initialPositionX, initialPositionY, initialVelocityX, initialVelocityY])
+      while (stepsRef.current < targetSteps) {
+        simulate(PHYSICS_STEP * 1000, impulseSteps.get(stepsRef.current) ?? 0)
+        stepsRef.current++
+      }
+      publishValues()
+    })
+  }, [id, simulate, resetState, publishValues])
 
   return null
 }
@@ -0,0 +1,437 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps, resolveProperty } from '@core/resolveProperty'
+import { getEase, tweenProgress, tweenValue, type EaseSpec } from '@core/easing'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { samplePath } from '@core/bezierPath'
+import { TARGET_LAYERS_PROPERTY, getNodeTargetLayers, type LayerTransform } from '@core/layerBindings'
+import type { LayerAnimData, NodePorts, NodePropertySchema, SceneAsset } from '../../types'
+import { useInputConnection } from '@core/useInputConnection'
+
+export type PositionNodeProps = {
+  id: string
+  name?: string
+
+  // Mode
+  mode: 'Static' | 'Animated' | 'Controlled' | 'Path' | 'Orbit'
+
+  // Relative: x/y offset the layer from its scene position
+  // Absolute: x/y are scene coordinates the layer's anchor is placed at
+  placement: 'Relative' | 'Absolute'
+
+  // Static mode
+  staticX: number // px
+  staticY: number
+
+  // Animated mode
+  animationEnabled: boolean
+  startX: number
+  startY: number
+  endX: number
+  endY: number
+  duration: number // seconds
+  loop: boolean
+  yoyo: boolean // ping-pong
+  easing: EaseSpec // easing name, easing preset or custom curve
+
+  // Controlled mode
+  inputNodeId?: string
+  inputProperty?: string
+  axis: 'X' | 'Y' | 'Both'
+  baseX: number // position before the input is applied
+  baseY: number
+  multiplier: number
+  offset: number
+
+  // Path mode
+  path: LayerAnimData
+
+  // Orbit mode
+  centerX: number
+  centerY: number
+  radiusX: number
+  radiusY: number
+  orbitSpeed: number // revolutions per second
+  orbitStartAngle: number // degrees, 0 = right of the center
+  direction: 'CW' | 'CCW'
+
+  // Point of the layer placed at x/y in Absolute placement
+  anchorX: number // 0-100 (percentage)
+  anchorY: number // 0-100 (percentage)
+}
+
+export const DEFAULT_POSITION_PATH: LayerAnimData = {
+  points: [
+    { x: 0, y: 0, hx: 60, hy: -80 },
+    { x: 200, y: 0, hx: 60, hy: 80 },
+  ],
+  config: { duration: 2, loop: true, yoyo: false, autoRotate: false, ease: 'linear' },
+}
+
+// Auto-mapping preset for ObjectPicker; in Absolute placement x/y are applied per layer instead
+const AUTO_MAPPING_PRESET = {
+  x: 'x',
+  y: 'y',
+  rotation: 'rotation',
+}
+
+const ABSOLUTE_MAPPING_PRESET = {
+  rotation: 'rotation',
+}
+
+// Port schema
+export const POSITION_PORTS: NodePorts = {
+  inputs: [
+    { name: 'input', type: 'number', label: 'Input', default: 0 },
+    { name: 'staticX', type: 'number', label: 'X', default: 0 },
+    { name: 'staticY', type: 'number', label: 'Y', default: 0 },
+    { name: 'baseX', type: 'number', label: 'Base X', default: 0 },
+    { name: 'baseY', type: 'number', label: 'Base Y', default: 0 },
+    { name: 'multiplier', type: 'number', label: 'Multiplier', default: 1 },
+    { name: 'offset', type: 'number', label: 'Offset', default: 0 },
+    { name: 'centerX', type: 'number', label: 'Orbit Center X', default: 0 },
+    { name: 'centerY', type: 'number', label: 'Orbit Center Y', default: 0 },
+    { name: 'radiusX', type: 'number', label: 'Orbit Radius X', min: 0, default: 100 },
+    { name: 'radiusY', type: 'number', label: 'Orbit Radius Y', min: 0, default: 100 },
+    { name: 'orbitSpeed', type: 'number', label: 'Orbit Speed', default: 0.25 },
+  ],
+  outputs: [
+    { name: 'x', type: 'number', label: 'X', default: 0 },
+    { name: 'y', type: 'number', label: 'Y', default: 0 },
+    { name: 'angle', type: 'number', label: 'Direction (°)', default: 0 },
+    { name: 'rotation', type: 'number', label: 'Auto Rotation (°)', default: 0 },
+  ],
+}
+
+registerNodePorts('PositionNode', POSITION_PORTS)
+
+// Defaults, shared by the inspector schema and the component
+const POSITION_DEFAULTS: Omit<PositionNodeProps, 'id' | 'name' | 'inputNodeId' | 'inputProperty'> = {
+  mode: 'Animated',
+  placement: 'Relative',
+  staticX: 0,
+  staticY: 0,
+  animationEnabled: true,
+  startX: 0,
+  startY: 0,
+  endX: 100,
+  endY: 0,
+  duration: 1,
+  loop: true,
+  yoyo: true,
+  easing: 'easeInOut',
+  axis: 'X',
+  baseX: 0,
+  baseY: 0,
+  multiplier: 50,
+  offset: 0,
+  path: DEFAULT_POSITION_PATH,
+  centerX: 0,
+  centerY: 0,
+  radiusX: 100,
+  radiusY: 100,
+  orbitSpeed: 0.25,
+  orbitStartAngle: 0,
+  direction: 'CW',
+  anchorX: 50,
+  anchorY: 50,
+}
+
+// Inspector schema
+export const POSITION_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Mode', default: POSITION_DEFAULTS.mode,
+    options: [
+      { value: 'Static', label: 'Static' },
+      { value: 'Animated', label: 'Animated' },
+      { value: 'Controlled', label: 'Controlled' },
+      { value: 'Path', label: 'Path' },
+      { value: 'Orbit', label: 'Orbit' },
+    ],
+  },
+  {
+    name: 'placement', label: 'Placement', control: 'enum', group: 'Mode', default: POSITION_DEFAULTS.placement,
+    options: [
+      { value: 'Relative', label: 'Offset from layer' },
+      { value: 'Absolute', label: 'Scene coordinates' },
+    ],
+  },
+  { name: 'staticX', label: 'X', control: 'number', group: 'Static', default: POSITION_DEFAULTS.staticX, step: 1, unit: ' px', visibleWhen: { mode: ['Static'] } },
+  { name: 'staticY', label: 'Y', control: 'number', group: 'Static', default: POSITION_DEFAULTS.staticY, step: 1, unit: ' px', visibleWhen: { mode: ['Static'] } },
+  { name: 'animationEnabled', label: 'Enabled', control: 'toggle', group: 'Animation', default: POSITION_DEFAULTS.animationEnabled, visibleWhen: { mode: ['Animated'] } },
+  { name: 'startX', label: 'Start X', control: 'number', group: 'Animation', default: POSITION_DEFAULTS.startX, step: 1, visibleWhen: { mode: ['Animated'] } },
+  { name: 'startY', label: 'Start Y', control: 'number', group: 'Animation', default: POSITION_DEFAULTS.startY, step: 1, visibleWhen: { mode: ['Animated'] } },
+  { name: 'endX', label: 'End X', control: 'number', group: 'Animation', default: POSITION_DEFAULTS.endX, step: 1, visibleWhen: { mode: ['Animated'] } },
+  { name: 'endY', label: 'End Y', control: 'number', group: 'Animation', default: POSITION_DEFAULTS.endY, step: 1, visibleWhen: { mode: ['Animated'] } },
+  { name: 'duration', label: 'Duration', control: 'slider', group: 'Animation', default: POSITION_DEFAULTS.duration, min: 0.1, max: 10, step: 0.1, unit: 's', visibleWhen: { mode: ['Animated'] } },
+  { name: 'loop', label: 'Loop', control: 'toggle', group: 'Animation', default: POSITION_DEFAULTS.loop, visibleWhen: { mode: ['Animated'] } },
+  { name: 'yoyo', label: 'Yoyo', control: 'toggle', group: 'Animation', default: POSITION_DEFAULTS.yoyo, visibleWhen: { mode: ['Animated'] } },
+  { name: 'easing', label: 'Easing', control: 'easing', group: 'Animation', default: POSITION_DEFAULTS.easing, visibleWhen: { mode: ['Animated'] } },
+  {
+    name: 'axis', label: 'Axis', control: 'enum', group: 'Input', default: POSITION_DEFAULTS.axis, visibleWhen: { mode: ['Controlled'] },
+    options: [
+      { value: 'X', label: 'X' },
+      { value: 'Y', label: 'Y' },
+      { value: 'Both', label: 'Both' },
+    ],
+  },
+  { name: 'baseX', label: 'Base X', control: 'number', group: 'Input', default: POSITION_DEFAULTS.baseX, step: 1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'baseY', label: 'Base Y', control: 'number', group: 'Input', default: POSITION_DEFAULTS.baseY, step: 1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'multiplier', label: 'Multiplier', control: 'number', group: 'Input', default: POSITION_DEFAULTS.multiplier, step: 1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'offset', label: 'Offset', control: 'number', group: 'Input', default: POSITION_DEFAULTS.offset, step: 1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'path', label: 'Path', control: 'path', group: 'Path', default: POSITION_DEFAULTS.path, visibleWhen: { mode: ['Path'] } },
+  { name: 'centerX', label: 'Center X', control: 'number', group: 'Orbit', default: POSITION_DEFAULTS.centerX, step: 1, visibleWhen: { mode: ['Orbit'] } },
+  { name: 'centerY', label: 'Center Y', control: 'number', group: 'Orbit', default: POSITION_DEFAULTS.centerY, step: 1, visibleWhen: { mode: ['Orbit'] } },
+  { name: 'radiusX', label: 'Radius X', control: 'number', group: 'Orbit', default: POSITION_DEFAULTS.radiusX, min: 0, step: 1, unit: ' px', visibleWhen: { mode: ['Orbit'] } },
+  { name: 'radiusY', label: 'Radius Y', control: 'number', group: 'Orbit', default: POSITION_DEFAULTS.radiusY, min: 0, step: 1, unit: ' px', visibleWhen: { mode: ['Orbit'] } },
+  { name: 'orbitSpeed', label: 'Speed', control: 'slider', group: 'Orbit', default: POSITION_DEFAULTS.orbitSpeed, min: 0, max: 2, step: 0.05, unit: ' rev/s', visibleWhen: { mode: ['Orbit'] } },
+  { name: 'orbitStartAngle', label: 'Start Angle', control: 'angle', group: 'Orbit', default: POSITION_DEFAULTS.orbitStartAngle, visibleWhen: { mode: ['Orbit'] } },
+  {
+    name: 'direction', label: 'Direction', control: 'enum', group: 'Orbit', default: POSITION_DEFAULTS.direction, visibleWhen: { mode: ['Orbit'] },
+    options: [
+      { value: 'CW', label: 'Clockwise' },
+      { value: 'CCW', label: 'Counter-clockwise' },
+    ],
+  },
+  { name: 'anchorX', label: 'Anchor X', control: 'slider', group: 'Anchor Point', default: POSITION_DEFAULTS.anchorX, min: 0, max: 100, step: 1, unit: '%', visibleWhen: { placement: ['Absolute'] } },
+  { name: 'anchorY', label: 'Anchor Y', control: 'slider', group: 'Anchor Point', default: POSITION_DEFAULTS.anchorY, min: 0, max: 100, step: 1, unit: '%', visibleWhen: { placement: ['Absolute'] } },
+  TARGET_LAYERS_PROPERTY,
+]
+
+registerPropertySchema('PositionNode', POSITION_PROPERTIES)
+
+export type PositionOutput = {
+  x: number
+  y: number
+  angle: number // direction of travel in degrees (0 = +x, clockwise on screen)
+  rotation: number // path tangent when the path's config has autoRotate, else 0
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+// Whether a looping yoyo tween is on one of its backward cycles at `time`
+function isReversed(time: number, duration: number, loop: boolean, yoyo: boolean): boolean {
+  if (!loop || !yoyo || duration <= 0 || time <= 0) return false
+  return Math.floor(time / duration) % 2 === 1
+}
+
+/**
+ * Position at `time` seconds of timeline time.
+ * Pure: the same props, time and input always give the same position.
+ */
+export function evaluatePosition(props: PositionNodeProps, time: number, input = 0): PositionOutput {
+  switch (props.mode) {
+    case 'Animated': {
+      if (!props.animationEnabled) return { x: props.startX, y: props.startY, angle: 0, rotation: 0 }
+
+      const options = { loop: props.loop, yoyo: props.yoyo, ease: props.easing }
+      const reversed = isReversed(time, props.duration, props.loop, props.yoyo)
+      const angle = toDegrees(Math.atan2(props.endY - props.startY, props.endX - props.startX)) + (reversed ? 180 : 0)
+      return {
+        x: tweenValue(props.startX, props.endX, time, props.duration, options),
+        y: tweenValue(props.startY, props.endY, time, props.duration, options),
+        angle,
+        rotation: 0,
+      }
+    }
+
+    case 'Controlled': {
+      // Formula: base + (input * multiplier) + offset, on the chosen axis
+      const delta = input * props.multiplier + props.offset
+      return {
+        x: props.baseX + (props.axis !== 'Y' ? delta : 0),
+        y: props.baseY + (props.axis !== 'X' ? delta : 0),
+        angle: 0,
+        rotation: 0,
+      }
+    }
+
+    case 'Path': {
+      const { points = [], config } = props.path ?? DEFAULT_POSITION_PATH
+      const duration = config?.duration ?? 1
+      const loop = config?.loop ?? false
+      const yoyo = config?.yoyo ?? false
+      const progress = getEase(config?.ease, 'none')(tweenProgress(time, duration, loop, yoyo))
+
+      const sample = samplePath(points, progress)
+      if (!sample) return { x: 0, y: 0, angle: 0, rotation: 0 }
+
+      const angle = sample.angle + (isReversed(time, duration, loop, yoyo) ? 180 : 0)
+      return { x: sample.x, y: sample.y, angle, rotation: config?.autoRotate ? angle : 0 }
+    }
+
+    case 'Orbit': {
+      const sign = props.direction === 'CCW' ? -1 : 1
+      // Screen y points down, so increasing angles run clockwise
+      const theta = ((props.orbitStartAngle + sign * 360 * props.orbitSpeed * time) * Math.PI) / 180
+      const dx = -props.radiusX * Math.sin(theta) * sign
+      const dy = props.radiusY * Math.cos(theta) * sign
+      return {
+        x: props.centerX + props.radiusX * Math.cos(theta),
+        y: props.centerY + props.radiusY * Math.sin(theta),
+        angle: toDegrees(Math.atan2(dy, dx)),
+        rotation: 0,
+      }
+    }
+
+    default:
+      return { x: props.staticX, y: props.staticY, angle: 0, rotation: 0 }
+  }
+}
+
+/**
+ * Offset that puts the layer's anchor point at scene position (x, y)
+ */
+export function absoluteLayerOffset(
+  layer: SceneAsset,
+  x: number,
+  y: number,
+  anchorX: number,
+  anchorY: number
+): Pick<LayerTransform, 'x' | 'y'> {
+  return {
+    x: x - (layer.x + (anchorX / 100) * layer.width),
+    y: y - (layer.y + (anchorY / 100) * layer.height),
+  }
+}
+
+const normalizeAngle = (degrees: number) => Math.round((((degrees % 360) + 360) % 360) * 10) / 10
+
+export function PositionNode({
+  id,
+  name = 'Position',
+  mode = POSITION_DEFAULTS.mode,
+  placement = POSITION_DEFAULTS.placement,
+  staticX = POSITION_DEFAULTS.staticX,
+  staticY = POSITION_DEFAULTS.staticY,
+  animationEnabled = POSITION_DEFAULTS.animationEnabled,
+  startX = POSITION_DEFAULTS.startX,
+  startY = POSITION_DEFAULTS.startY,
+  endX = POSITION_DEFAULTS.endX,
+  endY = POSITION_DEFAULTS.endY,
+  duration = POSITION_DEFAULTS.duration,
+  loop = POSITION_DEFAULTS.loop,
+  yoyo = POSITION_DEFAULTS.yoyo,
+  easing = POSITION_DEFAULTS.easing,
+  inputNodeId,
+  inputProperty,
+  axis = POSITION_DEFAULTS.axis,
+  baseX = POSITION_DEFAULTS.baseX,
+  baseY = POSITION_DEFAULTS.baseY,
+  multiplier = POSITION_DEFAULTS.multiplier,
+  offset = POSITION_DEFAULTS.offset,
+  path = POSITION_DEFAULTS.path,
+  centerX = POSITION_DEFAULTS.centerX,
+  centerY = POSITION_DEFAULTS.centerY,
+  radiusX = POSITION_DEFAULTS.radiusX,
+  radiusY = POSITION_DEFAULTS.radiusY,
+  orbitSpeed = POSITION_DEFAULTS.orbitSpeed,
+  orbitStartAngle = POSITION_DEFAULTS.orbitStartAngle,
+  direction = POSITION_DEFAULTS.direction,
+  anchorX = POSITION_DEFAULTS.anchorX,
+  anchorY = POSITION_DEFAULTS.anchorY,
+}: PositionNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    mode,
+    placement,
+    staticX,
+    staticY,
+    animationEnabled,
+    startX,
+    startY,
+    endX,
+    endY,
+    duration,
+    loop,
+    yoyo,
+    easing,
+    inputNodeId,
+    inputProperty,
+    axis,
+    baseX,
+    baseY,
+    multiplier,
+    offset,
+    path,
+    centerX,
+    centerY,
+    radiusX,
+    radiusY,
+    orbitSpeed,
+    orbitStartAngle,
+    direction,
+    anchorX,
+    anchorY,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'PositionNode', baseProps)
+
+  // Legacy input props become a connection into the 'input' port
+  useInputConnection(id, 'input', inputNodeId, inputProperty)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Remove the published mapping and per-layer values on unmount
+  useEffect(() => {
+    if (!id) return
+
+    return () => {
+      const outputs = aninodeStore.nodes[id]?.outputs
+      if (outputs) {
+        delete outputs.__autoMappingPreset
+        delete outputs.__layerValues
+      }
+    }
+  }, [id])
+
+  // Evaluate every frame at timeline time, after upstream nodes have ticked
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const input = resolveProperty(id, 'input', 0)
+      const position = evaluatePosition(props, ctx.time, input)
+      const x = Math.round(position.x * 100) / 100
+      const y = Math.round(position.y * 100) / 100
+      const angle = normalizeAngle(position.angle)
+      const rotation = normalizeAngle(position.rotation)
+
+      // Anti-jitter: values are rounded and only written when they change
+      if (node.outputs.x !== x) node.outputs.x = x
+      if (node.outputs.y !== y) node.outputs.y = y
+      if (node.outputs.angle !== angle) node.outputs.angle = angle
+      if (node.outputs.rotation !== rotation) node.outputs.rotation = rotation
+
+      // Absolute placement depends on where each target layer sits in the scene
+      const absolute = props.placement === 'Absolute'
+      const preset = absolute ? ABSOLUTE_MAPPING_PRESET : AUTO_MAPPING_PRESET
+      if (JSON.stringify(node.outputs.__autoMappingPreset) !== JSON.stringify(preset)) {
+        node.outputs.__autoMappingPreset = preset
+      }
+
+      const layerValues: Record<string, Partial<LayerTransform>> = {}
+      if (absolute) {
+        getNodeTargetLayers(node, aninodeStore.scene?.assets ?? []).forEach((layer) => {
+          layerValues[layer.id] = absoluteLayerOffset(layer, x, y, props.anchorX, props.anchorY)
+        })
+      }
+      if (JSON.stringify(node.outputs.__layerValues ?? {}) !== JSON.stringify(layerValues)) {
+        node.outputs.__layerValues = layerValues
+      }
+    })
+  }, [id])
+
+  return null
+}
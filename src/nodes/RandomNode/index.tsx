@@ -0,0 +1,298 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps } from '@core/resolveProperty'
+import { takeNodeEvents } from '@core/events'
+import { registerNodeSampler } from '@core/timeSampling'
+import { hashedRandom } from '@core/random'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import type { NodePorts, NodePropertySchema } from '../../types'
+
+export type RandomNodeProps = {
+  id: string
+  name?: string
+
+  // Distribution
+  distribution: 'Uniform' | 'Gaussian' | 'Poisson'
+  min: number // Uniform range; Gaussian results are clamped to it
+  max: number
+  mean: number // Gaussian center, Poisson average count
+  deviation: number // Gaussian standard deviation
+  seed: number
+
+  // When a new value is drawn
+  mode: 'Once' | 'On Trigger' | 'Continuous' | 'Sample and Hold'
+  rate: number // Sample and Hold: draws per second
+
+  // Output
+  integer: boolean // whole numbers (Uniform: every integer in min-max equally likely)
+  choices: string // weighted list for the choice output, e.g. 'red:3, green, blue:0.5'
+}
+
+// Port schema
+export const RANDOM_PORTS: NodePorts = {
+  inputs: [
+    { name: 'trigger', type: 'event', label: 'Trigger', default: false },
+    { name: 'min', type: 'number', label: 'Min', default: 0 },
+    { name: 'max', type: 'number', label: 'Max', default: 1 },
+    { name: 'mean', type: 'number', label: 'Mean', default: 0.5 },
+    { name: 'deviation', type: 'number', label: 'Deviation', min: 0, default: 0.15 },
+    { name: 'seed', type: 'number', label: 'Seed', default: 1 },
+    { name: 'rate', type: 'number', label: 'Rate', min: 0, default: 4 },
+  ],
+  outputs: [
+    { name: 'value', type: 'number', label: 'Value', default: 0 },
+    { name: 'normalized', type: 'number', label: 'Normalized', min: 0, max: 1, default: 0 },
+    { name: 'choice', type: 'string', label: 'Choice', default: null },
+    { name: 'choiceIndex', type: 'number', label: 'Choice Index', default: -1 },
+  ],
+}
+
+registerNodePorts('RandomNode', RANDOM_PORTS)
+
+// Inspector schema
+export const RANDOM_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'distribution', label: 'Distribution', control: 'enum', group: 'Distribution', default: 'Uniform',
+    options: [
+      { value: 'Uniform', label: 'Uniform' },
+      { value: 'Gaussian', label: 'Gaussian (normal)' },
+      { value: 'Poisson', label: 'Poisson (counts)' },
+    ],
+  },
+  { name: 'min', label: 'Min', control: 'number', group: 'Distribution', default: 0, step: 0.1, visibleWhen: { distribution: ['Uniform', 'Gaussian'] } },
+  { name: 'max', label: 'Max', control: 'number', group: 'Distribution', default: 1, step: 0.1, visibleWhen: { distribution: ['Uniform', 'Gaussian'] } },
+  { name: 'mean', label: 'Mean', control: 'number', group: 'Distribution', default: 0.5, step: 0.1, visibleWhen: { distribution: ['Gaussian', 'Poisson'] } },
+  { name: 'deviation', label: 'Deviation', control: 'number', group: 'Distribution', default: 0.15, min: 0, step: 0.01, visibleWhen: { distribution: ['Gaussian'] } },
+  { name: 'seed', label: 'Seed', control: 'number', group: 'Distribution', default: 1, step: 1 },
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Sampling', default: 'Once',
+    options: [
+      { value: 'Once', label: 'Once' },
+      { value: 'On Trigger', label: 'On trigger' },
+      { value: 'Continuous', label: 'Continuous (every frame)' },
+      { value: 'Sample and Hold', label: 'Sample and hold' },
+    ],
+  },
+  { name: 'rate', label: 'Rate', control: 'slider', group: 'Sampling', default: 4, min: 0.1, max: 30, step: 0.1, unit: ' Hz', visibleWhen: { mode: ['Sample and Hold'] } },
+  { name: 'integer', label: 'Whole Numbers', control: 'toggle', group: 'Output', default: false },
+  { name: 'choices', label: 'Choices', control: 'text', group: 'Output', default: '' },
+]
+
+registerPropertySchema('RandomNode', RANDOM_PROPERTIES)
+
+export type WeightedChoice = { value: string; weight: number }
+
+/**
+ * Parses a comma-separated list of choices, each optionally followed by
+ * `:weight` (default 1), e.g. `red:3, #00ff00, blue:0.5`. Entries with a
+ * weight of 0 or less are dropped.
+ */
+export function parseWeightedChoices(text: string): WeightedChoice[] {
+  return String(text ?? '')
+    .split(',')
+    .map((entry) => {
+      const trimmed = entry.trim()
+      const match = trimmed.match(/^(.*):\s*(-?\d*\.?\d+)$/)
+      return match ? { value: match[1].trim(), weight: Number(match[2]) } : { value: trimmed, weight: 1 }
+    })
+    .filter((choice) => choice.value !== '' && choice.weight > 0)
+}
+
+/**
+ * Index of the choice `u` (0-1) lands on when each choice covers a share of
+ * 0-1 proportional to its weight; -1 for an empty list
+ */
+export function pickWeighted(choices: readonly WeightedChoice[], u: number): number {
+  const total = choices.reduce((sum, choice) => sum + choice.weight, 0)
+  if (total <= 0) return -1
+
+  let remaining = u * total
+  for (let index = 0; index < choices.length; index++) {
+    remaining -= choices[index].weight
+    if (remaining < 0) return index
+  }
+  return choices.length - 1
+}
+
+/**
+ * Which draw applies at `time`: the same draw index always gives the same value.
+ * Once always uses draw 0, On Trigger counts the triggers so far, Sample and
+ * Hold steps `rate` times per second, Continuous draws anew each timeline millisecond.
+ */
+export function randomDrawIndex(props: Pick<RandomNodeProps, 'mode' | 'rate'>, time: number, triggerCount = 0): number {
+  switch (props.mode) {
+    case 'On Trigger':
+      return triggerCount
+    case 'Continuous':
+      return Math.round(time * 1000)
+    case 'Sample and Hold':
+      return props.rate > 0 ? Math.floor(time * props.rate) : 0
+    default:
+      return 0
+  }
+}
+
+// Independent uniform numbers for one draw: streams are the separate values a draw needs
+const uniform = (seed: number, draw: number, stream: number) => hashedRandom(seed, stream, draw)
+
+// Poisson means above this use the normal approximation instead of multiplying uniforms
+const POISSON_DIRECT_LIMIT = 30
+
+export type RandomOutput = {
+  value: number
+  normalized: number // position of the value in min-max, or 0 to twice the mean for Poisson (0-1)
+  choice: string | null
+  choiceIndex: number
+}
+
+/**
+ * Random value for draw number `draw`.
+ * Pure: the same props and draw always give the same result.
+ */
+export function evaluateRandom(props: RandomNodeProps, draw: number): RandomOutput {
+  const seed = Math.round(props.seed) || 0
+  const low = Math.min(props.min, props.max)
+  const high = Math.max(props.min, props.max)
+  let value: number
+
+  switch (props.distribution) {
+    case 'Gaussian': {
+      // Box-Muller; 1 - u keeps the logarithm away from 0
+      const u1 = 1 - uniform(seed, draw, 0)
+      const u2 = uniform(seed, draw, 1)
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+      value = Math.min(high, Math.max(low, props.mean + z * props.deviation))
+      if (props.integer) value = Math.round(value)
+      break
+    }
+
+    case 'Poisson': {
+      const lambda = Math.max(0, props.mean)
+      if (lambda > POISSON_DIRECT_LIMIT) {
+        const u1 = 1 - uniform(seed, draw, 0)
+        const u2 = uniform(seed, draw, 1)
+        const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+        value = Math.max(0, Math.round(lambda + Math.sqrt(lambda) * z))
+      } else {
+        // Knuth: count uniforms multiplied in before the product drops below e^-lambda
+        const limit = Math.exp(-lambda)
+        let product = uniform(seed, draw, 0)
+        let count = 0
+        while (product > limit) {
+          count++
+          product *= uniform(seed, draw, count)
+        }
+        value = count
+      }
+      break
+    }
+
+    default: {
+      const u = uniform(seed, draw, 0)
+      if (props.integer) {
+        const first = Math.ceil(low)
+        const last = Math.max(first, Math.floor(high))
+        value = Math.min(last, first + Math.floor(u * (last - first + 1)))
+      } else {
+        value = low + u * (high - low)
+      }
+    }
+  }
+
+  // The choice reads its own stream, below the ones Poisson counts up through
+  const choices = parseWeightedChoices(props.choices)
+  const choiceIndex = pickWeighted(choices, uniform(seed, draw, -1))
+
+  // Poisson ignores min/max (they are hidden); its counts spread around the mean
+  const [rangeLow, rangeHigh] = props.distribution === 'Poisson' ? [0, Math.max(0, props.mean) * 2] : [low, high]
+
+  return {
+    value,
+    normalized:
+      rangeHigh > rangeLow ? Math.min(1, Math.max(0, (value - rangeLow) / (rangeHigh - rangeLow))) : 0,
+    choice: choiceIndex >= 0 ? choices[choiceIndex].value : null,
+    choiceIndex,
+  }
+}
+
+export function RandomNode({
+  id,
+  name = 'Random',
+  distribution = 'Uniform',
+  min = 0,
+  max = 1,
+  mean = 0.5,
+  deviation = 0.15,
+  seed = 1,
+  mode = 'Once',
+  rate = 4,
+  integer = false,
+  choices = '',
+}: RandomNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    distribution,
+    min,
+    max,
+    mean,
+    deviation,
+    seed,
+    mode,
+    rate,
+    integer,
+    choices,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'RandomNode', baseProps)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Timeline times of the triggers received so far
+  const triggersRef = useRef<number[]>([])
+
+  // Readable at any timeline time, counting the triggers received before it
+  useEffect(() => {
+    if (!id) return
+
+    return registerNodeSampler(id, (time) => {
+      const props = resolveNodeProps(id, propsRef.current)
+      const triggerCount = triggersRef.current.filter((triggerTime) => triggerTime <= time).length
+      return evaluateRandom(props, randomDrawIndex(props, time, triggerCount))
+    })
+  }, [id])
+
+  // Evaluate every frame at timeline time, after upstream nodes have ticked
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      // Seeking back before a trigger forgets it, so replaying gives the same values
+      const triggers = triggersRef.current.filter((time) => time <= ctx.time)
+      if (takeNodeEvents(id, 'trigger').length > 0) triggers.push(ctx.time)
+      triggersRef.current = triggers
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const output = evaluateRandom(props, randomDrawIndex(props, ctx.time, triggers.length))
+      const value = Math.round(output.value * 1000) / 1000
+      const normalized = Math.round(output.normalized * 1000) / 1000
+
+      // Only write changed values
+      if (node.outputs.value !== value) node.outputs.value = value
+      if (node.outputs.normalized !== normalized) node.outputs.normalized = normalized
+      if (node.outputs.choice !== output.choice) node.outputs.choice = output.choice
+      if (node.outputs.choiceIndex !== output.choiceIndex) node.outputs.choiceIndex = output.choiceIndex
+    })
+  }, [id])
+
+  return null
+}
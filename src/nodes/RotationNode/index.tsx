@@ -1,7 +1,22 @@
 import { useEffect, useRef } from 'react'
-import gsap from 'gsap'
 import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps, resolveProperty } from '@core/resolveProperty'
+import { tweenValue, type EaseSpec } from '@core/easing'
 import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { TARGET_LAYERS_PROPERTY } from '@core/layerBindings'
+import {
+  advanceTweenPlayhead,
+  createTweenPlayhead,
+  TWEEN_TRIGGER_PORT,
+  TWEEN_TRIGGER_PROPERTY,
+  type TweenTriggerAction,
+} from '@core/tweenTrigger'
+import { takeNodeEvents } from '@core/events'
+import type { NodePorts, NodePropertySchema } from '../../types'
+import { useInputConnection } from '@core/useInputConnection'
 
 export type RotationNodeProps = {
   id: string
@@ -23,6 +38,8 @@ export type RotationNodeProps = {
   duration: number // seconds (for non-continuous)
   loop: boolean
   yoyo: boolean // reverse direction on loop
+  easing: EaseSpec // non-continuous rotation (names, easing presets or custom curves)
+  triggerAction: TweenTriggerAction // what a trigger event does to the tween
 
   // Controlled mode (receives input from other nodes)
   inputNodeId?: string
@@ -42,26 +59,137 @@ const AUTO_MAPPING_PRESET = {
   anchorY: 'rotationAnchorY',
 }
 
+// Port schema
+export const ROTATION_PORTS: NodePorts = {
+  inputs: [
+    { name: 'input', type: 'number', label: 'Input', default: 0 },
+    TWEEN_TRIGGER_PORT,
+    { name: 'staticAngle', type: 'number', label: 'Angle', min: 0, max: 360, default: 0 },
+    { name: 'speed', type: 'number', label: 'Speed', min: 0, default: 1 },
+    { name: 'multiplier', type: 'number', label: 'Multiplier', default: 1 },
+    { name: 'offset', type: 'number', label: 'Offset', default: 0 },
+    { name: 'anchorX', type: 'number', label: 'Anchor X', min: 0, max: 100, default: 50 },
+    { name: 'anchorY', type: 'number', label: 'Anchor Y', min: 0, max: 100, default: 50 },
+  ],
+  outputs: [
+    { name: 'rotation', type: 'number', label: 'Rotation (°)', default: 0 },
+    { name: 'anchorX', type: 'number', label: 'Anchor X', min: 0, max: 100, default: 50 },
+    { name: 'anchorY', type: 'number', label: 'Anchor Y', min: 0, max: 100, default: 50 },
+  ],
+}
+
+registerNodePorts('RotationNode', ROTATION_PORTS)
+
+// Defaults, shared by the inspector schema and the component
+const ROTATION_DEFAULTS: Omit<RotationNodeProps, 'id' | 'name' | 'triggerAction' | 'inputNodeId' | 'inputProperty'> = {
+  mode: 'Animated',
+  staticAngle: 0,
+  animationEnabled: true,
+  startAngle: 0,
+  endAngle: 360,
+  speed: 1,
+  direction: 'CW',
+  continuous: true,
+  duration: 2,
+  loop: false,
+  yoyo: false,
+  easing: 'linear',
+  multiplier: 360,
+  offset: 0,
+  anchorX: 50,
+  anchorY: 50,
+}
+
+// Inspector schema
+export const ROTATION_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Mode', default: ROTATION_DEFAULTS.mode,
+    options: [
+      { value: 'Static', label: 'Static' },
+      { value: 'Animated', label: 'Animated' },
+      { value: 'Controlled', label: 'Controlled' },
+    ],
+  },
+  { name: 'staticAngle', label: 'Angle', control: 'angle', group: 'Static', default: ROTATION_DEFAULTS.staticAngle, visibleWhen: { mode: ['Static'] } },
+  { name: 'animationEnabled', label: 'Enabled', control: 'toggle', group: 'Animation', default: ROTATION_DEFAULTS.animationEnabled, visibleWhen: { mode: ['Animated'] } },
+  { name: 'continuous', label: 'Continuous', control: 'toggle', group: 'Animation', default: ROTATION_DEFAULTS.continuous, visibleWhen: { mode: ['Animated'] } },
+  { name: 'speed', label: 'Speed', control: 'slider', group: 'Animation', default: ROTATION_DEFAULTS.speed, min: 0.1, max: 5, step: 0.1, unit: ' rps', visibleWhen: { mode: ['Animated'] } },
+  {
+    name: 'direction', label: 'Direction', control: 'enum', group: 'Animation', default: ROTATION_DEFAULTS.direction, visibleWhen: { mode: ['Animated'] },
+    options: [
+      { value: 'CW', label: 'Clockwise' },
+      { value: 'CCW', label: 'Counter-CW' },
+    ],
+  },
+  { name: 'startAngle', label: 'Start Angle', control: 'angle', group: 'Animation', default: ROTATION_DEFAULTS.startAngle, visibleWhen: { mode: ['Animated'] } },
+  { name: 'endAngle', label: 'End Angle', control: 'angle', group: 'Animation', default: ROTATION_DEFAULTS.endAngle, visibleWhen: { mode: ['Animated'], continuous: [false] } },
+  { name: 'duration', label: 'Duration', control: 'slider', group: 'Animation', default: ROTATION_DEFAULTS.duration, min: 0.1, max: 10, step: 0.1, unit: 's', visibleWhen: { mode: ['Animated'], continuous: [false] } },
+  { name: 'loop', label: 'Loop', control: 'toggle', group: 'Animation', default: ROTATION_DEFAULTS.loop, visibleWhen: { mode: ['Animated'], continuous: [false] } },
+  { name: 'yoyo', label: 'Yoyo', control: 'toggle', group: 'Animation', default: ROTATION_DEFAULTS.yoyo, visibleWhen: { mode: ['Animated'], continuous: [false] } },
+  { name: 'easing', label: 'Easing', control: 'easing', group: 'Animation', default: ROTATION_DEFAULTS.easing, visibleWhen: { mode: ['Animated'], continuous: [false] } },
+  TWEEN_TRIGGER_PROPERTY,
+  { name: 'multiplier', label: 'Multiplier', control: 'number', group: 'Input', default: ROTATION_DEFAULTS.multiplier, step: 1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'offset', label: 'Offset', control: 'number', group: 'Input', default: ROTATION_DEFAULTS.offset, step: 1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'anchorX', label: 'Anchor X', control: 'slider', group: 'Anchor Point', default: ROTATION_DEFAULTS.anchorX, min: 0, max: 100, step: 1, unit: '%' },
+  { name: 'anchorY', label: 'Anchor Y', control: 'slider', group: 'Anchor Point', default: ROTATION_DEFAULTS.anchorY, min: 0, max: 100, step: 1, unit: '%' },
+  TARGET_LAYERS_PROPERTY,
+]
+
+registerPropertySchema('RotationNode', ROTATION_PROPERTIES)
+
+/**
+ * Rotation in degrees at `time` seconds of timeline time.
+ * Pure: the same props, time and input always give the same angle.
+ */
+export function evaluateRotation(props: RotationNodeProps, time: number, input = 0): number {
+  switch (props.mode) {
+    case 'Animated': {
+      if (!props.animationEnabled) return props.startAngle
+
+      if (props.continuous) {
+        // One full turn every 1 / speed seconds
+        const directionMultiplier = props.direction === 'CW' ? 1 : -1
+        const turns = time * Math.abs(props.speed)
+        return props.startAngle + 360 * directionMultiplier * (turns - Math.floor(turns))
+      }
+
+      return tweenValue(props.startAngle, props.endAngle, time, props.duration, {
+        loop: props.loop,
+        yoyo: props.yoyo,
+        ease: props.easing,
+      })
+    }
+
+    case 'Controlled':
+      return input * props.multiplier + props.offset
+
+    default:
+      return props.staticAngle
+  }
+}
+
 export function RotationNode({
   id,
   name = 'Rotation',
-  mode = 'Static',
-  staticAngle = 0,
-  animationEnabled = true,
-  startAngle = 0,
-  endAngle = 360,
-  speed = 1,
-  direction = 'CW',
-  continuous = true,
-  duration = 2,
-  loop = false,
-  yoyo = false,
+  mode = ROTATION_DEFAULTS.mode,
+  staticAngle = ROTATION_DEFAULTS.staticAngle,
+  animationEnabled = ROTATION_DEFAULTS.animationEnabled,
+  startAngle = ROTATION_DEFAULTS.startAngle,
+  endAngle = ROTATION_DEFAULTS.endAngle,
+  speed = ROTATION_DEFAULTS.speed,
+  direction = ROTATION_DEFAULTS.direction,
+  continuous = ROTATION_DEFAULTS.continuous,
+  duration = ROTATION_DEFAULTS.duration,
+  loop = ROTATION_DEFAULTS.loop,
+  yoyo = ROTATION_DEFAULTS.yoyo,
+  easing = ROTATION_DEFAULTS.easing,
+  triggerAction = 'None',
   inputNodeId,
   inputProperty,
-  multiplier = 1,
-  offset = 0,
-  anchorX = 50,
-  anchorY = 50,
+  multiplier = ROTATION_DEFAULTS.multiplier,
+  offset = ROTATION_DEFAULTS.offset,
+  anchorX = ROTATION_DEFAULTS.anchorX,
+  anchorY = ROTATION_DEFAULTS.anchorY,
 }: RotationNodeProps) {
   // Reconstruct props for registration
   const baseProps = {
@@ -78,6 +206,8 @@ export function RotationNode({
     duration,
     loop,
     yoyo,
+    easing,
+    triggerAction,
     inputNodeId,
     inputProperty,
     multiplier,
@@ -89,10 +219,14 @@ export function RotationNode({
   // Register node
   useNodeRegistration(id, 'RotationNode' as any, baseProps)
 
-  // Animation state - plain object for GSAP
-  const stateRef = useRef({ rotation: staticAngle })
-  const tweenRef = useRef<gsap.core.Tween | null>(null)
-  const lastPublishedValue = useRef<number>(staticAngle)
+  // Legacy input props become a connection into the 'input' port
+  useInputConnection(id, 'input', inputNodeId, inputProperty)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Own tween playhead, used when a trigger drives the animation
+  const playheadRef = useRef(createTweenPlayhead())
 
   // Publish auto-mapping preset
   useEffect(() => {
@@ -115,130 +249,27 @@ export function RotationNode({
     }
   }, [id])
 
-  // Main rotation logic
+  // Evaluate every frame at timeline time, after upstream nodes have ticked
   useEffect(() => {
     if (!id) return
 
-    // Kill any existing tween
-    if (tweenRef.current) {
-      tweenRef.current.kill()
-      tweenRef.current = null
-    }
-
-    // Helper: Publish rotation value (with anti-jitter)
-    const publishRotation = (value: number) => {
-      const rounded = Math.round(value * 100) / 100
-      if (rounded !== lastPublishedValue.current) {
-        lastPublishedValue.current = rounded
-        if (aninodeStore.nodes[id]) {
-          aninodeStore.nodes[id].outputs.rotation = rounded
-          aninodeStore.nodes[id].outputs.anchorX = anchorX
-          aninodeStore.nodes[id].outputs.anchorY = anchorY
-        }
-      }
-    }
-
-    // MODE 1: Static
-    if (mode === 'Static') {
-      stateRef.current.rotation = staticAngle
-      publishRotation(staticAngle)
-      return
-    }
-
-    // MODE 2: Animated
-    if (mode === 'Animated' && animationEnabled) {
-      const directionMultiplier = direction === 'CW' ? 1 : -1
-
-      if (continuous) {
-        // Infinite rotation
-        const animDuration = 1 / Math.abs(speed)
-        stateRef.current.rotation = startAngle
-
-        tweenRef.current = gsap.to(stateRef.current, {
-          rotation: startAngle + 360 * directionMultiplier,
-          duration: animDuration,
-          ease: 'none',
-          repeat: -1,
-          onUpdate: () => publishRotation(stateRef.current.rotation),
-        })
-      } else {
-        // Limited rotation (from startAngle to endAngle)
-        stateRef.current.rotation = startAngle
-
-        tweenRef.current = gsap.to(stateRef.current, {
-          rotation: endAngle,
-          duration: duration,
-          ease: 'none',
-          repeat: loop ? -1 : 0,
-          yoyo: yoyo,
-          onUpdate: () => publishRotation(stateRef.current.rotation),
-        })
-      }
-
-      return () => {
-        if (tweenRef.current) {
-          tweenRef.current.kill()
-          tweenRef.current = null
-        }
-      }
-    }
-
-    // MODE 3: Controlled (from other node)
-    if (mode === 'Controlled' && inputNodeId && inputProperty) {
-      const updateFromInput = () => {
-        const inputNode = aninodeStore.nodes[inputNodeId]
-        if (!inputNode) return
-
-        const inputValue = inputNode.outputs[inputProperty]
-        if (inputValue !== undefined) {
-          const result = inputValue * multiplier + offset
-          stateRef.current.rotation = result
-          publishRotation(result)
-        }
-      }
-
-      // Initial update
-      updateFromInput()
-
-      // Watch for changes (~60fps polling)
-      const interval = setInterval(updateFromInput, 16)
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
 
-      return () => {
-        clearInterval(interval)
-      }
-    }
-
-    // Fallback: publish current value
-    publishRotation(stateRef.current.rotation)
-  }, [
-    id,
-    mode,
-    staticAngle,
-    animationEnabled,
-    startAngle,
-    endAngle,
-    speed,
-    direction,
-    continuous,
-    duration,
-    loop,
-    yoyo,
-    inputNodeId,
-    inputProperty,
-    multiplier,
-    offset,
-    anchorX,
-    anchorY,
-  ])
+      const props = resolveNodeProps(id, propsRef.current)
+      const input = resolveProperty(id, 'input', 0)
+      const fired = takeNodeEvents(id, 'trigger').length > 0
+      const span = props.continuous || props.loop ? Infinity : props.duration
+      const time = advanceTweenPlayhead(playheadRef.current, props.triggerAction, fired, ctx.time, span)
+      const rotation = Math.round(evaluateRotation(props, time, input) * 100) / 100
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (tweenRef.current) {
-        tweenRef.current.kill()
-      }
-    }
-  }, [])
+      // Anti-jitter: values are rounded and only written when they change
+      if (node.outputs.rotation !== rotation) node.outputs.rotation = rotation
+      if (node.outputs.anchorX !== props.anchorX) node.outputs.anchorX = props.anchorX
+      if (node.outputs.anchorY !== props.anchorY) node.outputs.anchorY = props.anchorY
+    })
+  }, [id])
 
   // Invisible component (headless node)
   return null
@@ -1,7 +1,22 @@
 import { useEffect, useRef } from 'react'
-import gsap from 'gsap'
 import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps, resolveProperty } from '@core/resolveProperty'
+import { tweenValue, type EaseSpec } from '@core/easing'
 import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { TARGET_LAYERS_PROPERTY } from '@core/layerBindings'
+import {
+  advanceTweenPlayhead,
+  createTweenPlayhead,
+  TWEEN_TRIGGER_PORT,
+  TWEEN_TRIGGER_PROPERTY,
+  type TweenTriggerAction,
+} from '@core/tweenTrigger'
+import { takeNodeEvents } from '@core/events'
+import type { NodePorts, NodePropertySchema } from '../../types'
+import { useInputConnection } from '@core/useInputConnection'
 
 export type ScaleNodeProps = {
   id: string
@@ -26,7 +41,8 @@ export type ScaleNodeProps = {
   duration: number // seconds
   loop: boolean
   yoyo: boolean // ping-pong
-  easing: 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'spring'
+  easing: EaseSpec // easing name, easing preset or custom curve
+  triggerAction: TweenTriggerAction // what a trigger event does to the tween
 
   // Controlled mode
   inputNodeId?: string
@@ -48,38 +64,140 @@ const AUTO_MAPPING_PRESET = {
   anchorY: 'scaleAnchorY',
 }
 
-// Map easing names to GSAP equivalents
-const GSAP_EASING_MAP: Record<string, string> = {
-  linear: 'none',
-  easeIn: 'power2.in',
-  easeOut: 'power2.out',
-  easeInOut: 'power2.inOut',
-  spring: 'elastic.out(1, 0.3)',
+// Port schema
+export const SCALE_PORTS: NodePorts = {
+  inputs: [
+    { name: 'input', type: 'number', label: 'Input', default: 0 },
+    TWEEN_TRIGGER_PORT,
+    { name: 'staticScaleX', type: 'number', label: 'Scale X', min: 0, default: 1 },
+    { name: 'staticScaleY', type: 'number', label: 'Scale Y', min: 0, default: 1 },
+    { name: 'baseScale', type: 'number', label: 'Base Scale', default: 1 },
+    { name: 'multiplier', type: 'number', label: 'Multiplier', default: 1 },
+    { name: 'offset', type: 'number', label: 'Offset', default: 0 },
+    { name: 'anchorX', type: 'number', label: 'Anchor X', min: 0, max: 100, default: 50 },
+    { name: 'anchorY', type: 'number', label: 'Anchor Y', min: 0, max: 100, default: 50 },
+  ],
+  outputs: [
+    { name: 'scaleX', type: 'number', label: 'Scale X', default: 1 },
+    { name: 'scaleY', type: 'number', label: 'Scale Y', default: 1 },
+    { name: 'anchorX', type: 'number', label: 'Anchor X', min: 0, max: 100, default: 50 },
+    { name: 'anchorY', type: 'number', label: 'Anchor Y', min: 0, max: 100, default: 50 },
+  ],
+}
+
+registerNodePorts('ScaleNode', SCALE_PORTS)
+
+// Defaults, shared by the inspector schema and the component
+const SCALE_DEFAULTS: Omit<ScaleNodeProps, 'id' | 'name' | 'triggerAction' | 'inputNodeId' | 'inputProperty'> = {
+  mode: 'Animated',
+  uniform: true,
+  staticScaleX: 1,
+  staticScaleY: 1,
+  animationEnabled: true,
+  startScaleX: 1,
+  startScaleY: 1,
+  endScaleX: 1.3,
+  endScaleY: 1.3,
+  duration: 1,
+  loop: true,
+  yoyo: true,
+  easing: 'easeInOut',
+  baseScale: 1,
+  multiplier: 0.5,
+  offset: 0,
+  anchorX: 50,
+  anchorY: 50,
+}
+
+// Inspector schema
+export const SCALE_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'mode', label: 'Mode', control: 'enum', group: 'Mode', default: SCALE_DEFAULTS.mode,
+    options: [
+      { value: 'Static', label: 'Static' },
+      { value: 'Animated', label: 'Animated' },
+      { value: 'Controlled', label: 'Controlled' },
+    ],
+  },
+  { name: 'uniform', label: 'Uniform', control: 'toggle', group: 'Mode', default: SCALE_DEFAULTS.uniform },
+  { name: 'staticScaleX', label: 'Scale X', control: 'slider', group: 'Static', default: SCALE_DEFAULTS.staticScaleX, min: 0.1, max: 3, step: 0.1, visibleWhen: { mode: ['Static'] } },
+  { name: 'staticScaleY', label: 'Scale Y', control: 'slider', group: 'Static', default: SCALE_DEFAULTS.staticScaleY, min: 0.1, max: 3, step: 0.1, visibleWhen: { mode: ['Static'], uniform: [false] } },
+  { name: 'animationEnabled', label: 'Enabled', control: 'toggle', group: 'Animation', default: SCALE_DEFAULTS.animationEnabled, visibleWhen: { mode: ['Animated'] } },
+  { name: 'startScaleX', label: 'Start X', control: 'slider', group: 'Animation', default: SCALE_DEFAULTS.startScaleX, min: 0.1, max: 3, step: 0.1, visibleWhen: { mode: ['Animated'] } },
+  { name: 'startScaleY', label: 'Start Y', control: 'slider', group: 'Animation', default: SCALE_DEFAULTS.startScaleY, min: 0.1, max: 3, step: 0.1, visibleWhen: { mode: ['Animated'], uniform: [false] } },
+  { name: 'endScaleX', label: 'End X', control: 'slider', group: 'Animation', default: SCALE_DEFAULTS.endScaleX, min: 0.1, max: 3, step: 0.1, visibleWhen: { mode: ['Animated'] } },
+  { name: 'endScaleY', label: 'End Y', control: 'slider', group: 'Animation', default: SCALE_DEFAULTS.endScaleY, min: 0.1, max: 3, step: 0.1, visibleWhen: { mode: ['Animated'], uniform: [false] } },
+  { name: 'duration', label: 'Duration', control: 'slider', group: 'Animation', default: SCALE_DEFAULTS.duration, min: 0.1, max: 5, step: 0.1, unit: 's', visibleWhen: { mode: ['Animated'] } },
+  { name: 'loop', label: 'Loop', control: 'toggle', group: 'Animation', default: SCALE_DEFAULTS.loop, visibleWhen: { mode: ['Animated'] } },
+  { name: 'yoyo', label: 'Yoyo', control: 'toggle', group: 'Animation', default: SCALE_DEFAULTS.yoyo, visibleWhen: { mode: ['Animated'] } },
+  { name: 'easing', label: 'Easing', control: 'easing', group: 'Animation', default: SCALE_DEFAULTS.easing, visibleWhen: { mode: ['Animated'] } },
+  TWEEN_TRIGGER_PROPERTY,
+  { name: 'baseScale', label: 'Base Scale', control: 'number', group: 'Input', default: SCALE_DEFAULTS.baseScale, step: 0.1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'multiplier', label: 'Multiplier', control: 'number', group: 'Input', default: SCALE_DEFAULTS.multiplier, step: 0.1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'offset', label: 'Offset', control: 'number', group: 'Input', default: SCALE_DEFAULTS.offset, step: 0.1, visibleWhen: { mode: ['Controlled'] } },
+  { name: 'anchorX', label: 'Anchor X', control: 'slider', group: 'Anchor Point', default: SCALE_DEFAULTS.anchorX, min: 0, max: 100, step: 1, unit: '%' },
+  { name: 'anchorY', label: 'Anchor Y', control: 'slider', group: 'Anchor Point', default: SCALE_DEFAULTS.anchorY, min: 0, max: 100, step: 1, unit: '%' },
+  TARGET_LAYERS_PROPERTY,
+]
+
+registerPropertySchema('ScaleNode', SCALE_PROPERTIES)
+
+/**
+ * Scale at `time` seconds of timeline time.
+ * Pure: the same props, time and input always give the same scale.
+ */
+export function evaluateScale(props: ScaleNodeProps, time: number, input = 0): { x: number; y: number } {
+  switch (props.mode) {
+    case 'Animated': {
+      const startY = props.uniform ? props.startScaleX : props.startScaleY
+      if (!props.animationEnabled) return { x: props.startScaleX, y: startY }
+
+      const endY = props.uniform ? props.endScaleX : props.endScaleY
+      const options = { loop: props.loop, yoyo: props.yoyo, ease: props.easing }
+      return {
+        x: tweenValue(props.startScaleX, props.endScaleX, time, props.duration, options),
+        y: tweenValue(startY, endY, time, props.duration, options),
+      }
+    }
+
+    case 'Controlled': {
+      // Formula: baseScale + (input * multiplier) + offset
+      const result = props.baseScale + input * props.multiplier + props.offset
+      return { x: result, y: result }
+    }
+
+    default:
+      return {
+        x: props.staticScaleX,
+        y: props.uniform ? props.staticScaleX : props.staticScaleY,
+      }
+  }
 }
 
 export function ScaleNode({
   id,
   name = 'Scale',
-  mode = 'Static',
-  uniform = true,
-  staticScaleX = 1,
-  staticScaleY = 1,
-  animationEnabled = true,
-  startScaleX = 1,
-  startScaleY = 1,
-  endScaleX = 1.5,
-  endScaleY = 1.5,
-  duration = 1,
-  loop = false,
-  yoyo = true,
-  easing = 'easeInOut',
+  mode = SCALE_DEFAULTS.mode,
+  uniform = SCALE_DEFAULTS.uniform,
+  staticScaleX = SCALE_DEFAULTS.staticScaleX,
+  staticScaleY = SCALE_DEFAULTS.staticScaleY,
+  animationEnabled = SCALE_DEFAULTS.animationEnabled,
+  startScaleX = SCALE_DEFAULTS.startScaleX,
+  startScaleY = SCALE_DEFAULTS.startScaleY,
+  endScaleX = SCALE_DEFAULTS.endScaleX,
+  endScaleY = SCALE_DEFAULTS.endScaleY,
+  duration = SCALE_DEFAULTS.duration,
+  loop = SCALE_DEFAULTS.loop,
+  yoyo = SCALE_DEFAULTS.yoyo,
+  easing = SCALE_DEFAULTS.easing,
+  triggerAction = 'None',
   inputNodeId,
   inputProperty,
-  baseScale = 1,
-  multiplier = 1,
-  offset = 0,
-  anchorX = 50,
-  anchorY = 50,
+  baseScale = SCALE_DEFAULTS.baseScale,
+  multiplier = SCALE_DEFAULTS.multiplier,
+  offset = SCALE_DEFAULTS.offset,
+  anchorX = SCALE_DEFAULTS.anchorX,
+  anchorY = SCALE_DEFAULTS.anchorY,
 }: ScaleNodeProps) {
   // Reconstruct props for registration
   const baseProps = {
@@ -98,6 +216,7 @@ export function ScaleNode({
     loop,
     yoyo,
     easing,
+    triggerAction,
     inputNodeId,
     inputProperty,
     baseScale,
@@ -110,11 +229,14 @@ export function ScaleNode({
   // Register node
   useNodeRegistration(id, 'ScaleNode' as any, baseProps)
 
-  // Animation state - plain object for GSAP
-  const stateRef = useRef({ scaleX: staticScaleX, scaleY: staticScaleY })
-  const tweenRef = useRef<gsap.core.Tween | null>(null)
-  const lastPublishedX = useRef<number>(staticScaleX)
-  const lastPublishedY = useRef<number>(staticScaleY)
+  // Legacy input props become a connection into the 'input' port
+  useInputConnection(id, 'input', inputNodeId, inputProperty)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Own tween playhead, used when a trigger drives the animation
+  const playheadRef = useRef(createTweenPlayhead())
 
   // Publish auto-mapping preset
   useEffect(() => {
@@ -137,129 +259,30 @@ export function ScaleNode({
     }
   }, [id])
 
-  // Main scale logic
+  // Evaluate every frame at timeline time, after upstream nodes have ticked
   useEffect(() => {
     if (!id) return
 
-    // Kill any existing tween
-    if (tweenRef.current) {
-      tweenRef.current.kill()
-      tweenRef.current = null
-    }
-
-    // Helper: Publish scale values (with anti-jitter)
-    const publishScale = (x: number, y: number) => {
-      const roundedX = Math.round(x * 1000) / 1000
-      const roundedY = Math.round(y * 1000) / 1000
-
-      if (roundedX !== lastPublishedX.current || roundedY !== lastPublishedY.current) {
-        lastPublishedX.current = roundedX
-        lastPublishedY.current = roundedY
-
-        if (aninodeStore.nodes[id]) {
-          aninodeStore.nodes[id].outputs.scaleX = roundedX
-          aninodeStore.nodes[id].outputs.scaleY = roundedY
-          aninodeStore.nodes[id].outputs.anchorX = anchorX
-          aninodeStore.nodes[id].outputs.anchorY = anchorY
-        }
-      }
-    }
-
-    // MODE 1: Static
-    if (mode === 'Static') {
-      const finalY = uniform ? staticScaleX : staticScaleY
-      stateRef.current.scaleX = staticScaleX
-      stateRef.current.scaleY = finalY
-      publishScale(staticScaleX, finalY)
-      return
-    }
-
-    // MODE 2: Animated
-    if (mode === 'Animated' && animationEnabled) {
-      const finalStartY = uniform ? startScaleX : startScaleY
-      const finalEndY = uniform ? endScaleX : endScaleY
-
-      stateRef.current.scaleX = startScaleX
-      stateRef.current.scaleY = finalStartY
-
-      const gsapEasing = GSAP_EASING_MAP[easing] || 'power2.inOut'
-
-      tweenRef.current = gsap.to(stateRef.current, {
-        scaleX: endScaleX,
-        scaleY: finalEndY,
-        duration: duration,
-        ease: gsapEasing,
-        repeat: loop ? -1 : 0,
-        yoyo: yoyo,
-        onUpdate: () => publishScale(stateRef.current.scaleX, stateRef.current.scaleY),
-      })
-
-      return () => {
-        if (tweenRef.current) {
-          tweenRef.current.kill()
-          tweenRef.current = null
-        }
-      }
-    }
-
-    // MODE 3: Controlled
-    if (mode === 'Controlled' && inputNodeId && inputProperty) {
-      const updateFromInput = () => {
-        const inputNode = aninodeStore.nodes[inputNodeId]
-        if (!inputNode) return
-
-        const inputValue = inputNode.outputs[inputProperty]
-        if (inputValue !== undefined) {
-          // Formula: baseScale + (inputValue * multiplier) + offset
-          const result = baseScale + (inputValue * multiplier) + offset
-          stateRef.current.scaleX = result
-          stateRef.current.scaleY = uniform ? result : result
-          publishScale(result, uniform ? result : result)
-        }
-      }
-
-      updateFromInput()
-      const interval = setInterval(updateFromInput, 16)
-
-      return () => {
-        clearInterval(interval)
-      }
-    }
-
-    // Fallback
-    publishScale(stateRef.current.scaleX, stateRef.current.scaleY)
-  }, [
-    id,
-    mode,
-    uniform,
-    staticScaleX,
-    staticScaleY,
-    animationEnabled,
-    startScaleX,
-    startScaleY,
-    endScaleX,
-    endScaleY,
-    duration,
-    loop,
-    yoyo,
-    easing,
-    inputNodeId,
-    inputProperty,
-    baseScale,
-    multiplier,
-    offset,
-    anchorX,
-    anchorY,
-  ])
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (tweenRef.current) {
-        tweenRef.current.kill()
-      }
-    }
-  }, [])
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const input = resolveProperty(id, 'input', 0)
+      const fired = takeNodeEvents(id, 'trigger').length > 0
+      const span = props.loop ? Infinity : props.duration
+      const time = advanceTweenPlayhead(playheadRef.current, props.triggerAction, fired, ctx.time, span)
+      const scale = evaluateScale(props, time, input)
+      const scaleX = Math.round(scale.x * 1000) / 1000
+      const scaleY = Math.round(scale.y * 1000) / 1000
+
+      // Anti-jitter: values are rounded and only written when they change
+      if (node.outputs.scaleX !== scaleX) node.outputs.scaleX = scaleX
+      if (node.outputs.scaleY !== scaleY) node.outputs.scaleY = scaleY
+      if (node.outputs.anchorX !== props.anchorX) node.outputs.anchorX = props.anchorX
+      if (node.outputs.anchorY !== props.anchorY) node.outputs.anchorY = props.anchorY
+    })
+  }, [id])
 
   return null
 }
@@ -0,0 +1,285 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps } from '@core/resolveProperty'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import { matchesLayer } from '@core/layerBindings'
+import { seededItemRandom } from '@core/random'
+import { sampleInputAt } from '@core/timeSampling'
+import { pickedItemId } from '@nodes/ObjectPickerNode'
+import type { NodePorts, NodePropertySchema, SceneAsset } from '../../types'
+
+export type StaggerTiming = 'Delay' | 'Phase'
+
+export type StaggerOrder = 'Index' | 'Reverse' | 'Random' | 'Distance'
+
+export type StaggerNodeProps = {
+  id: string
+  name?: string
+
+  // Driver
+  value: number // signal to stagger (usually connected, e.g. an LFO)
+  items: string[] // layer ids or names (usually ObjectPicker `picked`)
+
+  // Timing
+  timing: StaggerTiming
+  delayStep: number // Delay: seconds added per rank
+  phaseStep: number // Phase: degrees added per rank
+  period: number // Phase: seconds in one cycle of the driver
+
+  // Ordering
+  order: StaggerOrder
+  originX: number // Distance: point the stagger spreads out from (scene px)
+  originY: number
+
+  // Randomness (seeded, so every frame and every seek agree)
+  randomDelay: number // up to this many extra seconds per item
+  randomAmount: number // ± this much added to each item's value
+  seed: number
+}
+
+// Port schema
+export const STAGGER_PORTS: NodePorts = {
+  inputs: [
+    { name: 'value', type: 'number', label: 'Value', default: 0 },
+    { name: 'items', type: 'any', label: 'Items', default: [] },
+    { name: 'delayStep', type: 'number', label: 'Delay Step (s)', min: 0, default: 0.1 },
+    { name: 'phaseStep', type: 'number', label: 'Phase Step (°)', default: 30 },
+    { name: 'randomAmount', type: 'number', label: 'Random Amount', min: 0, default: 0 },
+  ],
+  outputs: [
+    { name: 'values', type: 'items', label: 'Per-Item Values', default: {} },
+    { name: 'count', type: 'number', label: 'Count', min: 0, default: 0 },
+  ],
+}
+
+registerNodePorts('StaggerNode', STAGGER_PORTS)
+
+// Inspector schema
+export const STAGGER_PROPERTIES: NodePropertySchema = [
+  { name: 'items', label: 'Items', control: 'layers', group: 'Items', default: [] },
+  { name: 'value', label: 'Value', control: 'number', group: 'Items', default: 0, step: 0.1 },
+  {
+    name: 'timing', label: 'Mode', control: 'enum', group: 'Timing', default: 'Delay',
+    options: [
+      { value: 'Delay', label: 'Delay' },
+      { value: 'Phase', label: 'Phase' },
+    ],
+  },
+  { name: 'delayStep', label: 'Delay Step', control: 'slider', group: 'Timing', default: 0.1, min: 0, max: 2, step: 0.01, unit: ' s', visibleWhen: { timing: ['Delay'] } },
+  { name: 'phaseStep', label: 'Phase Step', control: 'angle', group: 'Timing', default: 30, visibleWhen: { timing: ['Phase'] } },
+  { name: 'period', label: 'Period', control: 'number', group: 'Timing', default: 1, min: 0.01, step: 0.1, unit: ' s', visibleWhen: { timing: ['Phase'] } },
+  {
+    name: 'order', label: 'Order', control: 'enum', group: 'Order', default: 'Index',
+    options: [
+      { value: 'Index', label: 'Index' },
+      { value: 'Reverse', label: 'Reverse' },
+      { value: 'Random', label: 'Random' },
+      { value: 'Distance', label: 'Distance from point' },
+    ],
+  },
+  { name: 'originX', label: 'Origin X', control: 'number', group: 'Order', default: 0, step: 1, unit: ' px', visibleWhen: { order: ['Distance'] } },
+  { name: 'originY', label: 'Origin Y', control: 'number', group: 'Order', default: 0, step: 1, unit: ' px', visibleWhen: { order: ['Distance'] } },
+  { name: 'randomDelay', label: 'Random Delay', control: 'slider', group: 'Randomness', default: 0, min: 0, max: 2, step: 0.01, unit: ' s' },
+  { name: 'randomAmount', label: 'Random Amount', control: 'number', group: 'Randomness', default: 0, min: 0, step: 0.1 },
+  { name: 'seed', label: 'Seed', control: 'number', group: 'Randomness', default: 1, step: 1 },
+]
+
+registerPropertySchema('StaggerNode', STAGGER_PROPERTIES)
+
+// Separate random streams so changing one setting doesn't reshuffle the others
+const ORDER_STREAM = 0
+const DELAY_STREAM = 1
+const AMOUNT_STREAM = 2
+
+function itemRandom(seed: number, stream: number, index: number): number {
+  return seededItemRandom(seed * 3 + stream, index)
+}
+
+/**
+ * Rank of every item (0 fires first), by position in `items`.
+ * Ties (e.g. equal distances) keep list order.
+ */
+export function rankItems(
+  items: readonly string[],
+  props: Pick<StaggerNodeProps, 'order' | 'originX' | 'originY' | 'seed'>,
+  assets: readonly SceneAsset[]
+): number[] {
+  const sortKey = (index: number): number => {
+    switch (props.order) {
+      case 'Reverse':
+        return -index
+      case 'Random':
+        return itemRandom(props.seed, ORDER_STREAM, index)
+      case 'Distance': {
+        // Distance from the origin to the layer centre; unknown layers go last
+        const layer = assets.find((asset) => matchesLayer(asset, items[index]))
+        if (!layer) return Infinity
+        return Math.hypot(layer.x + layer.width / 2 - props.originX, layer.y + layer.height / 2 - props.originY)
+      }
+      default:
+        return index
+    }
+  }
+
+  const ranks = new Array<number>(items.length)
+  items
+    .map((_, index) => ({ index, key: sortKey(index) }))
+    .sort((a, b) => a.key - b.key || a.index - b.index)
+    .forEach((entry, rank) => {
+      ranks[entry.index] = rank
+    })
+  return ranks
+}
+
+/**
+ * How far behind the driver an item runs, in seconds. Phase offsets wrap
+ * within one period, so a full ring of items spreads over a single cycle.
+ */
+export function staggerOffset(
+  rank: number,
+  index: number,
+  props: Pick<StaggerNodeProps, 'timing' | 'delayStep' | 'phaseStep' | 'period' | 'randomDelay' | 'seed'>
+): number {
+  const jitter = props.randomDelay * itemRandom(props.seed, DELAY_STREAM, index)
+
+  if (props.timing === 'Phase') {
+    const period = Math.max(props.period, 0.001)
+    const turns = (rank * props.phaseStep) / 360
+    return (turns - Math.floor(turns)) * period + jitter
+  }
+
+  return rank * Math.max(props.delayStep, 0) + jitter
+}
+
+/**
+ * Value offset added to an item, in [-amount, amount]
+ */
+export function staggerJitter(index: number, props: Pick<StaggerNodeProps, 'randomAmount' | 'seed'>): number {
+  if (!props.randomAmount) return 0
+  return (itemRandom(props.seed, AMOUNT_STREAM, index) * 2 - 1) * props.randomAmount
+}
+
+export type DriverSample = { time: number; value: number }
+
+/**
+ * Driver value at `time`, linearly interpolated from recorded samples (sorted
+ * by time). Before the first sample the oldest known value is held. Only used
+ * for drivers that can't be read at another time (see sampleInputAt).
+ */
+export function sampleDriver(history: readonly DriverSample[], time: number): number {
+  if (history.length === 0) return 0
+  if (time <= history[0].time) return history[0].value
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const sample = history[i]
+    if (sample.time > time) continue
+
+    const next = history[i + 1]
+    if (!next) return sample.value
+    const t = (time - sample.time) / (next.time - sample.time)
+    return sample.value + (next.value - sample.value) * t
+  }
+
+  return history[0].value
+}
+
+export function StaggerNode({
+  id,
+  name = 'Stagger',
+  value = 0,
+  items = [],
+  timing = 'Delay',
+  delayStep = 0.1,
+  phaseStep = 30,
+  period = 1,
+  order = 'Index',
+  originX = 0,
+  originY = 0,
+  randomDelay = 0,
+  randomAmount = 0,
+  seed = 1,
+}: StaggerNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    value,
+    items,
+    timing,
+    delayStep,
+    phaseStep,
+    period,
+    order,
+    originX,
+    originY,
+    randomDelay,
+    randomAmount,
+    seed,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'StaggerNode', baseProps)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  // Driver values recorded while playing, for drivers that can't be sampled at another time
+  const historyRef = useRef<DriverSample[]>([])
+
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const list: string[] = Array.isArray(props.items) ? props.items : []
+      const driver = Number(props.value) || 0
+
+      // Record the driver. Seeking backwards keeps what was recorded up to the new time.
+      const history = historyRef.current
+      while (history.length > 0 && history[history.length - 1].time > ctx.time) {
+        history.pop()
+      }
+      const last = history[history.length - 1]
+      if (last && ctx.time === last.time) {
+        last.value = driver
+      } else {
+        history.push({ time: ctx.time, value: driver })
+      }
+
+      const ranks = rankItems(list, props, aninodeStore.scene?.assets ?? [])
+      const offsets = list.map((_, index) => staggerOffset(ranks[index], index, props))
+
+      // Delayed items read the driver as it is at an earlier timeline time (held
+      // at its start value before 0), so every frame, seek and scrub agree
+      const values: Record<string, number> = {}
+      offsets.forEach((offset, index) => {
+        const time = Math.max(0, ctx.time - offset)
+        const sampled = Number(sampleInputAt(id, 'value', time))
+        const delayed = Number.isFinite(sampled) ? sampled : sampleDriver(history, time)
+        const itemValue = delayed + staggerJitter(index, props)
+        values[pickedItemId(index)] = Math.round(itemValue * 1000) / 1000
+      })
+
+      // Keep one sample older than the longest offset, so it can still be interpolated
+      const horizon = ctx.time - Math.max(0, ...offsets)
+      while (history.length > 2 && history[1].time <= horizon) {
+        history.shift()
+      }
+
+      // Only write changed values
+      if (JSON.stringify(node.outputs.values) !== JSON.stringify(values)) {
+        node.outputs.values = values
+      }
+      if (node.outputs.count !== list.length) node.outputs.count = list.length
+    })
+  }, [id])
+
+  // Invisible component (headless node)
+  return null
+}
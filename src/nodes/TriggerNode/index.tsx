@@ -0,0 +1,347 @@
+import { useEffect, useRef } from 'react'
+import { aninodeStore } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
+import { resolveNodeProps } from '@core/resolveProperty'
+import { matchesKeyCombo, parseKeyCombos, subscribeSceneInput, type SceneInputEvent } from '@core/sceneInput'
+import { emitNodeEvent, takeNodeEvents } from '@core/events'
+import { useNodeRegistration } from '@core/useNodeRegistration'
+import { registerNodePorts } from '@core/ports'
+import { registerPropertySchema } from '@core/propertySchemas'
+import type { NodePorts, NodePropertySchema } from '../../types'
+
+export type TriggerNodeProps = {
+  id: string
+  name?: string
+
+  // What fires the trigger
+  source: 'Keyboard' | 'Click' | 'Hover' | 'Scroll' | 'Timer'
+
+  // Keyboard source
+  keys: string // combos, e.g. 'space, ctrl+shift+k, ArrowUp'
+
+  // Click / Hover source
+  layers: string[] // layer ids or names; empty = any layer
+
+  // Scroll source
+  scrollThreshold: number // wheel distance (px) per fire
+  scrollDirection: 'Down' | 'Up' | 'Both'
+
+  // Timer source (timeline time)
+  delay: number // seconds before the first fire
+  interval: number // seconds between later fires; 0 = fire once
+
+  // Behavior
+  behavior: 'Pulse' | 'OneShot' | 'Toggle'
+  debounce: number // seconds; fires closer together than this are dropped
+  enabled: boolean
+}
+
+// What fired, published on the payload output
+export type TriggerPayload = {
+  source: TriggerNodeProps['source']
+  time: number // timeline time of the fire
+  count: number // fires since the last reset, this one included
+  key?: string
+  layerId?: string
+  layerName?: string
+  x?: number // canvas pixels
+  y?: number
+  deltaY?: number // accumulated wheel distance
+}
+
+// Port schema
+export const TRIGGER_PORTS: NodePorts = {
+  inputs: [
+    { name: 'enabled', type: 'boolean', label: 'Enabled', default: true },
+    { name: 'reset', type: 'event', label: 'Reset', default: false },
+    { name: 'delay', type: 'number', label: 'Delay', min: 0, default: 1 },
+    { name: 'interval', type: 'number', label: 'Interval', min: 0, default: 0 },
+    { name: 'debounce', type: 'number', label: 'Debounce', min: 0, default: 0 },
+    { name: 'scrollThreshold', type: 'number', label: 'Scroll Threshold', min: 1, default: 100 },
+  ],
+  outputs: [
+    { name: 'fired', type: 'event', label: 'Fired', default: false },
+    { name: 'isActive', type: 'boolean', label: 'Active', default: false },
+    { name: 'count', type: 'number', label: 'Count', default: 0 },
+    { name: 'payload', type: 'any', label: 'Payload', default: null },
+  ],
+}
+
+registerNodePorts('TriggerNode', TRIGGER_PORTS)
+
+// Inspector schema
+export const TRIGGER_PROPERTIES: NodePropertySchema = [
+  {
+    name: 'source', label: 'Source', control: 'enum', group: 'Source', default: 'Keyboard',
+    options: [
+      { value: 'Keyboard', label: 'Keyboard' },
+      { value: 'Click', label: 'Click' },
+      { value: 'Hover', label: 'Hover' },
+      { value: 'Scroll', label: 'Scroll' },
+      { value: 'Timer', label: 'Timer' },
+    ],
+  },
+  { name: 'keys', label: 'Keys', control: 'text', group: 'Source', default: 'space', visibleWhen: { source: ['Keyboard'] } },
+  { name: 'layers', label: 'Layers', control: 'layers', group: 'Source', default: [], visibleWhen: { source: ['Click', 'Hover'] } },
+  { name: 'scrollThreshold', label: 'Threshold', control: 'slider', group: 'Source', default: 100, min: 10, max: 1000, step: 10, unit: 'px', visibleWhen: { source: ['Scroll'] } },
+  {
+    name: 'scrollDirection', label: 'Direction', control: 'enum', group: 'Source', default: 'Down', visibleWhen: { source: ['Scroll'] },
+    options: [
+      { value: 'Down', label: 'Down' },
+      { value: 'Up', label: 'Up' },
+      { value: 'Both', label: 'Both' },
+    ],
+  },
+  { name: 'delay', label: 'Delay', control: 'slider', group: 'Source', default: 1, min: 0, max: 10, step: 0.1, unit: 's', visibleWhen: { source: ['Timer'] } },
+  { name: 'interval', label: 'Interval', control: 'slider', group: 'Source', default: 0, min: 0, max: 10, step: 0.1, unit: 's', visibleWhen: { source: ['Timer'] } },
+  {
+    name: 'behavior', label: 'Behavior', control: 'enum', group: 'Behavior', default: 'Pulse',
+    options: [
+      { value: 'Pulse', label: 'Pulse (every time)' },
+      { value: 'OneShot', label: 'One-shot' },
+      { value: 'Toggle', label: 'Toggle' },
+    ],
+  },
+  { name: 'debounce', label: 'Debounce', control: 'slider', group: 'Behavior', default: 0, min: 0, max: 2, step: 0.05, unit: 's' },
+  { name: 'enabled', label: 'Enabled', control: 'toggle', group: 'Behavior', default: true },
+]
+
+registerPropertySchema('TriggerNode', TRIGGER_PROPERTIES)
+
+// A wheel event within this long (ms) counts as still scrolling
+const SCROLL_ACTIVE_MS = 150
+
+type TriggerState = {
+  count: number
+  latched: boolean // OneShot: already fired
+  toggled: boolean // Toggle: current state
+  lastFireStamp: number | null // ms, for debounce
+  heldKeys: Set<string>
+  hoveredLayers: Set<string>
+  scrollDistance: number // wheel distance since the last scroll fire
+  lastWheelStamp: number | null
+  lastTime: number | null // timeline time of the previous tick, for timers
+}
+
+function createTriggerState(): TriggerState {
+  return {
+    count: 0,
+    latched: false,
+    toggled: false,
+    lastFireStamp: null,
+    heldKeys: new Set(),
+    hoveredLayers: new Set(),
+    scrollDistance: 0,
+    lastWheelStamp: null,
+    lastTime: null,
+  }
+}
+
+/**
+ * Whether a timer fires between timeline times `from` (exclusive) and `to`
+ * (inclusive): at `delay`, then every `interval` seconds when interval > 0
+ */
+export function timerFires(delay: number, interval: number, from: number, to: number): boolean {
+  if (to < delay || from >= to) return false
+  if (from < delay) return true
+  if (interval <= 0) return false
+  // Index of the last fire at or before each end
+  return Math.floor((to - delay) / interval) > Math.floor((from - delay) / interval)
+}
+
+// Layer events only count for the listed layers (any layer when none are listed)
+function matchesLayers(layers: string[], layerId: string, layerName: string): boolean {
+  return !Array.isArray(layers) || layers.length === 0 || layers.includes(layerId) || layers.includes(layerName)
+}
+
+/**
+ * Updates held keys, hovered layers and scroll distance for an input event and
+ * returns the payload when the event should fire the trigger
+ */
+function readSourceEvent(
+  state: TriggerState,
+  props: TriggerNodeProps,
+  event: SceneInputEvent
+): Omit<TriggerPayload, 'time' | 'count'> | null {
+  switch (event.type) {
+    case 'keydown': {
+      if (props.source !== 'Keyboard') return null
+      if (!parseKeyCombos(props.keys).some((combo) => matchesKeyCombo(event, combo))) return null
+      state.heldKeys.add(event.key.toLowerCase())
+      return event.repeat ? null : { source: 'Keyboard', key: event.key }
+    }
+
+    case 'keyup':
+      // Modifiers may already be up, so release by key alone
+      state.heldKeys.delete(event.key.toLowerCase())
+      return null
+
+    case 'click':
+      if (props.source !== 'Click' || !matchesLayers(props.layers, event.layerId, event.layerName)) return null
+      return { source: 'Click', layerId: event.layerId, layerName: event.layerName, x: event.x, y: event.y }
+
+    case 'pointerenter':
+      if (props.source !== 'Hover' || !matchesLayers(props.layers, event.layerId, event.layerName)) return null
+      state.hoveredLayers.add(event.layerId)
+      return { source: 'Hover', layerId: event.layerId, layerName: event.layerName, x: event.x, y: event.y }
+
+    case 'pointerleave':
+      state.hoveredLayers.delete(event.layerId)
+      return null
+
+    case 'wheel': {
+      if (props.source !== 'Scroll') return null
+      state.lastWheelStamp = event.timeStamp
+      const delta =
+        props.scrollDirection === 'Up' ? -event.deltaY : props.scrollDirection === 'Down' ? event.deltaY : Math.abs(event.deltaY)
+      state.scrollDistance = Math.max(0, state.scrollDistance + delta)
+      if (state.scrollDistance < Math.max(1, props.scrollThreshold)) return null
+      const deltaY = state.scrollDistance
+      state.scrollDistance = 0
+      return { source: 'Scroll', deltaY }
+    }
+  }
+}
+
+/**
+ * Debounce and behavior: whether a source fire goes out, updating the latch
+ * and toggle state when it does
+ */
+function acceptFire(state: TriggerState, props: TriggerNodeProps, stamp: number): boolean {
+  if (state.lastFireStamp !== null && stamp - state.lastFireStamp < props.debounce * 1000) return false
+  if (props.behavior === 'OneShot' && state.latched) return false
+
+  state.lastFireStamp = stamp
+  state.latched = true
+  state.toggled = !state.toggled
+  state.count += 1
+  return true
+}
+
+// Level output: what the source is doing now, or the behavior's own state
+function isTriggerActive(state: TriggerState, props: TriggerNodeProps, fired: boolean, time: number, now: number) {
+  if (props.behavior === 'OneShot') return state.latched
+  if (props.behavior === 'Toggle') return state.toggled
+
+  switch (props.source) {
+    case 'Keyboard':
+      return state.heldKeys.size > 0
+    case 'Hover':
+      return state.hoveredLayers.size > 0
+    case 'Scroll':
+      return state.lastWheelStamp !== null && now - state.lastWheelStamp < SCROLL_ACTIVE_MS
+    case 'Timer':
+      return time >= props.delay
+    default:
+      return fired
+  }
+}
+
+export function TriggerNode({
+  id,
+  name = 'Trigger',
+  source = 'Keyboard',
+  keys = 'space',
+  layers = [],
+  scrollThreshold = 100,
+  scrollDirection = 'Down',
+  delay = 1,
+  interval = 0,
+  behavior = 'Pulse',
+  debounce = 0,
+  enabled = true,
+}: TriggerNodeProps) {
+  // Reconstruct props for registration
+  const baseProps = {
+    id,
+    name,
+    source,
+    keys,
+    layers,
+    scrollThreshold,
+    scrollDirection,
+    delay,
+    interval,
+    behavior,
+    debounce,
+    enabled,
+  }
+
+  // Register node
+  useNodeRegistration(id, 'TriggerNode', baseProps)
+
+  const propsRef = useRef(baseProps)
+  propsRef.current = baseProps
+
+  const stateRef = useRef(createTriggerState())
+  const queueRef = useRef<SceneInputEvent[]>([])
+
+  // Input arrives between frames; it is handled on the next tick
+  useEffect(() => subscribeSceneInput((event) => queueRef.current.push(event)), [])
+
+  // Evaluate every frame, after upstream nodes have ticked
+  useEffect(() => {
+    if (!id) return
+
+    return frameScheduler.register(id, (ctx) => {
+      const node = aninodeStore.nodes[id]
+      if (!node) return
+
+      const props = resolveNodeProps(id, propsRef.current)
+      const state = stateRef.current
+      const now = performance.now()
+      const events = queueRef.current
+      queueRef.current = []
+
+      if (takeNodeEvents(id, 'reset').length > 0) {
+        Object.assign(state, { count: 0, latched: false, toggled: false, lastFireStamp: null, scrollDistance: 0 })
+      }
+
+      // Source fires this frame: input events, then the timer
+      const fires: Omit<TriggerPayload, 'time' | 'count'>[] = []
+      const stamps: number[] = []
+      events.forEach((event) => {
+        const fire = readSourceEvent(state, props, event)
+        if (fire) {
+          fires.push(fire)
+          stamps.push(event.timeStamp)
+        }
+      })
+
+      // Rewinds (loop wrap, seek back) re-arm the timer from the start of the timeline
+      const previousTime = state.lastTime
+      state.lastTime = ctx.time
+      if (props.source === 'Timer') {
+        const from = previousTime === null ? (ctx.time === 0 ? -1 : ctx.time) : ctx.time < previousTime ? -1 : previousTime
+        if (timerFires(props.delay, props.interval, from, ctx.time)) {
+          fires.push({ source: 'Timer' })
+          stamps.push(now)
+        }
+      }
+
+      // Several fires in one frame go out as one; the payload is the last accepted
+      let payload: TriggerPayload | null = null
+      if (props.enabled) {
+        fires.forEach((fire, index) => {
+          if (acceptFire(state, props, stamps[index])) {
+            payload = { ...fire, time: ctx.time, count: state.count }
+          }
+        })
+      }
+
+      const fired = payload !== null
+      const isActive = props.enabled && isTriggerActive(state, props, fired, ctx.time, now)
+
+      // Outputs only written when they change; the payload keeps the last fire
+      if (node.outputs.fired !== fired) node.outputs.fired = fired
+      if (node.outputs.isActive !== isActive) node.outputs.isActive = isActive
+      if (node.outputs.count !== state.count) node.outputs.count = state.count
+      if (payload) {
+        node.outputs.payload = payload
+        emitNodeEvent(id, 'fired', payload)
+      }
+    })
+  }, [id])
+
+  return null
+}
@@ -1,5 +1,6 @@
 import { PhysicsTestObject } from '@components/PhysicsTestObject'
-import { aninodeStore } from '@core/store'
+import { aninodeStore, storeActions } from '@core/store'
+import { frameScheduler } from '@core/scheduler'
 import { CollisionNode, CollisionNodeProps } from '@nodes/CollisionNode'
 import { LFONode, LFONodeProps } from '@nodes/LFONode'
 import { OpacityNode, OpacityNodeProps } from '@nodes/OpacityNode'
@@ -9,7 +10,7 @@ import { ScaleNode, ScaleNodeProps } from '@nodes/ScaleNode'
 import { OrthographicCamera } from '@react-three/drei'
 import { Canvas } from '@react-three/fiber'
 import { Physics } from '@react-three/rapier'
-import { Suspense, useEffect, useMemo, useRef, useState } from 'react'
+import { Suspense, useEffect, useMemo, useState } from 'react'
 import styles from './NodeTester.module.css'
 
 type NodeTypeKey = 'rotation' | 'scale' | 'opacity' | 'lfo' | 'physics' | 'collision'
@@ -156,7 +157,6 @@ export function NodeTester() {
   const [isPlaying, setIsPlaying] = useState(false)
   const [outputs, setOutputs] = useState<Record<string, any>>({})
   const [resetKey, setResetKey] = useState(0)
-  const rafRef = useRef<number>()
 
   // Test objects for physics testing
   type TestObject = {
@@ -219,8 +219,14 @@ export function NodeTester() {
     setIsPlaying(true)
   }
 
+  // Nodes evaluate at timeline time, so Play/Stop drives the default timeline
+  useEffect(() => {
+    storeActions.setPlaying(isPlaying)
+  }, [isPlaying])
+
   // Reset simulation
   const resetSimulation = () => {
+    storeActions.setCurrentTime(0)
     setTestObjects(createInitialObjects())
     setResetKey(prev => prev + 1)
   }
@@ -274,13 +280,10 @@ export function NodeTester() {
         }
       })
       setOutputs(newOutputs)
-      rafRef.current = requestAnimationFrame(poll)
     }
 
-    rafRef.current = requestAnimationFrame(poll)
-    return () => {
-      if (rafRef.current) cancelAnimationFrame(rafRef.current)
-    }
+    // Read outputs once per frame, after all nodes have ticked
+    return frameScheduler.onFrame(poll)
   }, [isPlaying, activeNodes])
 
   // Get active effects for display
@@ -13,17 +13,24 @@ export type NodeType =
   | 'LFONode'
   | 'CurveNode'
   | 'TriggerNode'
+  | 'NoiseNode'
+  | 'RandomNode'
     // Physics nodes
   | 'PhysicsNode'
+  | 'CollisionNode'
   // Scene control
   | 'SceneAnimatorNode'
   | 'ObjectPickerNode'
+  | 'StaggerNode'
   | 'SpriteAtlasNode'
   // Advanced
   | 'PathDrawerNode'
   | 'AudioTimelineNode'
   | 'LightControllerNode'
-  // Legacy (to be migrated)
+  | LegacyNodeType
+
+// Legacy (to be migrated): renamed to their replacements when a project loads
+export type LegacyNodeType =
   | 'SceneAnimator'
   | 'LFO'
   | 'ObjectPicker'
@@ -40,6 +47,8 @@ export type NodeState = {
   position: { x: number; y: number }
   // Level 1: Static props from UI
   baseProps: Record<string, any>
+  // Level 1 (animated): keyframe tracks per numeric baseProp, replacing the static value
+  keyframes?: Record<string, Keyframe[]>
   // Level 3: Dynamic values from connections
   overrides: Record<string, any>
   // Computed outputs this node exposes
@@ -54,20 +63,98 @@ export type NodeState = {
   >
 }
 
+export type Keyframe = {
+  id: string
+  time: number // seconds
+  value: number
+  easing: string // GSAP_EASING_MAP name; eases the segment towards the next keyframe
+}
+
 export type Connection = {
   id: string
   sourceNodeId: string
   sourceOutput: string
   targetNodeId: string
   targetInput: string
+  // Feedback edges may close a loop: the target reads the source's value from the previous frame
+  feedback?: boolean
+  // 'event': carries queued discrete events instead of a sampled value (made into event inputs)
+  kind?: 'value' | 'event'
+}
+
+// Value carried by a node port
+export type PortValueType =
+  | 'number'
+  | 'boolean'
+  | 'color' // CSS color string
+  | 'vector2' // { x, y }
+  | 'event' // discrete impulse
+  | 'string'
+  | 'items' // per-item numbers keyed by item id ({ item_0: 1, item_1: 0.5 })
+  | 'any'
+
+export type PortDefinition = {
+  name: string
+  type: PortValueType
+  label?: string
+  min?: number
+  max?: number
+  default?: any
 }
 
+export type NodePorts = {
+  inputs: PortDefinition[]
+  outputs: PortDefinition[]
+}
+
+// Inspector widget used to edit a node property
+export type PropertyControl =
+  | 'slider'
+  | 'number'
+  | 'angle' // dial, degrees
+  | 'toggle'
+  | 'enum'
+  | 'color'
+  | 'text'
+  | 'layers' // scene layer ids or names
+  | 'path' // LayerAnimData: bezier points plus animation config
+  | 'gradient' // gradient preset reference or color stops
+  | 'easing' // easing name or easing preset reference
+  | 'curve' // CurveDefinition: bezier handles, spline points or a built-in shape
+  | 'bars' // number[] of 0-1 values, drawn as bars
+
+export type PropertyDefinition = {
+  name: string // baseProps key
+  label: string
+  control: PropertyControl
+  default: any
+  group?: string // inspector section
+  min?: number
+  max?: number
+  step?: number
+  unit?: string // shown after the value, e.g. '°' or '%'
+  options?: { value: string; label: string }[] // enum choices
+  visibleWhen?: Record<string, any[]> // only shown while each listed prop has one of these values
+}
+
+export type NodePropertySchema = PropertyDefinition[]
+
+// How playback behaves when it reaches the out point
+export type PlaybackMode = 'loop' | 'once' | 'pingPong'
+
 export type TimelineState = {
   id: string
   isPlaying: boolean
   currentTime: number
   duration: number
   fps: number
+
+  // Transport
+  playbackMode: PlaybackMode
+  rate: number // playback speed multiplier (0.25-4)
+  inPoint: number // seconds; start of the playback range
+  outPoint: number // seconds; end of the playback range
+  direction: 1 | -1 // current play direction (ping-pong runs backwards on the way back)
 }
 
 export type PresetData = {